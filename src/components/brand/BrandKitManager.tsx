@@ -0,0 +1,368 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Cross2Icon, PlusIcon, UploadIcon } from '@radix-ui/react-icons';
+import FontFamilyPicker from '@/components/editor/font-picker';
+import ColorPicker from '@/components/editor/color-picker';
+import SliderField from '@/components/editor/slider-field';
+import { VideoService } from '@/services/videoService';
+import { IMPORTED_FONT_EXTENSIONS } from '@/constants/fonts';
+import { createTextSet } from '@/lib/thumbnail-project';
+import { BrandKit, BrandTextStyle } from '@/types';
+import { useBrandKits } from './useBrandKits';
+
+// Formats ffmpeg can overlay onto video
+const LOGO_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+
+const createKit = (name: string): BrandKit => ({
+    id: `kit-${Date.now()}`,
+    name,
+    fonts: [],
+    colors: [],
+    logos: [],
+    textStyles: []
+});
+
+const createTextStyle = (name: string): BrandTextStyle => {
+    const { fontFamily, fontWeight, fontSize, color, shadowColor, shadowSize, letterSpacing } = createTextSet(0);
+    return { name, style: { fontFamily, fontWeight, fontSize, color, shadowColor, shadowSize, letterSpacing } };
+};
+
+const LogoThumbnail: React.FC<{ path: string; onRemove: () => void }> = ({ path, onRemove }) => {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        window.electronAPI.getFileUrl(path).then((result) => {
+            if (result.success && result.url) {
+                setUrl(result.url);
+            }
+        });
+    }, [path]);
+
+    return (
+        <div className="relative h-16 w-16 rounded border border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-800 flex items-center justify-center">
+            {url && <img src={url} alt="Logo" className="max-h-full max-w-full object-contain" />}
+            <button className="absolute -top-2 -right-2 rounded-full bg-background border p-0.5" onClick={onRemove}>
+                <Cross2Icon className="w-3 h-3" />
+            </button>
+        </div>
+    );
+};
+
+/**
+ * Dialog for managing brand kits and imported fonts. Every edit is saved to
+ * the main process straight away, and the pickers pick it up from there.
+ */
+const BrandKitManager: React.FC = () => {
+    const { kits, fonts } = useBrandKits();
+    const [selectedKitId, setSelectedKitId] = useState<string | null>(null);
+    const [newColor, setNewColor] = useState('#153592');
+    const [error, setError] = useState<string | null>(null);
+
+    const kit = kits.find((candidate) => candidate.id === selectedKitId) ?? kits[0] ?? null;
+
+    const run = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (actionError) {
+            setError(actionError instanceof Error ? actionError.message : 'Something went wrong');
+        }
+    };
+
+    const updateKit = (changes: Partial<BrandKit>) => {
+        if (!kit) return;
+        run(() => VideoService.saveBrandKit({ ...kit, ...changes }));
+    };
+
+    const updateTextStyle = (index: number, changes: Partial<BrandTextStyle['style']> & { name?: string }) => {
+        if (!kit) return;
+        const { name, ...style } = changes;
+        updateKit({
+            textStyles: kit.textStyles.map((textStyle, current) => current === index
+                ? { name: name ?? textStyle.name, style: { ...textStyle.style, ...style } }
+                : textStyle)
+        });
+    };
+
+    const handleCreateKit = () => run(async () => {
+        const created = await VideoService.saveBrandKit(createKit(`Brand Kit ${kits.length + 1}`));
+        setSelectedKitId(created.id);
+    });
+
+    const handleImportFonts = () => run(async () => {
+        const result = await window.electronAPI.showOpenDialog({
+            filters: [{ name: 'Fonts', extensions: IMPORTED_FONT_EXTENSIONS }],
+            multiple: true
+        });
+        if (!result.success || !result.filePaths) return;
+
+        const imported = await VideoService.importFonts(result.filePaths);
+        if (kit) {
+            const families = imported.map((font) => font.family).filter((family) => !kit.fonts.includes(family));
+            await VideoService.saveBrandKit({ ...kit, fonts: [...kit.fonts, ...new Set(families)] });
+        }
+    });
+
+    const handleAddLogo = () => run(async () => {
+        if (!kit) return;
+        const result = await window.electronAPI.showOpenDialog({
+            filters: [{ name: 'Images', extensions: LOGO_EXTENSIONS }]
+        });
+        if (result.success && result.filePath) {
+            await VideoService.importBrandLogo(kit.id, result.filePath);
+        }
+    });
+
+    return (
+        <Dialog>
+            <DialogTrigger asChild>
+                <Button variant="outline">Brand Kits</Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Brand Kits</DialogTitle>
+                </DialogHeader>
+
+                <div className="flex gap-6">
+                    <div className="w-44 flex-shrink-0 space-y-2">
+                        {kits.map((candidate) => (
+                            <Button
+                                key={candidate.id}
+                                variant={candidate.id === kit?.id ? 'default' : 'ghost'}
+                                className="w-full justify-start truncate"
+                                onClick={() => setSelectedKitId(candidate.id)}
+                            >
+                                {candidate.name}
+                            </Button>
+                        ))}
+                        <Button variant="outline" className="w-full" onClick={handleCreateKit}>
+                            <PlusIcon className="w-4 h-4 mr-2" />
+                            New Kit
+                        </Button>
+
+                        {fonts.length > 0 && (
+                            <div className="pt-4 space-y-1">
+                                <Label className="text-xs text-muted-foreground">Imported Fonts</Label>
+                                {fonts.map((font) => (
+                                    <div key={font.fileName} className="flex items-center justify-between text-sm">
+                                        <span className="truncate" style={{ fontFamily: `"${font.family}"` }}>
+                                            {font.family} {font.weight}
+                                        </span>
+                                        <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            onClick={() => run(() => VideoService.removeImportedFont(font.family, font.weight))}
+                                        >
+                                            <Cross2Icon className="w-3 h-3" />
+                                        </Button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {kit ? (
+                        <div className="flex-1 min-w-0 space-y-6">
+                            <div className="flex items-end gap-2">
+                                <div className="flex-1 space-y-2">
+                                    <Label>Name</Label>
+                                    <Input
+                                        key={kit.id}
+                                        defaultValue={kit.name}
+                                        onBlur={(e) => e.target.value !== kit.name && updateKit({ name: e.target.value })}
+                                    />
+                                </div>
+                                <Button variant="destructive" onClick={() => run(() => VideoService.deleteBrandKit(kit.id))}>
+                                    Delete Kit
+                                </Button>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>Fonts</Label>
+                                <div className="flex flex-wrap gap-2">
+                                    {kit.fonts.map((font) => (
+                                        <span key={font} className="flex items-center gap-1 rounded border px-2 py-1 text-sm" style={{ fontFamily: `"${font}"` }}>
+                                            {font}
+                                            <button onClick={() => updateKit({ fonts: kit.fonts.filter((existing) => existing !== font) })}>
+                                                <Cross2Icon className="w-3 h-3" />
+                                            </button>
+                                        </span>
+                                    ))}
+                                </div>
+                                <div className="flex items-center gap-4">
+                                    <FontFamilyPicker
+                                        attribute="fontFamily"
+                                        currentFont=""
+                                        handleAttributeChange={(_, font) => !kit.fonts.includes(font) && updateKit({ fonts: [...kit.fonts, font] })}
+                                        userId=""
+                                    />
+                                    <Button variant="outline" size="sm" onClick={handleImportFonts}>
+                                        <UploadIcon className="w-4 h-4 mr-2" />
+                                        Import Font Files
+                                    </Button>
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>Colour Palette</Label>
+                                <div className="flex flex-wrap items-center gap-2">
+                                    {kit.colors.map((color) => (
+                                        <button
+                                            key={color}
+                                            title={`Remove ${color}`}
+                                            style={{ background: color }}
+                                            className="rounded-md h-8 w-8 border border-gray-300"
+                                            onClick={() => updateKit({ colors: kit.colors.filter((existing) => existing !== color) })}
+                                        />
+                                    ))}
+                                    <input
+                                        type="color"
+                                        value={newColor}
+                                        onChange={(e) => setNewColor(e.target.value)}
+                                        className="h-8 w-10 cursor-pointer"
+                                    />
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => !kit.colors.includes(newColor.toUpperCase()) && updateKit({ colors: [...kit.colors, newColor.toUpperCase()] })}
+                                    >
+                                        Add Colour
+                                    </Button>
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>Logos</Label>
+                                <div className="flex flex-wrap items-center gap-3">
+                                    {kit.logos.map((logo) => (
+                                        <LogoThumbnail
+                                            key={logo}
+                                            path={logo}
+                                            onRemove={() => updateKit({ logos: kit.logos.filter((existing) => existing !== logo) })}
+                                        />
+                                    ))}
+                                    <Button variant="outline" size="sm" onClick={handleAddLogo}>
+                                        <PlusIcon className="w-4 h-4 mr-2" />
+                                        Add Logo
+                                    </Button>
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>Text Styles</Label>
+                                {kit.textStyles.map((textStyle, index) => (
+                                    <div key={`${kit.id}-${index}`} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+                                        <div className="flex items-center gap-2">
+                                            <Input
+                                                defaultValue={textStyle.name}
+                                                onBlur={(e) => e.target.value !== textStyle.name && updateTextStyle(index, { name: e.target.value })}
+                                            />
+                                            <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                onClick={() => updateKit({ textStyles: kit.textStyles.filter((_, current) => current !== index) })}
+                                            >
+                                                <Cross2Icon className="w-4 h-4" />
+                                            </Button>
+                                        </div>
+                                        <p
+                                            className="truncate rounded bg-gray-800 px-2 py-1"
+                                            style={{
+                                                fontFamily: `"${textStyle.style.fontFamily}"`,
+                                                fontWeight: textStyle.style.fontWeight,
+                                                color: textStyle.style.color,
+                                                letterSpacing: textStyle.style.letterSpacing,
+                                                textShadow: `${textStyle.style.shadowSize}px ${textStyle.style.shadowSize}px 0 ${textStyle.style.shadowColor}`
+                                            }}
+                                        >
+                                            {textStyle.name}
+                                        </p>
+                                        <div className="flex flex-row items-center gap-8">
+                                            <FontFamilyPicker
+                                                attribute="fontFamily"
+                                                currentFont={textStyle.style.fontFamily}
+                                                handleAttributeChange={(_, value) => updateTextStyle(index, { fontFamily: value })}
+                                                userId=""
+                                            />
+                                            <ColorPicker
+                                                attribute="color"
+                                                label="Colour"
+                                                currentColor={textStyle.style.color}
+                                                handleAttributeChange={(_, value) => updateTextStyle(index, { color: value })}
+                                            />
+                                            <ColorPicker
+                                                attribute="shadowColor"
+                                                label="Shadow"
+                                                currentColor={textStyle.style.shadowColor}
+                                                handleAttributeChange={(_, value) => updateTextStyle(index, { shadowColor: value })}
+                                            />
+                                        </div>
+                                        <SliderField
+                                            attribute="fontSize"
+                                            label="Size"
+                                            min={10}
+                                            max={800}
+                                            step={1}
+                                            currentValue={textStyle.style.fontSize}
+                                            hasTopPadding={false}
+                                            handleAttributeChange={(_, value) => updateTextStyle(index, { fontSize: value })}
+                                        />
+                                        <SliderField
+                                            attribute="fontWeight"
+                                            label="Weight"
+                                            min={100}
+                                            max={900}
+                                            step={100}
+                                            currentValue={textStyle.style.fontWeight}
+                                            hasTopPadding={false}
+                                            handleAttributeChange={(_, value) => updateTextStyle(index, { fontWeight: value })}
+                                        />
+                                        <SliderField
+                                            attribute="letterSpacing"
+                                            label="Letter Spacing"
+                                            min={-20}
+                                            max={100}
+                                            step={1}
+                                            currentValue={textStyle.style.letterSpacing}
+                                            hasTopPadding={false}
+                                            handleAttributeChange={(_, value) => updateTextStyle(index, { letterSpacing: value })}
+                                        />
+                                        <SliderField
+                                            attribute="shadowSize"
+                                            label="Shadow Size"
+                                            min={0}
+                                            max={50}
+                                            step={1}
+                                            currentValue={textStyle.style.shadowSize}
+                                            hasTopPadding={false}
+                                            handleAttributeChange={(_, value) => updateTextStyle(index, { shadowSize: value })}
+                                        />
+                                    </div>
+                                ))}
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => updateKit({ textStyles: [...kit.textStyles, createTextStyle(`Style ${kit.textStyles.length + 1}`)] })}
+                                >
+                                    <PlusIcon className="w-4 h-4 mr-2" />
+                                    Add Text Style
+                                </Button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+                            Create a kit to collect your brand's fonts, colours, logos and text styles.
+                        </div>
+                    )}
+                </div>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default BrandKitManager;
@@ -0,0 +1,44 @@
+import { useSyncExternalStore } from 'react';
+import { BrandState } from '@/preload/preload';
+
+let brandState: BrandState = { kits: [], fonts: [] };
+let unsubscribeBrand: (() => void) | null = null;
+const listeners = new Set<() => void>();
+
+const setBrandState = (state: BrandState) => {
+    brandState = state;
+    listeners.forEach((listener) => listener());
+};
+
+// Every picker shares one IPC listener, held while at least one of them is mounted
+const subscribe = (listener: () => void) => {
+    if (!unsubscribeBrand) {
+        unsubscribeBrand = window.electronAPI.onBrandUpdated(setBrandState);
+        window.electronAPI.getBrandState()
+            .then(setBrandState)
+            .catch((error) => console.error('Error loading brand kits:', error));
+    }
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+            unsubscribeBrand?.();
+            unsubscribeBrand = null;
+        }
+    };
+};
+
+/**
+ * Brand kits and imported fonts, kept in sync with the main process.
+ */
+export function useBrandKits(): BrandState {
+    return useSyncExternalStore(subscribe, () => brandState);
+}
+
+// Imported families first, then kit fonts, each listed once
+export function getBrandFonts(state: BrandState): string[] {
+    return Array.from(new Set([
+        ...state.fonts.map((font) => font.family),
+        ...state.kits.flatMap((kit) => kit.fonts)
+    ]));
+}
@@ -7,6 +7,7 @@ import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent } from '@/compon
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { ChromePicker } from 'react-color';
 import { colors } from '@/constants/colors';
+import { useBrandKits } from '@/components/brand/useBrandKits';
 
 interface ColorPickerProps {
   attribute: string;
@@ -21,6 +22,7 @@ const ColorPicker: React.FC<ColorPickerProps> = ({
   currentColor,
   handleAttributeChange,
 }) => {
+  const brandKits = useBrandKits().kits.filter((kit) => kit.colors.length > 0);
 
   return (
     <div className={`flex flex-col gap-2`}>
@@ -43,9 +45,10 @@ const ColorPicker: React.FC<ColorPickerProps> = ({
             sideOffset={10}
           >
             <Tabs defaultValue='colorPicker'>
-              <TabsList className='grid w-full grid-cols-2'>
+              <TabsList className={`grid w-full ${brandKits.length > 0 ? 'grid-cols-3' : 'grid-cols-2'}`}>
                 <TabsTrigger value='colorPicker'>🎨</TabsTrigger>
                 <TabsTrigger value='suggestions'>⚡️</TabsTrigger>
+                {brandKits.length > 0 && <TabsTrigger value='brand'>Brand</TabsTrigger>}
               </TabsList>
               <TabsContent value='colorPicker'>
                 <ChromePicker
@@ -65,6 +68,28 @@ const ColorPicker: React.FC<ColorPickerProps> = ({
                   ))}
                 </div>
               </TabsContent>
+              {brandKits.length > 0 && (
+                <TabsContent value='brand'>
+                  <div className='flex flex-col gap-2 mt-2'>
+                    {brandKits.map((kit) => (
+                      <div key={kit.id}>
+                        <Label className='text-xs text-muted-foreground'>{kit.name}</Label>
+                        <div className='flex flex-wrap gap-1 mt-1'>
+                          {kit.colors.map((color) => (
+                            <div
+                              key={color}
+                              style={{ background: color }}
+                              title={color}
+                              className="rounded-md h-6 w-6 cursor-pointer active:scale-105 border border-gray-300"
+                              onClick={() => handleAttributeChange(attribute, color)}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </TabsContent>
+              )}
             </Tabs> 
           </DropdownMenuContent>
         </DropdownMenu>
@@ -1,6 +1,6 @@
 'use client'
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
@@ -8,6 +8,8 @@ import { Command, CommandInput, CommandList, CommandEmpty, CommandGroup, Command
 import { CaretSortIcon, CheckIcon } from '@radix-ui/react-icons';
 import { cn } from '@/lib/utils';
 import { ALL_FONTS } from '@/constants/fonts';
+import { loadFont } from '@/lib/font-loader';
+import { getBrandFonts, useBrandKits } from '@/components/brand/useBrandKits';
 
 interface FontFamilyPickerProps { 
   attribute: string;
@@ -16,12 +18,56 @@ interface FontFamilyPickerProps {
   userId: string;
 }
 
+const UnavailableNote: React.FC = () => (
+  <span className="ml-2 text-xs text-muted-foreground">Unavailable offline</span>
+);
+
+// Loads the font once its row scrolls into view, so opening the list doesn't fetch the whole catalogue
+const FontPreview: React.FC<{ font: string }> = ({ font }) => {
+  const ref = useRef<HTMLSpanElement>(null);
+  const [available, setAvailable] = useState(true);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        loadFont(font).then(setAvailable);
+        observer.disconnect();
+      }
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [font]);
+
+  return (
+    <span ref={ref}>
+      <span style={{ fontFamily: `"${font}"` }}>{font}</span>
+      {!available && <UnavailableNote />}
+    </span>
+  );
+};
+
 const FontFamilyPicker: React.FC<FontFamilyPickerProps> = ({
   attribute,
   currentFont,
   handleAttributeChange,
   userId
 }) => {
+  const brandFonts = getBrandFonts(useBrandKits());
+  const [currentAvailable, setCurrentAvailable] = useState(true);
+
+  useEffect(() => {
+    setCurrentAvailable(true);
+    if (currentFont) {
+      let active = true;
+      loadFont(currentFont).then((available) => {
+        if (active) setCurrentAvailable(available);
+      });
+      return () => { active = false; };
+    }
+  }, [currentFont]);
+
   return (
     <Popover>
       <div className='flex flex-col items-start justify-start my-8'>
@@ -37,7 +83,10 @@ const FontFamilyPicker: React.FC<FontFamilyPickerProps> = ({
               !currentFont && "text-muted-foreground"
             )}
           >
-            {currentFont ? currentFont : "Select font family"}
+            <span style={currentFont ? { fontFamily: `"${currentFont}"` } : undefined}>
+              {currentFont ? currentFont : "Select font family"}
+            </span>
+            {currentFont && !currentAvailable && <UnavailableNote />}
             <CaretSortIcon className="ml-2 h-4 w-4 shrink-0 opacity-50" />
           </Button>
         </PopoverTrigger>
@@ -50,6 +99,26 @@ const FontFamilyPicker: React.FC<FontFamilyPickerProps> = ({
           />
           <CommandList>
             <CommandEmpty>No font family found.</CommandEmpty>
+            {brandFonts.length > 0 && (
+              <CommandGroup heading="Brand">
+                {brandFonts.map((font) => (
+                  <CommandItem
+                    value={`brand:${font}`}
+                    key={font}
+                    onSelect={() => handleAttributeChange(attribute, font)}
+                    className='hover:cursor-pointer'
+                  >
+                    <FontPreview font={font} />
+                    <CheckIcon
+                      className={cn(
+                        "ml-auto h-4 w-4",
+                        font === currentFont ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
             <CommandGroup heading="All Fonts">
               {ALL_FONTS.map((font) => (
                 <CommandItem
@@ -57,9 +126,8 @@ const FontFamilyPicker: React.FC<FontFamilyPickerProps> = ({
                   key={font}
                   onSelect={() => handleAttributeChange(attribute, font)}
                   className='hover:cursor-pointer'
-                  style={{ fontFamily: font }}
                 >
-                  {font}
+                  <FontPreview font={font} />
                   <CheckIcon
                     className={cn(
                       "ml-auto h-4 w-4",
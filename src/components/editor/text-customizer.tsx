@@ -9,7 +9,7 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion"
-import { Move, Text, Bold, RotateCw, Palette, LightbulbIcon, CaseSensitive, TypeOutline, ArrowLeftRight, ArrowUpDown, AlignHorizontalSpaceAround } from 'lucide-react';
+import { Move, Text, Bold, RotateCw, Palette, LightbulbIcon, SunDim, CaseSensitive, TypeOutline, ArrowLeftRight, ArrowUpDown, AlignHorizontalSpaceAround } from 'lucide-react';
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area"
 import { TextSet } from '@/types';
 
@@ -33,6 +33,7 @@ const TextCustomizer: React.FC<TextCustomizerProps> = ({ textSet, handleAttribut
         { id: 'fontWeight', icon: <Bold size={20} />, label: 'Weight' },
         { id: 'letterSpacing', icon: <AlignHorizontalSpaceAround size={20} />, label: 'Letter spacing' },
         { id: 'opacity', icon: <LightbulbIcon size={20} />, label: 'Opacity' },
+        { id: 'shadow', icon: <SunDim size={20} />, label: 'Shadow' },
         { id: 'rotation', icon: <RotateCw size={20} />, label: 'Rotate' },
         { id: 'tiltX', icon: <ArrowLeftRight size={20} />, label: 'Tilt X (3D effect)' },
         { id: 'tiltY', icon: <ArrowUpDown size={20} />, label: 'Tilt Y (3D effect)' },
@@ -161,6 +162,26 @@ const TextCustomizer: React.FC<TextCustomizerProps> = ({ textSet, handleAttribut
                             />
                         )}
 
+                        {activeControl === 'shadow' && (
+                            <div className="space-y-4">
+                                <ColorPicker
+                                    attribute="shadowColor"
+                                    label="Shadow Color"
+                                    currentColor={textSet.shadowColor}
+                                    handleAttributeChange={(attribute, value) => handleAttributeChange(textSet.id, attribute, value)}
+                                />
+                                <SliderField
+                                    attribute="shadowSize"
+                                    label="Shadow Size"
+                                    min={0}
+                                    max={50}
+                                    step={1}
+                                    currentValue={textSet.shadowSize}
+                                    handleAttributeChange={(attribute, value) => handleAttributeChange(textSet.id, attribute, value)}
+                                />
+                            </div>
+                        )}
+
                         {activeControl === 'rotation' && (
                             <SliderField
                                 attribute="rotation"
@@ -276,6 +297,23 @@ const TextCustomizer: React.FC<TextCustomizerProps> = ({ textSet, handleAttribut
                         currentValue={textSet.opacity}
                         handleAttributeChange={(attribute, value) => handleAttributeChange(textSet.id, attribute, value)}
                     />
+                    <div className="mt-8">
+                        <ColorPicker
+                            attribute="shadowColor"
+                            label="Shadow Color"
+                            currentColor={textSet.shadowColor}
+                            handleAttributeChange={(attribute, value) => handleAttributeChange(textSet.id, attribute, value)}
+                        />
+                    </div>
+                    <SliderField
+                        attribute="shadowSize"
+                        label="Shadow Size"
+                        min={0}
+                        max={50}
+                        step={1}
+                        currentValue={textSet.shadowSize}
+                        handleAttributeChange={(attribute, value) => handleAttributeChange(textSet.id, attribute, value)}
+                    />
                     <SliderField
                         attribute="rotation"
                         label="Rotation"
@@ -3,19 +3,24 @@
 import React from 'react';
 import { Button } from './button';
 import { CheckIcon, FolderIcon } from 'lucide-react';
+import { LoudnessMeasurement } from '@/preload/preload';
 
 interface SuccessModalProps {
   isOpen: boolean;
   onClose: () => void;
   onShowInFinder: () => void;
   fileName?: string;
+  loudness?: LoudnessMeasurement | null;
+  warnings?: string[];
 }
 
 const SuccessModal: React.FC<SuccessModalProps> = ({ 
   isOpen, 
   onClose, 
   onShowInFinder, 
-  fileName 
+  fileName,
+  loudness,
+  warnings = []
 }) => {
   if (!isOpen) return null;
 
@@ -54,10 +59,27 @@ const SuccessModal: React.FC<SuccessModalProps> = ({
         </h2>
 
         {/* Description */}
-        <p className="text-sm text-gray-600 text-center mb-8 break-words">
+        <p className={`text-sm text-gray-600 text-center break-words ${loudness || warnings.length > 0 ? 'mb-3' : 'mb-8'}`}>
           {fileName ? `"${fileName}" has been saved successfully.` : 'Your video has been saved successfully.'}
         </p>
 
+        {/* Loudness normalization result */}
+        {loudness && (
+          <p className={`text-xs text-gray-500 text-center ${warnings.length > 0 ? 'mb-3' : 'mb-8'}`}>
+            Audio normalized from {loudness.integrated.toFixed(1)} LUFS ({loudness.truePeak.toFixed(1)} dBTP peak)
+            to {loudness.targetIntegrated} LUFS
+          </p>
+        )}
+
+        {/* Things the export couldn't do as set */}
+        {warnings.length > 0 && (
+          <div className="mb-8 space-y-1">
+            {warnings.map((warning) => (
+              <p key={warning} className="text-xs text-amber-700 text-center">{warning}</p>
+            ))}
+          </div>
+        )}
+
         {/* Buttons */}
         <div className="flex gap-3">
           <Button 
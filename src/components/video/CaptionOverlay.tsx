@@ -0,0 +1,61 @@
+import React, { useEffect, useRef } from 'react';
+import { SubtitleCue, SubtitleOptions } from '@/preload/preload';
+import { findActiveCue } from '@/lib/subtitles';
+import { loadFont } from '@/lib/font-loader';
+import { useVideoContentRect } from './useVideoContentRect';
+
+interface CaptionOverlayProps {
+    frameWidth: number;
+    frameHeight: number;
+    cues: SubtitleCue[];
+    subtitles: SubtitleOptions;
+    currentTime: number;
+}
+
+// Tags like <i> or <c.yellow> that SRT and VTT allow inside cue text
+const CUE_TAG_PATTERN = /<[^>]+>/g;
+
+/**
+ * Shows the cue at the current time over the video, sized and placed the way
+ * the burn-in filter draws it so the preview matches the export.
+ */
+const CaptionOverlay: React.FC<CaptionOverlayProps> = ({
+    frameWidth,
+    frameHeight,
+    cues,
+    subtitles,
+    currentTime
+}) => {
+    const overlayRef = useRef<HTMLDivElement>(null);
+    const content = useVideoContentRect(overlayRef, frameWidth, frameHeight);
+    const cue = findActiveCue(cues, currentTime);
+
+    useEffect(() => {
+        loadFont(subtitles.fontFamily);
+    }, [subtitles.fontFamily]);
+
+    return (
+        <div ref={overlayRef} className="absolute inset-0 pointer-events-none">
+            {content && cue && (
+                <div
+                    className="absolute flex justify-center text-center whitespace-pre-line"
+                    style={{
+                        left: content.left,
+                        width: content.width,
+                        // Letterboxing is symmetric, so the same inset works from either edge
+                        [subtitles.position]: content.top + content.height * 0.05,
+                        fontFamily: subtitles.fontFamily,
+                        fontSize: content.height * (subtitles.fontSize / 100),
+                        lineHeight: 1.2,
+                        color: subtitles.color,
+                        textShadow: '0 0 2px #000, 0 0 2px #000'
+                    }}
+                >
+                    {cue.text.replace(CUE_TAG_PATTERN, '')}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CaptionOverlay;
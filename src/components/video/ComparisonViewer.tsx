@@ -0,0 +1,410 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { ArrowLeftIcon, PauseIcon, PlayIcon, ReloadIcon, TrackNextIcon, TrackPreviousIcon } from '@radix-ui/react-icons';
+import { ConversionCancelledError, VideoService } from '@/services/videoService';
+import { QualityMetrics, TimeRange } from '@/preload/preload';
+import { formatTimecode } from './VideoTimeline';
+
+interface ComparisonViewerProps {
+    // Video the conversion read from
+    originalPath: string;
+    originalUrl: string;
+    convertedPath: string;
+    // Segments and framing the conversion used
+    segments: TimeRange[];
+    isReframed: boolean;
+    onClose: () => void;
+}
+
+type ComparisonMode = 'split' | 'side-by-side';
+
+const ZOOM_LEVELS: { value: number | null; label: string }[] = [
+    { value: null, label: 'Fit' },
+    { value: 1, label: '100%' },
+    { value: 2, label: '200%' }
+];
+// Seeking the follower on every frame stutters, so playback may drift this far
+const PLAYBACK_SYNC_TOLERANCE = 0.1;
+
+/**
+ * Maps a time in the converted file back to the source, through the
+ * segments the conversion kept.
+ */
+const toSourceTime = (time: number, segments: TimeRange[]) => {
+    let offset = 0;
+    for (const segment of segments) {
+        const length = segment.end - segment.start;
+        if (time < offset + length) {
+            return segment.start + time - offset;
+        }
+        offset += length;
+    }
+    return segments.length > 0 ? segments[segments.length - 1].end : time;
+};
+
+const formatPsnr = (psnr: number) => isFinite(psnr) ? `${psnr.toFixed(2)} dB` : 'Identical';
+
+/**
+ * Plays the original and the converted file in sync, either overlaid with a
+ * draggable split or next to each other, with frame stepping and zoom.
+ * PSNR, SSIM and VMAF are measured in the main process on request.
+ */
+const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ originalPath, originalUrl, convertedPath, segments, isReframed, onClose }) => {
+    const originalRef = useRef<HTMLVideoElement>(null);
+    const convertedRef = useRef<HTMLVideoElement>(null);
+    const originalPaneRef = useRef<HTMLDivElement>(null);
+    const convertedPaneRef = useRef<HTMLDivElement>(null);
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const comparisonIdRef = useRef<string | null>(null);
+
+    const [convertedUrl, setConvertedUrl] = useState<string | null>(null);
+    const [mode, setMode] = useState<ComparisonMode>(isReframed ? 'side-by-side' : 'split');
+    const [split, setSplit] = useState(50);
+    const [isDraggingSplit, setIsDraggingSplit] = useState(false);
+    const [zoom, setZoom] = useState<number | null>(null);
+    const [frameSize, setFrameSize] = useState({ width: 0, height: 0 });
+    const [duration, setDuration] = useState(0);
+    const [fps, setFps] = useState(30);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [metrics, setMetrics] = useState<QualityMetrics | null>(null);
+    const [metricsProgress, setMetricsProgress] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const keptSegments = useMemo(() => [...segments]
+        .filter((segment) => segment.end > segment.start)
+        .sort((a, b) => a.start - b.start), [segments]);
+
+    useEffect(() => {
+        window.electronAPI.getFileUrl(convertedPath).then((result) => {
+            if (result.success && result.url) {
+                setConvertedUrl(result.url);
+            } else {
+                setError(result.error || 'Failed to load the converted file');
+            }
+        });
+        VideoService.getVideoMetadata(convertedPath)
+            .then((metadata) => setFps(metadata.fps || 30))
+            .catch(() => {
+                // Frame stepping falls back to 30 fps
+            });
+    }, [convertedPath]);
+
+    // Stop a running measurement when the viewer closes
+    useEffect(() => () => {
+        if (comparisonIdRef.current) {
+            VideoService.cancelConversion(comparisonIdRef.current).catch(() => {});
+        }
+    }, []);
+
+    // The converted file leads, the original follows it on the source timeline
+    const syncOriginal = useCallback((tolerance: number) => {
+        const original = originalRef.current;
+        const converted = convertedRef.current;
+        if (!original || !converted) return;
+        const target = toSourceTime(converted.currentTime, keptSegments);
+        if (Math.abs(original.currentTime - target) > tolerance) {
+            original.currentTime = target;
+        }
+    }, [keptSegments]);
+
+    useEffect(() => {
+        if (!isPlaying) return;
+        let frame = requestAnimationFrame(function tick() {
+            syncOriginal(PLAYBACK_SYNC_TOLERANCE);
+            frame = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [isPlaying, syncOriginal]);
+
+    const seek = (time: number) => {
+        const converted = convertedRef.current;
+        if (!converted) return;
+        converted.currentTime = Math.min(Math.max(0, time), duration);
+        setCurrentTime(converted.currentTime);
+        syncOriginal(0);
+    };
+
+    const togglePlayback = () => {
+        const converted = convertedRef.current;
+        if (!converted) return;
+        if (converted.paused) {
+            converted.play();
+        } else {
+            converted.pause();
+        }
+    };
+
+    const stepFrame = (direction: 1 | -1) => {
+        convertedRef.current?.pause();
+        seek(currentTime + direction / fps);
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.target instanceof HTMLInputElement) return;
+            if (event.key === 'ArrowRight' || event.key === 'ArrowLeft') {
+                event.preventDefault();
+                stepFrame(event.key === 'ArrowRight' ? 1 : -1);
+            } else if (event.key === ' ') {
+                event.preventDefault();
+                togglePlayback();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    // Zoomed panes scroll together, so both always show the same region
+    const handlePaneScroll = (event: React.UIEvent<HTMLDivElement>) => {
+        const source = event.currentTarget;
+        const other = source === originalPaneRef.current ? convertedPaneRef.current : originalPaneRef.current;
+        if (other && (other.scrollLeft !== source.scrollLeft || other.scrollTop !== source.scrollTop)) {
+            other.scrollLeft = source.scrollLeft;
+            other.scrollTop = source.scrollTop;
+        }
+    };
+
+    const updateSplit = (clientX: number) => {
+        const rect = viewportRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0) return;
+        setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+    };
+
+    const handleMeasure = async () => {
+        const comparisonId = VideoService.createConversionId('comparison');
+        comparisonIdRef.current = comparisonId;
+        setMetrics(null);
+        setError(null);
+        setMetricsProgress(0);
+        try {
+            const result = await VideoService.compareQuality(
+                originalPath,
+                convertedPath,
+                keptSegments,
+                (progress) => setMetricsProgress(progress.progress),
+                comparisonId
+            );
+            setMetrics(result);
+        } catch (measureError) {
+            if (!(measureError instanceof ConversionCancelledError)) {
+                setError(measureError instanceof Error ? measureError.message : 'Failed to measure quality');
+            }
+        } finally {
+            comparisonIdRef.current = null;
+            setMetricsProgress(null);
+        }
+    };
+
+    const handleCancelMeasure = () => {
+        if (comparisonIdRef.current) {
+            VideoService.cancelConversion(comparisonIdRef.current).catch(() => {});
+        }
+    };
+
+    const zoomedSize = zoom && frameSize.width > 0
+        ? { width: frameSize.width * zoom, height: frameSize.height * zoom }
+        : null;
+
+    const renderPane = (
+        paneRef: React.RefObject<HTMLDivElement | null>,
+        label: string,
+        labelSide: 'left' | 'right',
+        video: React.ReactNode,
+        style?: React.CSSProperties
+    ) => (
+        <div
+            ref={paneRef}
+            className={`overflow-auto bg-black ${mode === 'split' ? 'absolute inset-0' : 'relative flex-1 min-w-0'}`}
+            style={style}
+            onScroll={handlePaneScroll}
+        >
+            <div
+                className={zoomedSize ? 'relative' : 'relative w-full h-full'}
+                style={zoomedSize ? { width: zoomedSize.width, height: zoomedSize.height } : undefined}
+            >
+                {video}
+            </div>
+            <span className={`absolute top-2 ${labelSide === 'left' ? 'left-2' : 'right-2'} rounded bg-black/60 px-2 py-0.5 text-xs text-white pointer-events-none`}>
+                {label}
+            </span>
+        </div>
+    );
+
+    return (
+        <div className="flex flex-col h-[calc(100vh-100px)] overflow-y-auto px-8 py-6 gap-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                    <Button variant="outline" size="sm" onClick={onClose}>
+                        <ArrowLeftIcon className="w-4 h-4 mr-2" />
+                        Back
+                    </Button>
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                        Compare Quality
+                    </h3>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Button
+                        size="sm"
+                        variant={mode === 'split' ? 'default' : 'outline'}
+                        disabled={isReframed}
+                        title={isReframed ? 'The output is reframed, so it no longer lines up with the original' : undefined}
+                        onClick={() => setMode('split')}
+                    >
+                        Split
+                    </Button>
+                    <Button size="sm" variant={mode === 'side-by-side' ? 'default' : 'outline'} onClick={() => setMode('side-by-side')}>
+                        Side by Side
+                    </Button>
+                    {ZOOM_LEVELS.map((level) => (
+                        <Button
+                            key={level.label}
+                            size="sm"
+                            variant={zoom === level.value ? 'default' : 'outline'}
+                            onClick={() => setZoom(level.value)}
+                        >
+                            {level.label}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+
+            <div
+                ref={viewportRef}
+                className={`relative h-[60vh] rounded-lg overflow-hidden bg-black ${mode === 'split' ? '' : 'flex gap-2'}`}
+                onPointerMove={(event) => isDraggingSplit && updateSplit(event.clientX)}
+                onPointerUp={() => setIsDraggingSplit(false)}
+                onPointerLeave={() => setIsDraggingSplit(false)}
+            >
+                {renderPane(
+                    convertedPaneRef,
+                    'Converted',
+                    mode === 'split' ? 'right' : 'left',
+                    convertedUrl && (
+                        <video
+                            ref={convertedRef}
+                            src={convertedUrl}
+                            className="absolute inset-0 w-full h-full object-contain"
+                            onLoadedMetadata={(event) => setDuration(event.currentTarget.duration)}
+                            onTimeUpdate={(event) => setCurrentTime(event.currentTarget.currentTime)}
+                            onSeeked={() => syncOriginal(0)}
+                            onPlay={() => {
+                                setIsPlaying(true);
+                                originalRef.current?.play();
+                            }}
+                            onPause={() => {
+                                setIsPlaying(false);
+                                originalRef.current?.pause();
+                                syncOriginal(0);
+                            }}
+                        />
+                    ),
+                    mode === 'split' ? undefined : { order: 2 }
+                )}
+                {renderPane(
+                    originalPaneRef,
+                    'Original',
+                    'left',
+                    <video
+                        ref={originalRef}
+                        src={originalUrl}
+                        muted
+                        className="absolute inset-0 w-full h-full object-contain"
+                        onLoadedMetadata={(event) => {
+                            setFrameSize({ width: event.currentTarget.videoWidth, height: event.currentTarget.videoHeight });
+                            syncOriginal(0);
+                        }}
+                    />,
+                    mode === 'split' ? { clipPath: `inset(0 ${100 - split}% 0 0)` } : { order: 1 }
+                )}
+                {mode === 'split' && (
+                    <div
+                        className="absolute inset-y-0 w-4 -ml-2 cursor-ew-resize flex justify-center"
+                        style={{ left: `${split}%` }}
+                        onPointerDown={(event) => {
+                            event.preventDefault();
+                            setIsDraggingSplit(true);
+                        }}
+                    >
+                        <div className="w-0.5 h-full bg-white shadow" />
+                    </div>
+                )}
+            </div>
+
+            <div className="flex items-center gap-3">
+                <Button size="sm" variant="outline" title="Previous Frame (←)" onClick={() => stepFrame(-1)}>
+                    <TrackPreviousIcon className="w-4 h-4" />
+                </Button>
+                <Button size="sm" variant="outline" title="Play/Pause (Space)" onClick={togglePlayback}>
+                    {isPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+                </Button>
+                <Button size="sm" variant="outline" title="Next Frame (→)" onClick={() => stepFrame(1)}>
+                    <TrackNextIcon className="w-4 h-4" />
+                </Button>
+                <Slider
+                    value={[currentTime]}
+                    onValueChange={([value]) => seek(value)}
+                    min={0}
+                    max={duration || 1}
+                    step={1 / fps}
+                    className="flex-1"
+                />
+                <span className="font-mono text-sm text-muted-foreground">
+                    {formatTimecode(currentTime)} / {formatTimecode(duration)}
+                </span>
+            </div>
+
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                    <Label className="text-sm">Objective Quality</Label>
+                    {metricsProgress === null ? (
+                        <Button size="sm" variant="outline" disabled={isReframed} onClick={handleMeasure}>
+                            {metrics ? 'Measure Again' : 'Measure'}
+                        </Button>
+                    ) : (
+                        <Button size="sm" variant="outline" onClick={handleCancelMeasure}>
+                            Cancel
+                        </Button>
+                    )}
+                </div>
+                {isReframed && (
+                    <p className="text-sm text-muted-foreground">
+                        The output is reframed, so its frames can't be scored against the original.
+                    </p>
+                )}
+                {metricsProgress !== null && (
+                    <div className="flex items-center gap-3">
+                        <ReloadIcon className="w-4 h-4 animate-spin" />
+                        <Progress value={metricsProgress} className="flex-1" />
+                        <span className="text-sm text-muted-foreground">{Math.round(metricsProgress)}%</span>
+                    </div>
+                )}
+                {metrics && (
+                    <div className="grid grid-cols-3 gap-4 text-sm">
+                        <div>
+                            <p className="text-muted-foreground">PSNR</p>
+                            <p className="font-mono text-lg">{metrics.psnr !== null ? formatPsnr(metrics.psnr) : '–'}</p>
+                        </div>
+                        <div>
+                            <p className="text-muted-foreground">SSIM</p>
+                            <p className="font-mono text-lg">{metrics.ssim !== null ? metrics.ssim.toFixed(4) : '–'}</p>
+                        </div>
+                        <div>
+                            <p className="text-muted-foreground">VMAF</p>
+                            <p className="font-mono text-lg">{metrics.vmaf !== null ? metrics.vmaf.toFixed(1) : '–'}</p>
+                            {metrics.vmaf === null && (
+                                <p className="text-xs text-muted-foreground">Not available in the bundled ffmpeg</p>
+                            )}
+                        </div>
+                    </div>
+                )}
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default ComparisonViewer;
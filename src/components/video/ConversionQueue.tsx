@@ -0,0 +1,182 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Cross2Icon, StopIcon, TrashIcon, PlusIcon } from '@radix-ui/react-icons';
+import { ConversionJob, ConversionJobStatus, VideoSettingsConfig } from '@/preload/preload';
+import { QueueService } from '@/services/queueService';
+import { generateOutputFileName, getFileName } from '@/lib/video-utils';
+import VideoSettings, { DEFAULT_VIDEO_SETTINGS } from './VideoSettings';
+
+interface ConversionQueueProps {
+    pendingInputPaths: string[];
+    onPendingInputPathsChange: (paths: string[]) => void;
+}
+
+const statusStyles: Record<ConversionJobStatus, string> = {
+    queued: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+    running: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200',
+    done: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200',
+    failed: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200',
+    cancelled: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-200'
+};
+
+const ConversionQueue: React.FC<ConversionQueueProps> = ({
+    pendingInputPaths,
+    onPendingInputPathsChange
+}) => {
+    const [jobs, setJobs] = useState<ConversionJob[]>([]);
+    const [concurrency, setConcurrency] = useState<number>(2);
+    const [settings, setSettings] = useState<VideoSettingsConfig>(DEFAULT_VIDEO_SETTINGS);
+    const [error, setError] = useState<string>('');
+
+    useEffect(() => {
+        QueueService.getJobs().then((state) => {
+            setJobs(state.jobs);
+            setConcurrency(state.concurrency);
+        });
+
+        const unsubscribeQueue = window.electronAPI.onQueueUpdated((updatedJobs) => setJobs(updatedJobs));
+        const unsubscribeJob = window.electronAPI.onQueueJobUpdated((updatedJob) => {
+            setJobs((current) => current.map((job) => job.id === updatedJob.id ? updatedJob : job));
+        });
+
+        return () => {
+            unsubscribeQueue();
+            unsubscribeJob();
+        };
+    }, []);
+
+    const handleAddPending = useCallback(async () => {
+        setError('');
+        try {
+            const directory = await window.electronAPI.showDirectoryDialog();
+            if (!directory.success || !directory.directoryPath) {
+                return;
+            }
+
+            await QueueService.addJobs(
+                pendingInputPaths.map((inputPath) => ({
+                    inputPath,
+                    outputPath: `${directory.directoryPath}/${generateOutputFileName(settings, getFileName(inputPath))}`
+                })),
+                settings
+            );
+            onPendingInputPathsChange([]);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to add videos to the queue');
+        }
+    }, [pendingInputPaths, settings, onPendingInputPathsChange]);
+
+    const handleConcurrencyChange = useCallback(async (value: number) => {
+        setConcurrency(await QueueService.setConcurrency(value));
+    }, []);
+
+    if (jobs.length === 0 && pendingInputPaths.length === 0) {
+        return null;
+    }
+
+    const finishedCount = jobs.filter((job) => job.status === 'done').length;
+
+    return (
+        <div className="w-full max-w-[1000px] mx-auto flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                        Batch Queue
+                    </h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {finishedCount} of {jobs.length} videos converted
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-500 dark:text-gray-400">Parallel jobs</span>
+                    {[1, 2, 3, 4].map((value) => (
+                        <Button
+                            key={value}
+                            size="sm"
+                            variant={concurrency === value ? 'default' : 'outline'}
+                            onClick={() => handleConcurrencyChange(value)}
+                        >
+                            {value}
+                        </Button>
+                    ))}
+                    <Button size="sm" variant="ghost" onClick={() => QueueService.clearFinished()}>
+                        <TrashIcon className="w-4 h-4 mr-2" />
+                        Clear Finished
+                    </Button>
+                </div>
+            </div>
+
+            {pendingInputPaths.length > 0 && (
+                <div className="flex items-center justify-between bg-blue-50 dark:bg-blue-950 rounded-lg p-4 mb-4">
+                    <p className="text-sm text-gray-900 dark:text-white">
+                        {pendingInputPaths.length} videos ready to queue
+                    </p>
+                    <div className="flex items-center gap-2">
+                        <VideoSettings config={settings} onConfigChange={setSettings} />
+                        <Button variant="outline" size="sm" onClick={() => onPendingInputPathsChange([])}>
+                            Discard
+                        </Button>
+                        <Button
+                            size="sm"
+                            onClick={handleAddPending}
+                            style={{
+                                background: 'linear-gradient(135deg, #153592 0%, #26c9d5 100%)',
+                                backgroundSize: '200% 200%'
+                            }}
+                        >
+                            <PlusIcon className="w-4 h-4 mr-2" />
+                            Choose Folder & Add
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {error && (
+                <p className="text-sm text-red-600 mb-2">{error}</p>
+            )}
+
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+                {jobs.map((job) => (
+                    <div key={job.id} className="flex items-center gap-4 p-3">
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                                {getFileName(job.inputPath)}
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                {job.status === 'failed' && job.error ? job.error : job.outputPath}
+                            </p>
+                            {job.status === 'done' && job.loudness && (
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    {job.loudness.integrated.toFixed(1)} LUFS → {job.loudness.targetIntegrated} LUFS
+                                </p>
+                            )}
+                            {job.status === 'done' && job.warnings?.map((warning) => (
+                                <p key={warning} className="text-xs text-amber-600 dark:text-amber-400">
+                                    {warning}
+                                </p>
+                            ))}
+                            {job.status === 'running' && (
+                                <Progress value={job.progress} className="w-full mt-2" />
+                            )}
+                        </div>
+                        <span className={`text-xs px-2 py-1 rounded capitalize ${statusStyles[job.status]}`}>
+                            {job.status === 'running' ? `${Math.round(job.progress)}%` : job.status}
+                        </span>
+                        {job.status === 'queued' || job.status === 'running' ? (
+                            <Button size="sm" variant="ghost" onClick={() => QueueService.cancelJob(job.id)}>
+                                <StopIcon className="w-4 h-4" />
+                            </Button>
+                        ) : (
+                            <Button size="sm" variant="ghost" onClick={() => QueueService.removeJob(job.id)}>
+                                <Cross2Icon className="w-4 h-4" />
+                            </Button>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ConversionQueue;
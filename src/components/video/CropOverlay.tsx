@@ -0,0 +1,84 @@
+import React, { useRef } from 'react';
+import { useVideoContentRect } from './useVideoContentRect';
+
+interface CropOverlayProps {
+    // Intrinsic size of the video shown underneath
+    frameWidth: number;
+    frameHeight: number;
+    // Target width / height of the crop
+    aspectRatio: number;
+    cropX: number;
+    cropY: number;
+    onCropChange: (cropX: number, cropY: number) => void;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Draggable crop box laid over an object-contain video. The position is
+ * reported the same way the encoder reads it: 0 to 1 across the free space
+ * on each axis, so 0.5 is centred.
+ */
+const CropOverlay: React.FC<CropOverlayProps> = ({
+    frameWidth,
+    frameHeight,
+    aspectRatio,
+    cropX,
+    cropY,
+    onCropChange
+}) => {
+    const overlayRef = useRef<HTMLDivElement>(null);
+    const dragStartRef = useRef<{ clientX: number; clientY: number; cropX: number; cropY: number } | null>(null);
+    const content = useVideoContentRect(overlayRef, frameWidth, frameHeight);
+
+    if (!content) {
+        return <div ref={overlayRef} className="absolute inset-0 pointer-events-none" />;
+    }
+
+    const frameRatio = frameWidth / frameHeight;
+    const boxWidth = content.width * Math.min(1, aspectRatio / frameRatio);
+    const boxHeight = content.height * Math.min(1, frameRatio / aspectRatio);
+    const freeWidth = content.width - boxWidth;
+    const freeHeight = content.height - boxHeight;
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragStartRef.current = { clientX: e.clientX, clientY: e.clientY, cropX, cropY };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const start = dragStartRef.current;
+        if (!start) return;
+
+        onCropChange(
+            freeWidth > 0 ? clamp(start.cropX + (e.clientX - start.clientX) / freeWidth) : cropX,
+            freeHeight > 0 ? clamp(start.cropY + (e.clientY - start.clientY) / freeHeight) : cropY
+        );
+    };
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        dragStartRef.current = null;
+    };
+
+    return (
+        <div ref={overlayRef} className="absolute inset-0 overflow-hidden pointer-events-none">
+            <div
+                className="absolute border-2 border-white cursor-move pointer-events-auto"
+                style={{
+                    left: content.left + freeWidth * cropX,
+                    top: content.top + freeHeight * cropY,
+                    width: boxWidth,
+                    height: boxHeight,
+                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)'
+                }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+            />
+        </div>
+    );
+};
+
+export default CropOverlay;
@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { CameraIcon, ReloadIcon } from '@radix-ui/react-icons';
+import { VideoService } from '@/services/videoService';
+import { FramePreview, VideoMetadata } from '@/preload/preload';
+import { formatTimecode } from './VideoTimeline';
+
+interface FramePickerProps {
+    filePath: string;
+    metadata: VideoMetadata;
+    onUseAsThumbnail?: (url: string) => void;
+}
+
+const FILMSTRIP_FRAMES = 10;
+const SUGGESTED_FRAMES = 5;
+const STRIP_WIDTH = 160;
+const PREVIEW_WIDTH = 640;
+// Wait for the slider to settle before asking ffmpeg for a new preview
+const SCRUB_DEBOUNCE_MS = 150;
+
+const toFileUrl = async (filePath: string) => {
+    const result = await window.electronAPI.getFileUrl(filePath);
+    return result.success && result.url ? result.url : '';
+};
+
+// Re-encodes through a canvas so the same frame can be saved as PNG or JPEG
+const toDataUrl = (url: string, format: 'png' | 'jpeg') => new Promise<string>((resolve, reject) => {
+    const image = new Image();
+    // Without CORS the canvas is tainted and toDataURL() throws
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        canvas.getContext('2d')!.drawImage(image, 0, 0);
+        resolve(canvas.toDataURL(`image/${format}`, 0.92));
+    };
+    image.onerror = () => reject(new Error('Failed to load the extracted frame'));
+    image.src = url;
+});
+
+/**
+ * Dialog for choosing a thumbnail frame: scrub to any time, jump through a
+ * filmstrip or pick one of ffmpeg's suggestions, then save it full size.
+ */
+const FramePicker: React.FC<FramePickerProps> = ({ filePath, metadata, onUseAsThumbnail }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [time, setTime] = useState(0);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [filmstrip, setFilmstrip] = useState<Array<FramePreview & { url: string }>>([]);
+    const [suggestions, setSuggestions] = useState<Array<FramePreview & { url: string }>>([]);
+    const [isLoadingStrip, setIsLoadingStrip] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Stay a frame short of the end, where seeking finds nothing
+    const lastFrameTime = Math.max(0, metadata.duration - 1 / (metadata.fps || 30));
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+
+        const loadFrames = async () => {
+            setIsLoadingStrip(true);
+            setError(null);
+            try {
+                const tempDir = await window.electronAPI.getTempDir();
+                const withUrls = async (frames: FramePreview[]) =>
+                    Promise.all(frames.map(async (frame) => ({ ...frame, url: await toFileUrl(frame.path) })));
+
+                const strip = await withUrls(await VideoService.extractFilmstrip(filePath, tempDir, FILMSTRIP_FRAMES, STRIP_WIDTH));
+                if (cancelled) return;
+                setFilmstrip(strip);
+
+                const suggested = await withUrls(await VideoService.suggestFrames(filePath, tempDir, SUGGESTED_FRAMES, STRIP_WIDTH));
+                if (cancelled) return;
+                setSuggestions(suggested);
+            } catch (loadError) {
+                if (!cancelled) {
+                    setError(loadError instanceof Error ? loadError.message : 'Failed to load frames');
+                }
+            } finally {
+                if (!cancelled) {
+                    setIsLoadingStrip(false);
+                }
+            }
+        };
+
+        loadFrames();
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, filePath]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+
+        const timer = setTimeout(async () => {
+            try {
+                const tempDir = await window.electronAPI.getTempDir();
+                const framePath = await VideoService.extractFrame(filePath, tempDir, time, PREVIEW_WIDTH);
+                const url = await toFileUrl(framePath);
+                if (!cancelled) {
+                    setPreviewUrl(url);
+                }
+            } catch (previewError) {
+                if (!cancelled) {
+                    setError(previewError instanceof Error ? previewError.message : 'Failed to extract frame');
+                }
+            }
+        }, SCRUB_DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [isOpen, filePath, time]);
+
+    const handleSave = async (format: 'png' | 'jpeg') => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            const tempDir = await window.electronAPI.getTempDir();
+            const framePath = await VideoService.extractFrame(filePath, tempDir, time, null);
+            const extension = format === 'png' ? 'png' : 'jpg';
+            const baseName = filePath.split(/[\\/]/).pop()?.replace(/\.[^/.]+$/, '') || 'frame';
+            const result = await window.electronAPI.showSaveDialog(
+                `${baseName}_${time.toFixed(2)}s.${extension}`,
+                [{ name: format === 'png' ? 'PNG Images' : 'JPEG Images', extensions: [extension] }]
+            );
+            if (result.canceled || !result.filePath) return;
+
+            const saved = await window.electronAPI.saveImage(result.filePath, await toDataUrl(await toFileUrl(framePath), format));
+            if (!saved.success) {
+                throw new Error(saved.error || 'Failed to save image');
+            }
+        } catch (saveError) {
+            setError(saveError instanceof Error ? saveError.message : 'Failed to save frame');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const renderStrip = (frames: Array<FramePreview & { url: string }>) => (
+        <div className="flex gap-1 overflow-x-auto pb-1">
+            {frames.map((frame) => (
+                <button
+                    key={frame.path}
+                    className={`flex-shrink-0 rounded overflow-hidden border-2 ${
+                        Math.abs(frame.time - time) < 0.05 ? 'border-blue-500' : 'border-transparent'
+                    }`}
+                    title={formatTimecode(frame.time)}
+                    onClick={() => setTime(Math.min(frame.time, lastFrameTime))}
+                >
+                    <img src={frame.url} alt={`Frame at ${formatTimecode(frame.time)}`} className="h-14 w-auto" />
+                </button>
+            ))}
+        </div>
+    );
+
+    return (
+        <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="flex items-center gap-2">
+                    <CameraIcon className="w-4 h-4" />
+                    Pick Frame
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Pick a Frame</DialogTitle>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="aspect-video bg-black rounded-lg flex items-center justify-center overflow-hidden">
+                        {previewUrl ? (
+                            <img src={previewUrl} alt="Selected frame" className="max-w-full max-h-full object-contain" />
+                        ) : (
+                            <ReloadIcon className="w-8 h-8 animate-spin text-gray-400" />
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex justify-between text-sm">
+                            <Label className="text-sm">Time</Label>
+                            <span className="font-mono text-muted-foreground">{formatTimecode(time)}</span>
+                        </div>
+                        <Slider
+                            value={[time]}
+                            onValueChange={([value]) => setTime(value)}
+                            min={0}
+                            max={lastFrameTime}
+                            step={1 / (metadata.fps || 30)}
+                            className="w-full"
+                        />
+                    </div>
+
+                    <div className="space-y-1">
+                        <Label className="text-sm">Filmstrip</Label>
+                        {filmstrip.length > 0 ? renderStrip(filmstrip) : isLoadingStrip && (
+                            <p className="text-xs text-muted-foreground">Extracting frames…</p>
+                        )}
+                    </div>
+
+                    <div className="space-y-1">
+                        <Label className="text-sm">Suggested Frames</Label>
+                        {suggestions.length > 0 ? renderStrip(suggestions) : isLoadingStrip && (
+                            <p className="text-xs text-muted-foreground">Looking for representative frames…</p>
+                        )}
+                    </div>
+
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+
+                    <div className="flex justify-end gap-2">
+                        {onUseAsThumbnail && (
+                            <Button
+                                variant="outline"
+                                disabled={!previewUrl}
+                                onClick={() => previewUrl && onUseAsThumbnail(previewUrl)}
+                            >
+                                Use as Thumbnail
+                            </Button>
+                        )}
+                        <Button variant="outline" disabled={isSaving} onClick={() => handleSave('jpeg')}>
+                            Save JPEG
+                        </Button>
+                        <Button disabled={isSaving} onClick={() => handleSave('png')}>
+                            Save PNG
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default FramePicker;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+    ArrowDownIcon,
+    ArrowUpIcon,
+    BoxIcon,
+    CircleIcon,
+    EyeClosedIcon,
+    EyeOpenIcon,
+    ImageIcon,
+    LockClosedIcon,
+    LockOpen1Icon,
+    TextIcon,
+    TrashIcon
+} from '@radix-ui/react-icons';
+import { getFileName } from '@/lib/video-utils';
+import { ThumbnailLayer } from '@/types';
+
+interface LayerPanelProps {
+    // Bottom to top, as stored in the project
+    layers: ThumbnailLayer[];
+    selectedId: number | null;
+    onSelect: (id: number) => void;
+    onChange: (id: number, attribute: string, value: any) => void;
+    // Moves a layer one step up (+1) or down (-1) the stack
+    onMove: (id: number, direction: 1 | -1) => void;
+    onRemove: (id: number) => void;
+}
+
+const getLayerIcon = (layer: ThumbnailLayer) => {
+    switch (layer.kind) {
+        case 'text':
+            return <TextIcon className="w-4 h-4 flex-shrink-0" />;
+        case 'image':
+            return <ImageIcon className="w-4 h-4 flex-shrink-0" />;
+        case 'shape':
+            return layer.shape === 'ellipse'
+                ? <CircleIcon className="w-4 h-4 flex-shrink-0" />
+                : <BoxIcon className="w-4 h-4 flex-shrink-0" />;
+    }
+};
+
+const getLayerName = (layer: ThumbnailLayer) => {
+    switch (layer.kind) {
+        case 'text':
+            return layer.text.split('\n')[0] || 'Text';
+        case 'image':
+            return getFileName(layer.path);
+        case 'shape':
+            if (layer.shape === 'ellipse') return 'Ellipse';
+            return layer.fill === null ? 'Outlined Box' : 'Rectangle';
+    }
+};
+
+/**
+ * Layer stack of the thumbnail designer, listed top first like an image
+ * editor. Locked layers can still be shown or hidden, but not moved or
+ * removed.
+ */
+const LayerPanel: React.FC<LayerPanelProps> = ({ layers, selectedId, onSelect, onChange, onMove, onRemove }) => (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+        {layers.length === 0 && (
+            <p className="p-3 text-sm text-muted-foreground">No layers yet</p>
+        )}
+        {layers.map((layer, index) => (
+            <div
+                key={layer.id}
+                className={`flex items-center gap-1 px-2 py-1 cursor-pointer ${
+                    layer.id === selectedId ? 'bg-secondary' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                }`}
+                onClick={() => onSelect(layer.id)}
+            >
+                {getLayerIcon(layer)}
+                <span className={`flex-1 min-w-0 truncate text-sm ml-1 ${layer.hidden ? 'text-muted-foreground line-through' : ''}`}>
+                    {getLayerName(layer)}
+                </span>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    title={layer.hidden ? 'Show' : 'Hide'}
+                    onClick={(event) => { event.stopPropagation(); onChange(layer.id, 'hidden', !layer.hidden); }}
+                >
+                    {layer.hidden ? <EyeClosedIcon className="w-4 h-4" /> : <EyeOpenIcon className="w-4 h-4" />}
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    title={layer.locked ? 'Unlock' : 'Lock'}
+                    onClick={(event) => { event.stopPropagation(); onChange(layer.id, 'locked', !layer.locked); }}
+                >
+                    {layer.locked ? <LockClosedIcon className="w-4 h-4" /> : <LockOpen1Icon className="w-4 h-4" />}
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Bring Forward"
+                    disabled={layer.locked || index === layers.length - 1}
+                    onClick={(event) => { event.stopPropagation(); onMove(layer.id, 1); }}
+                >
+                    <ArrowUpIcon className="w-4 h-4" />
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Send Backward"
+                    disabled={layer.locked || index === 0}
+                    onClick={(event) => { event.stopPropagation(); onMove(layer.id, -1); }}
+                >
+                    <ArrowDownIcon className="w-4 h-4" />
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Remove"
+                    disabled={layer.locked}
+                    onClick={(event) => { event.stopPropagation(); onRemove(layer.id); }}
+                >
+                    <TrashIcon className="w-4 h-4" />
+                </Button>
+            </div>
+        )).reverse()}
+    </div>
+);
+
+export default LayerPanel;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuRadioGroup, DropdownMenuRadioItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { ChevronDownIcon } from '@radix-ui/react-icons';
+import SliderField from '@/components/editor/slider-field';
+import ColorPicker from '@/components/editor/color-picker';
+import { BlendMode, ImageLayer, ShapeLayer, ThumbnailLayer } from '@/types';
+
+interface LayerPropertiesProps {
+    layer: ThumbnailLayer;
+    onChange: (attribute: string, value: any) => void;
+}
+
+const BLEND_MODES: { value: BlendMode; label: string }[] = [
+    { value: 'normal', label: 'Normal' },
+    { value: 'multiply', label: 'Multiply' },
+    { value: 'screen', label: 'Screen' },
+    { value: 'overlay', label: 'Overlay' },
+    { value: 'darken', label: 'Darken' },
+    { value: 'lighten', label: 'Lighten' },
+    { value: 'color-dodge', label: 'Color Dodge' },
+    { value: 'color-burn', label: 'Color Burn' },
+    { value: 'hard-light', label: 'Hard Light' },
+    { value: 'soft-light', label: 'Soft Light' },
+    { value: 'difference', label: 'Difference' },
+    { value: 'exclusion', label: 'Exclusion' }
+];
+
+const TransformFields: React.FC<LayerPropertiesProps> = ({ layer, onChange }) => (
+    <>
+        <SliderField attribute="left" label="X Position" min={-200} max={200} step={1} currentValue={layer.left} hasTopPadding={false} handleAttributeChange={onChange} />
+        <SliderField attribute="top" label="Y Position" min={-100} max={100} step={1} currentValue={layer.top} handleAttributeChange={onChange} />
+        <SliderField attribute="rotation" label="Rotation" min={-360} max={360} step={1} currentValue={layer.rotation} handleAttributeChange={onChange} />
+        <SliderField attribute="opacity" label="Opacity" min={0} max={1} step={0.01} currentValue={layer.opacity} handleAttributeChange={onChange} />
+    </>
+);
+
+const ImageFields: React.FC<{ layer: ImageLayer; onChange: LayerPropertiesProps['onChange'] }> = ({ layer, onChange }) => (
+    <SliderField attribute="width" label="Width" min={1} max={200} step={0.5} currentValue={layer.width} handleAttributeChange={onChange} />
+);
+
+const ShapeFields: React.FC<{ layer: ShapeLayer; onChange: LayerPropertiesProps['onChange'] }> = ({ layer, onChange }) => (
+    <>
+        <SliderField attribute="width" label="Width" min={1} max={200} step={0.5} currentValue={layer.width} handleAttributeChange={onChange} />
+        <SliderField attribute="height" label="Height" min={1} max={200} step={0.5} currentValue={layer.height} handleAttributeChange={onChange} />
+        {layer.shape === 'rectangle' && (
+            <SliderField attribute="cornerRadius" label="Corner Radius" min={0} max={540} step={1} currentValue={layer.cornerRadius} handleAttributeChange={onChange} />
+        )}
+
+        <div className="flex items-center justify-between mt-8">
+            <Label htmlFor="shape-fill">Fill</Label>
+            <Switch id="shape-fill" checked={layer.fill !== null} onCheckedChange={(checked) => onChange('fill', checked ? '#FFD400' : null)} />
+        </div>
+        {layer.fill !== null && (
+            <ColorPicker attribute="fill" label="Fill Color" currentColor={layer.fill} handleAttributeChange={onChange} />
+        )}
+
+        <div className="flex items-center justify-between mt-8">
+            <Label htmlFor="shape-stroke">Outline</Label>
+            <Switch id="shape-stroke" checked={layer.stroke !== null} onCheckedChange={(checked) => onChange('stroke', checked ? '#FFFFFF' : null)} />
+        </div>
+        {layer.stroke !== null && (
+            <>
+                <ColorPicker attribute="stroke" label="Outline Color" currentColor={layer.stroke} handleAttributeChange={onChange} />
+                <SliderField attribute="strokeWidth" label="Outline Width" min={1} max={100} step={1} currentValue={layer.strokeWidth} handleAttributeChange={onChange} />
+            </>
+        )}
+    </>
+);
+
+/**
+ * Settings of the selected layer. Image and shape layers get their transform
+ * and appearance here; text layers keep those in TextCustomizer and only
+ * take the blend mode from this panel.
+ */
+const LayerProperties: React.FC<LayerPropertiesProps> = ({ layer, onChange }) => {
+    const blendMode = BLEND_MODES.find((mode) => mode.value === layer.blendMode) ?? BLEND_MODES[0];
+
+    return (
+        <div className="space-y-2">
+            {layer.kind !== 'text' && <TransformFields layer={layer} onChange={onChange} />}
+            {layer.kind === 'image' && <ImageFields layer={layer} onChange={onChange} />}
+            {layer.kind === 'shape' && <ShapeFields layer={layer} onChange={onChange} />}
+
+            <div className={`flex items-center justify-between ${layer.kind === 'text' ? '' : 'mt-8'}`}>
+                <Label>Blend Mode</Label>
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm">
+                            {blendMode.label}
+                            <ChevronDownIcon className="w-4 h-4 ml-2" />
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                        <DropdownMenuRadioGroup value={layer.blendMode} onValueChange={(value) => onChange('blendMode', value)}>
+                            {BLEND_MODES.map((mode) => (
+                                <DropdownMenuRadioItem key={mode.value} value={mode.value}>
+                                    {mode.label}
+                                </DropdownMenuRadioItem>
+                            ))}
+                        </DropdownMenuRadioGroup>
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            </div>
+        </div>
+    );
+};
+
+export default LayerProperties;
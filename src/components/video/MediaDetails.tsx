@@ -0,0 +1,117 @@
+import React from 'react';
+import { ExclamationTriangleIcon } from '@radix-ui/react-icons';
+import { HdrFormat, VideoMetadata } from '@/preload/preload';
+
+interface MediaDetailsProps {
+    metadata: VideoMetadata;
+}
+
+const HDR_LABELS: Record<HdrFormat, string> = {
+    hdr10: 'HDR10 (PQ)',
+    hlg: 'HLG',
+    'dolby-vision': 'Dolby Vision'
+};
+
+const formatBitrate = (bitsPerSecond: number) => {
+    if (!bitsPerSecond) return null;
+    return bitsPerSecond >= 1_000_000
+        ? `${(bitsPerSecond / 1_000_000).toFixed(1)} Mb/s`
+        : `${Math.round(bitsPerSecond / 1000)} kb/s`;
+};
+
+const formatCreationTime = (creationTime: string) => {
+    const date = new Date(creationTime);
+    return isNaN(date.getTime()) ? creationTime : date.toLocaleString();
+};
+
+const join = (parts: Array<string | null | false | undefined>) => parts.filter(Boolean).join(' · ');
+
+const DetailRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div className="flex gap-2">
+        <span className="w-14 flex-shrink-0 text-gray-400 dark:text-gray-500">{label}</span>
+        <span className="text-gray-700 dark:text-gray-300 break-words min-w-0">{value}</span>
+    </div>
+);
+
+/**
+ * Probe results for the selected file. Rotation and HDR are called out on
+ * top because those are what usually make an export look wrong.
+ */
+const MediaDetails: React.FC<MediaDetailsProps> = ({ metadata }) => {
+    const videoStreams = metadata.videoStreams.filter((stream) => !stream.isCoverArt);
+
+    return (
+        <div className="w-full space-y-2 text-xs">
+            {(metadata.rotation !== 0 || metadata.hdr) && (
+                <div className="flex flex-wrap gap-1">
+                    {metadata.rotation !== 0 && (
+                        <span className="flex items-center gap-1 rounded px-2 py-0.5 bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                            <ExclamationTriangleIcon className="w-3 h-3" />
+                            Rotated {metadata.rotation}°
+                        </span>
+                    )}
+                    {metadata.hdr && (
+                        <span className="flex items-center gap-1 rounded px-2 py-0.5 bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                            <ExclamationTriangleIcon className="w-3 h-3" />
+                            {HDR_LABELS[metadata.hdr]}
+                        </span>
+                    )}
+                </div>
+            )}
+
+            <div className="space-y-1">
+                {videoStreams.map((stream) => (
+                    <DetailRow
+                        key={`v${stream.index}`}
+                        label={videoStreams.length > 1 ? `Video ${stream.index + 1}` : 'Video'}
+                        value={join([
+                            stream.profile ? `${stream.codec} ${stream.profile}` : stream.codec,
+                            `${stream.width}×${stream.height}`,
+                            stream.sampleAspectRatio !== 1 && `SAR ${stream.sampleAspectRatio.toFixed(3)}`,
+                            `${Number(stream.fps.toFixed(3))} fps`,
+                            `${stream.pixelFormat} ${stream.bitDepth}-bit`,
+                            stream.colorTransfer && `${stream.colorPrimaries ?? '?'}/${stream.colorTransfer}`,
+                            formatBitrate(stream.bitrate)
+                        ])}
+                    />
+                ))}
+                {metadata.audioStreams.map((stream) => (
+                    <DetailRow
+                        key={`a${stream.index}`}
+                        label={metadata.audioStreams.length > 1 ? `Audio ${stream.index + 1}` : 'Audio'}
+                        value={join([
+                            stream.profile ? `${stream.codec} ${stream.profile}` : stream.codec,
+                            stream.channelLayout || `${stream.channels} ch`,
+                            stream.sampleRate > 0 && `${stream.sampleRate / 1000} kHz`,
+                            formatBitrate(stream.bitrate),
+                            stream.language,
+                            stream.title
+                        ])}
+                    />
+                ))}
+                {metadata.subtitleStreams.map((stream) => (
+                    <DetailRow
+                        key={`s${stream.index}`}
+                        label="Subtitle"
+                        value={join([stream.codec, stream.language, stream.title])}
+                    />
+                ))}
+                <DetailRow
+                    label="File"
+                    value={join([metadata.format, formatBitrate(metadata.bitrate)])}
+                />
+                {metadata.creationTime && (
+                    <DetailRow label="Created" value={formatCreationTime(metadata.creationTime)} />
+                )}
+                {metadata.location && (
+                    <DetailRow
+                        label="Location"
+                        value={`${metadata.location.latitude.toFixed(5)}, ${metadata.location.longitude.toFixed(5)}`}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default MediaDetails;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { ExclamationTriangleIcon, ReloadIcon } from '@radix-ui/react-icons';
+import { OutputEstimate, VideoSettingsConfig } from '@/preload/preload';
+import { ConversionCancelledError, VideoService } from '@/services/videoService';
+
+interface OutputEstimatePanelProps {
+    inputPath: string;
+    settings: VideoSettingsConfig;
+}
+
+// Wait for the settings to stop changing before encoding samples
+const ESTIMATE_DELAY_MS = 800;
+
+const formatSize = (bytes: number) => {
+    const megabytes = bytes / (1024 * 1024);
+    return megabytes >= 1024 ? `${(megabytes / 1024).toFixed(2)} GB` : `${megabytes.toFixed(1)} MB`;
+};
+
+const formatDuration = (seconds: number) => {
+    const totalSeconds = Math.max(1, Math.round(seconds));
+    const minutes = Math.floor(totalSeconds / 60);
+    return minutes > 0 ? `${minutes}:${(totalSeconds % 60).toString().padStart(2, '0')}` : `${totalSeconds}s`;
+};
+
+// VMAF when the bundled ffmpeg has it, since it tracks what viewers notice best
+const formatQuality = (quality: OutputEstimate['quality']) => {
+    if (!quality) return '—';
+    if (quality.vmaf !== null) return `VMAF ${quality.vmaf.toFixed(1)}`;
+    if (quality.ssim !== null) return `SSIM ${quality.ssim.toFixed(3)}`;
+    return '—';
+};
+
+/**
+ * Predicted size, encode time and quality for the settings being edited.
+ * A new estimate starts shortly after the last change and the previous
+ * one is cancelled; the main process caches results, so going back to
+ * earlier settings shows their estimate right away.
+ */
+const OutputEstimatePanel: React.FC<OutputEstimatePanelProps> = ({ inputPath, settings }) => {
+    const [estimate, setEstimate] = useState<OutputEstimate | null>(null);
+    const [isEstimating, setIsEstimating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (settings.exportMode === 'animation') {
+            setEstimate(null);
+            setIsEstimating(false);
+            return;
+        }
+
+        let isCurrent = true;
+        let isStarted = false;
+        const estimateId = VideoService.createConversionId('estimate');
+        setIsEstimating(true);
+        setError(null);
+
+        const timer = setTimeout(() => {
+            isStarted = true;
+            VideoService.estimateOutput(inputPath, settings, estimateId)
+                .then((result) => {
+                    if (isCurrent) setEstimate(result);
+                })
+                .catch((estimateError) => {
+                    if (isCurrent && !(estimateError instanceof ConversionCancelledError)) {
+                        setEstimate(null);
+                        setError((estimateError as Error).message);
+                    }
+                })
+                .finally(() => {
+                    if (isCurrent) setIsEstimating(false);
+                });
+        }, ESTIMATE_DELAY_MS);
+
+        return () => {
+            isCurrent = false;
+            clearTimeout(timer);
+            if (isStarted) {
+                VideoService.cancelConversion(estimateId).catch(() => {});
+            }
+        };
+    }, [inputPath, settings]);
+
+    if (settings.exportMode === 'animation') {
+        return null;
+    }
+
+    const targetBytes = settings.exportMode === 'video' && settings.maxFileSizeMB < 500
+        ? settings.maxFileSizeMB * 1024 * 1024
+        : null;
+    const isOverTarget = Boolean(estimate && targetBytes !== null && estimate.sizeBytes > targetBytes);
+    // Reframed output doesn't line up with the source, so it isn't scored
+    const showsQuality = settings.exportMode === 'video' && settings.reframe.aspectRatio === 'original';
+
+    return (
+        <div className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium">Estimated Output</h4>
+                {isEstimating && (
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <ReloadIcon className="w-3 h-3 animate-spin" />
+                        Encoding samples…
+                    </span>
+                )}
+            </div>
+
+            {error ? (
+                <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+            ) : (
+                <div className={`grid ${showsQuality ? 'grid-cols-3' : 'grid-cols-2'} gap-4 text-sm ${isEstimating ? 'opacity-50' : ''}`}>
+                    <div>
+                        <p className="text-xs text-muted-foreground">File Size</p>
+                        <p className={`font-medium ${isOverTarget ? 'text-amber-600 dark:text-amber-400' : ''}`}>
+                            {estimate ? `~${formatSize(estimate.sizeBytes)}` : '—'}
+                        </p>
+                    </div>
+                    <div>
+                        <p className="text-xs text-muted-foreground">Encode Time</p>
+                        <p className="font-medium">{estimate ? `~${formatDuration(estimate.encodeSeconds)}` : '—'}</p>
+                    </div>
+                    {showsQuality && (
+                        <div>
+                            <p className="text-xs text-muted-foreground">Quality</p>
+                            <p className="font-medium">{estimate ? formatQuality(estimate.quality) : '—'}</p>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {isOverTarget && (
+                <p className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                    <ExclamationTriangleIcon className="w-3 h-3" />
+                    Likely over the {settings.maxFileSizeMB} MB target, try two-pass encoding or a lower resolution
+                </p>
+            )}
+            {estimate && !error && (
+                <p className="text-xs text-muted-foreground">
+                    From {formatDuration(estimate.sampledSeconds)} of sample encodes
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default OutputEstimatePanel;
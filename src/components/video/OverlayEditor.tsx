@@ -0,0 +1,266 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Cross2Icon, ImageIcon, TextIcon } from '@radix-ui/react-icons';
+import FontFamilyPicker from '@/components/editor/font-picker';
+import InputField from '@/components/editor/input-field';
+import SliderField from '@/components/editor/slider-field';
+import { colors } from '@/constants/colors';
+import { getFileName } from '@/lib/video-utils';
+import { OverlayAnchor, TextSet, VideoOverlay } from '@/types';
+import { useBrandKits } from '@/components/brand/useBrandKits';
+
+interface OverlayEditorProps {
+    overlays: VideoOverlay[];
+    onOverlaysChange: (overlays: VideoOverlay[]) => void;
+}
+
+const ANCHORS: Array<{ value: OverlayAnchor; label: string }> = [
+    { value: 'top-left', label: '↖' },
+    { value: 'top-right', label: '↗' },
+    { value: 'center', label: '•' },
+    { value: 'bottom-left', label: '↙' },
+    { value: 'bottom-right', label: '↘' }
+];
+
+const createTextSet = (id: number): TextSet => ({
+    id,
+    text: 'Your text',
+    fontFamily: 'Inter',
+    top: 0,
+    left: 0,
+    color: '#FFFFFF',
+    fontSize: 64,
+    fontWeight: 700,
+    opacity: 1,
+    shadowColor: '#000000',
+    shadowSize: 2,
+    rotation: 0,
+    tiltX: 0,
+    tiltY: 0,
+    letterSpacing: 0
+});
+
+const OverlayEditor: React.FC<OverlayEditorProps> = ({ overlays, onOverlaysChange }) => {
+    const brandLogos = useBrandKits().kits.flatMap((kit) => kit.logos.map((logo) => ({ kitName: kit.name, logo })));
+
+    const updateOverlay = (id: number, changes: Partial<VideoOverlay>) => {
+        onOverlaysChange(overlays.map((overlay) =>
+            overlay.id === id ? { ...overlay, ...changes } as VideoOverlay : overlay
+        ));
+    };
+
+    const updateTextSet = (id: number, attribute: string, value: any) => {
+        onOverlaysChange(overlays.map((overlay) =>
+            overlay.id === id && overlay.kind === 'text'
+                ? { ...overlay, textSet: { ...overlay.textSet, [attribute]: value } }
+                : overlay
+        ));
+    };
+
+    const handleAddText = () => {
+        const id = Date.now();
+        onOverlaysChange([
+            ...overlays,
+            { id, kind: 'text', textSet: createTextSet(id), anchor: 'bottom-left', offsetX: 5, offsetY: 5, start: null, end: null }
+        ]);
+    };
+
+    const addImage = (imagePath: string) => {
+        onOverlaysChange([
+            ...overlays,
+            { id: Date.now(), kind: 'image', path: imagePath, width: 15, opacity: 1, anchor: 'top-right', offsetX: 3, offsetY: 3, start: null, end: null }
+        ]);
+    };
+
+    const handleAddImage = async () => {
+        const result = await window.electronAPI.showOpenDialog({
+            filters: [{ name: 'Images', extensions: ['png', 'jpg', 'jpeg', 'webp'] }]
+        });
+        if (result.success && result.filePath) {
+            addImage(result.filePath);
+        }
+    };
+
+    const parseTime = (value: string) => {
+        const seconds = parseFloat(value);
+        return isNaN(seconds) || seconds < 0 ? null : seconds;
+    };
+
+    return (
+        <div className="space-y-3">
+            {overlays.map((overlay) => (
+                <div key={overlay.id} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium truncate">
+                            {overlay.kind === 'text' ? overlay.textSet.text || 'Text' : getFileName(overlay.path)}
+                        </span>
+                        <div className="flex items-center gap-1">
+                            {ANCHORS.map((anchor) => (
+                                <Button
+                                    key={anchor.value}
+                                    size="sm"
+                                    variant={overlay.anchor === anchor.value ? 'default' : 'outline'}
+                                    className="w-8 px-0"
+                                    title={anchor.value}
+                                    onClick={() => updateOverlay(overlay.id, { anchor: anchor.value })}
+                                >
+                                    {anchor.label}
+                                </Button>
+                            ))}
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => onOverlaysChange(overlays.filter((existing) => existing.id !== overlay.id))}
+                            >
+                                <Cross2Icon className="w-4 h-4" />
+                            </Button>
+                        </div>
+                    </div>
+
+                    {overlay.kind === 'text' ? (
+                        <>
+                            <InputField
+                                attribute="text"
+                                label="Text"
+                                currentValue={overlay.textSet.text}
+                                handleAttributeChange={(attribute, value) => updateTextSet(overlay.id, attribute, value)}
+                            />
+                            <FontFamilyPicker
+                                attribute="fontFamily"
+                                currentFont={overlay.textSet.fontFamily}
+                                handleAttributeChange={(attribute, value) => updateTextSet(overlay.id, attribute, value)}
+                                userId=""
+                            />
+                            <div className="flex flex-wrap gap-1">
+                                {colors.map((color) => (
+                                    <div
+                                        key={color}
+                                        style={{ background: color }}
+                                        className={`rounded-md h-6 w-6 cursor-pointer border ${
+                                            overlay.textSet.color === color ? 'ring-2 ring-blue-500' : 'border-gray-300'
+                                        }`}
+                                        onClick={() => updateTextSet(overlay.id, 'color', color)}
+                                    />
+                                ))}
+                            </div>
+                            <SliderField
+                                attribute="fontSize"
+                                label="Size"
+                                min={10}
+                                max={300}
+                                step={1}
+                                currentValue={overlay.textSet.fontSize}
+                                hasTopPadding={false}
+                                handleAttributeChange={(attribute, value) => updateTextSet(overlay.id, attribute, value)}
+                            />
+                            <SliderField
+                                attribute="opacity"
+                                label="Opacity"
+                                min={0}
+                                max={1}
+                                step={0.01}
+                                currentValue={overlay.textSet.opacity}
+                                hasTopPadding={false}
+                                handleAttributeChange={(attribute, value) => updateTextSet(overlay.id, attribute, value)}
+                            />
+                        </>
+                    ) : (
+                        <>
+                            <SliderField
+                                attribute="width"
+                                label="Width (% of frame)"
+                                min={2}
+                                max={100}
+                                step={1}
+                                currentValue={overlay.width}
+                                hasTopPadding={false}
+                                handleAttributeChange={(_, value) => updateOverlay(overlay.id, { width: value })}
+                            />
+                            <SliderField
+                                attribute="opacity"
+                                label="Opacity"
+                                min={0}
+                                max={1}
+                                step={0.01}
+                                currentValue={overlay.opacity}
+                                hasTopPadding={false}
+                                handleAttributeChange={(_, value) => updateOverlay(overlay.id, { opacity: value })}
+                            />
+                        </>
+                    )}
+
+                    <SliderField
+                        attribute="offsetX"
+                        label="Horizontal inset (%)"
+                        min={-50}
+                        max={50}
+                        step={0.5}
+                        currentValue={overlay.offsetX}
+                        hasTopPadding={false}
+                        handleAttributeChange={(_, value) => updateOverlay(overlay.id, { offsetX: value })}
+                    />
+                    <SliderField
+                        attribute="offsetY"
+                        label="Vertical inset (%)"
+                        min={-50}
+                        max={50}
+                        step={0.5}
+                        currentValue={overlay.offsetY}
+                        hasTopPadding={false}
+                        handleAttributeChange={(_, value) => updateOverlay(overlay.id, { offsetY: value })}
+                    />
+
+                    <div className="flex items-center gap-2">
+                        <Label className="text-sm">Show from</Label>
+                        <Input
+                            type="number"
+                            min={0}
+                            step={0.1}
+                            placeholder="start"
+                            value={overlay.start ?? ''}
+                            onChange={(e) => updateOverlay(overlay.id, { start: parseTime(e.target.value) })}
+                            className="w-20"
+                        />
+                        <Label className="text-sm">to</Label>
+                        <Input
+                            type="number"
+                            min={0}
+                            step={0.1}
+                            placeholder="end"
+                            value={overlay.end ?? ''}
+                            onChange={(e) => updateOverlay(overlay.id, { end: parseTime(e.target.value) })}
+                            className="w-20"
+                        />
+                        <span className="text-xs text-muted-foreground">seconds</span>
+                    </div>
+                </div>
+            ))}
+
+            <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={handleAddText}>
+                    <TextIcon className="w-4 h-4 mr-2" />
+                    Add Text
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleAddImage}>
+                    <ImageIcon className="w-4 h-4 mr-2" />
+                    Add Logo
+                </Button>
+            </div>
+
+            {brandLogos.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {brandLogos.map(({ kitName, logo }) => (
+                        <Button key={logo} size="sm" variant="ghost" title={kitName} onClick={() => addImage(logo)}>
+                            <ImageIcon className="w-4 h-4 mr-2" />
+                            {getFileName(logo)}
+                        </Button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OverlayEditor;
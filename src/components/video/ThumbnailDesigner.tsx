@@ -0,0 +1,461 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Accordion } from '@/components/ui/accordion';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ArrowLeftIcon, BoxIcon, CircleIcon, ImageIcon, PlusIcon, ReloadIcon, ResetIcon, SquareIcon } from '@radix-ui/react-icons';
+import TextCustomizer from '@/components/editor/text-customizer';
+import LayerPanel from './LayerPanel';
+import LayerProperties from './LayerProperties';
+import { VideoService } from '@/services/videoService';
+import { VideoMetadata } from '@/preload/preload';
+import { renderThumbnail } from '@/lib/thumbnail-canvas';
+import { EditCommand, createHistory, executeCommand, redo, undo } from '@/lib/edit-history';
+import { PROJECT_FILE_EXTENSION, createImageLayer, createShapeLayer, createTextLayer } from '@/lib/thumbnail-project';
+import { getFileName } from '@/lib/video-utils';
+import { IMAGE_FILE_EXTENSIONS } from '@/constants/formats';
+import { BrandTextStyle, TextSet, ThumbnailLayer, ThumbnailProject } from '@/types';
+import { useBrandKits } from '@/components/brand/useBrandKits';
+import { formatTimecode } from './VideoTimeline';
+
+interface ThumbnailDesignerProps {
+    // Video the background frames come from, stored in saved projects
+    filePath: string;
+    metadata: VideoMetadata;
+    fileName: string;
+    project?: ThumbnailProject | null;
+    onClose: () => void;
+}
+
+const THUMBNAIL_SIZES = [
+    { width: 1280, height: 720 },
+    { width: 1920, height: 1080 }
+];
+// Wait for the slider to settle before asking ffmpeg for a new background
+const SCRUB_DEBOUNCE_MS = 150;
+
+type Layers = ThumbnailLayer[];
+
+const setAttributeCommand = (id: number, attribute: string, before: any, after: any): EditCommand<Layers> => ({
+    apply: (layers) => layers.map((layer) => layer.id === id ? { ...layer, [attribute]: after } : layer),
+    revert: (layers) => layers.map((layer) => layer.id === id ? { ...layer, [attribute]: before } : layer),
+    mergeKey: `${id}:${attribute}`
+});
+
+const addLayerCommand = (layer: ThumbnailLayer): EditCommand<Layers> => ({
+    apply: (layers) => [...layers, layer],
+    revert: (layers) => layers.filter((current) => current.id !== layer.id)
+});
+
+const removeLayerCommand = (layer: ThumbnailLayer, index: number): EditCommand<Layers> => ({
+    apply: (layers) => layers.filter((current) => current.id !== layer.id),
+    revert: (layers) => [...layers.slice(0, index), layer, ...layers.slice(index)]
+});
+
+const moveLayer = (layers: Layers, from: number, to: number) => {
+    const moved = [...layers];
+    moved.splice(to, 0, ...moved.splice(from, 1));
+    return moved;
+};
+
+const moveLayerCommand = (from: number, to: number): EditCommand<Layers> => ({
+    apply: (layers) => moveLayer(layers, from, to),
+    revert: (layers) => moveLayer(layers, to, from)
+});
+
+const isUndoShortcut = (event: KeyboardEvent) => (event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'z';
+
+const loadImage = (url: string, errorMessage = 'Failed to load the extracted frame') => new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    // Media is served from its own origin, and the canvas has to stay exportable
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(errorMessage));
+    image.src = url;
+});
+
+/**
+ * Full-screen editor for video thumbnails: a frame from the video as the
+ * background with text, image and shape layers composited over it,
+ * exported as a still image.
+ */
+const ThumbnailDesigner: React.FC<ThumbnailDesignerProps> = ({ filePath, metadata, fileName, project = null, onClose }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [time, setTime] = useState(() => project?.background.time ?? Math.min(2, metadata.duration / 2));
+    const [background, setBackground] = useState<HTMLImageElement | null>(null);
+    const [isLoadingFrame, setIsLoadingFrame] = useState(false);
+    const [history, setHistory] = useState(() => createHistory<Layers>(project?.layers ?? [createTextLayer(Date.now())]));
+    const [selectedId, setSelectedId] = useState<number | null>(() => history.present[history.present.length - 1]?.id ?? null);
+    // Decoded files of the image layers, keyed by path
+    const [images, setImages] = useState<Map<string, HTMLImageElement>>(() => new Map());
+    const requestedImages = useRef(new Set<string>());
+    const [size, setSize] = useState(() => project ? { width: project.width, height: project.height } : THUMBNAIL_SIZES[0]);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const layers = history.present;
+    const selectedLayer = layers.find((layer) => layer.id === selectedId) ?? null;
+    const brandKits = useBrandKits().kits;
+    const brandStyles = brandKits.flatMap((kit) =>
+        kit.textStyles.map((textStyle) => ({ kitName: kit.name, textStyle }))
+    );
+    const brandLogos = brandKits.flatMap((kit) => kit.logos.map((logo) => ({ kitName: kit.name, logo })));
+    const imagePaths = layers.flatMap((layer) => layer.kind === 'image' ? [layer.path] : []);
+
+    // Stay a frame short of the end, where seeking finds nothing
+    const lastFrameTime = Math.max(0, metadata.duration - 1 / (metadata.fps || 30));
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const timer = setTimeout(async () => {
+            setIsLoadingFrame(true);
+            try {
+                const tempDir = await window.electronAPI.getTempDir();
+                const framePath = await VideoService.extractFrame(filePath, tempDir, time, null);
+                const frameUrl = await window.electronAPI.getFileUrl(framePath);
+                if (!frameUrl.success || !frameUrl.url) {
+                    throw new Error(frameUrl.error || 'Failed to load the extracted frame');
+                }
+                // Add timestamp to prevent caching issues
+                const image = await loadImage(`${frameUrl.url}?t=${Date.now()}`);
+                if (!cancelled) {
+                    setBackground(image);
+                }
+            } catch (frameError) {
+                if (!cancelled) {
+                    setError(frameError instanceof Error ? frameError.message : 'Failed to extract frame');
+                }
+            } finally {
+                if (!cancelled) {
+                    setIsLoadingFrame(false);
+                }
+            }
+        }, SCRUB_DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [filePath, time]);
+
+    useEffect(() => {
+        for (const imagePath of imagePaths) {
+            // Each file is loaded once, undoing and redoing reuses it
+            if (requestedImages.current.has(imagePath)) continue;
+            requestedImages.current.add(imagePath);
+
+            window.electronAPI.getFileUrl(imagePath)
+                .then((result) => {
+                    if (!result.success || !result.url) {
+                        throw new Error(result.error);
+                    }
+                    return loadImage(result.url, `Failed to load ${getFileName(imagePath)}`);
+                })
+                .then((image) => setImages((current) => new Map(current).set(imagePath, image)))
+                .catch((imageError) => {
+                    setError(imageError instanceof Error && imageError.message ? imageError.message : `Failed to load ${getFileName(imagePath)}`);
+                });
+        }
+    }, [imagePaths.join('\n')]);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        // Render offscreen so a slow font load can't paint over a newer render
+        const offscreen = document.createElement('canvas');
+        renderThumbnail(offscreen, background, layers, size.width, size.height, images).then(() => {
+            const canvas = canvasRef.current;
+            if (cancelled || !canvas) return;
+            canvas.width = size.width;
+            canvas.height = size.height;
+            canvas.getContext('2d')!.drawImage(offscreen, 0, 0);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [background, layers, size, images]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!isUndoShortcut(event)) return;
+            // Text edits go through the history too, so the inputs' own undo is bypassed
+            event.preventDefault();
+            setHistory((current) => event.shiftKey ? redo(current) : undo(current));
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    const execute = (command: EditCommand<Layers>) => {
+        setHistory((current) => executeCommand(current, command));
+    };
+
+    const handleAttributeChange = (id: number, attribute: string, value: any) => {
+        const layer = layers.find((current) => current.id === id);
+        if (!layer) return;
+        // Showing, hiding and unlocking stay possible on a locked layer
+        if (layer.locked && attribute !== 'hidden' && attribute !== 'locked') return;
+        const before = (layer as unknown as Record<string, unknown>)[attribute];
+        if (before === value) return;
+        execute(setAttributeCommand(id, attribute, before, value));
+    };
+
+    const addLayer = (layer: ThumbnailLayer) => {
+        execute(addLayerCommand(layer));
+        setSelectedId(layer.id);
+    };
+
+    const handleAddStyledText = (textStyle: BrandTextStyle) => {
+        addLayer({ ...createTextLayer(Date.now()), ...textStyle.style, text: textStyle.name });
+    };
+
+    const handleAddImage = async () => {
+        const result = await window.electronAPI.showOpenDialog({
+            filters: [{ name: 'Images', extensions: IMAGE_FILE_EXTENSIONS }]
+        });
+        if (result.success && result.filePath) {
+            addLayer(createImageLayer(Date.now(), result.filePath));
+        }
+    };
+
+    const handleAddOutlinedBox = () => {
+        addLayer({ ...createShapeLayer(Date.now(), 'rectangle'), fill: null, stroke: '#FF0000' });
+    };
+
+    const handleDuplicate = (textSet: TextSet) => {
+        const layer = layers.find((current) => current.id === textSet.id);
+        if (!layer) return;
+        addLayer({ ...layer, id: Date.now(), locked: false });
+    };
+
+    const handleMove = (id: number, direction: 1 | -1) => {
+        const index = layers.findIndex((layer) => layer.id === id);
+        const target = index + direction;
+        if (index === -1 || layers[index].locked || target < 0 || target >= layers.length) return;
+        execute(moveLayerCommand(index, target));
+    };
+
+    const handleRemove = (id: number) => {
+        const index = layers.findIndex((layer) => layer.id === id);
+        if (index === -1 || layers[index].locked) return;
+        execute(removeLayerCommand(layers[index], index));
+    };
+
+    const handleSaveProject = async () => {
+        setError(null);
+        try {
+            const baseName = fileName.replace(/\.[^/.]+$/, '') || 'thumbnail';
+            const result = await window.electronAPI.showSaveDialog(
+                `${baseName}.${PROJECT_FILE_EXTENSION}`,
+                [{ name: 'SubClip Projects', extensions: [PROJECT_FILE_EXTENSION] }]
+            );
+            if (result.canceled || !result.filePath) return;
+
+            await VideoService.saveProject(result.filePath, {
+                sourceVideoPath: filePath,
+                background: { time },
+                width: size.width,
+                height: size.height,
+                layers
+            });
+        } catch (saveError) {
+            setError(saveError instanceof Error ? saveError.message : 'Failed to save project');
+        }
+    };
+
+    const handleSave = async (format: 'png' | 'jpeg') => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            // Render again rather than reading the preview, which may be mid-update
+            const canvas = document.createElement('canvas');
+            await renderThumbnail(canvas, background, layers, size.width, size.height, images);
+
+            const extension = format === 'png' ? 'png' : 'jpg';
+            const baseName = fileName.replace(/\.[^/.]+$/, '') || 'video';
+            const result = await window.electronAPI.showSaveDialog(
+                `${baseName}_thumbnail_${size.width}x${size.height}.${extension}`,
+                [{ name: format === 'png' ? 'PNG Images' : 'JPEG Images', extensions: [extension] }]
+            );
+            if (result.canceled || !result.filePath) return;
+
+            const saved = await window.electronAPI.saveImage(result.filePath, canvas.toDataURL(`image/${format}`, 0.92));
+            if (!saved.success) {
+                throw new Error(saved.error || 'Failed to save image');
+            }
+        } catch (saveError) {
+            setError(saveError instanceof Error ? saveError.message : 'Failed to save thumbnail');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col h-[calc(100vh-100px)] overflow-y-auto px-8 py-6 gap-6">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                    <Button variant="outline" size="sm" onClick={onClose}>
+                        <ArrowLeftIcon className="w-4 h-4 mr-2" />
+                        Back
+                    </Button>
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                        Thumbnail Designer
+                    </h3>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Undo (Ctrl+Z)"
+                        disabled={history.past.length === 0}
+                        onClick={() => setHistory(undo)}
+                    >
+                        <ResetIcon className="w-4 h-4" />
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Redo (Ctrl+Shift+Z)"
+                        disabled={history.future.length === 0}
+                        onClick={() => setHistory(redo)}
+                    >
+                        <ResetIcon className="w-4 h-4 -scale-x-100" />
+                    </Button>
+                    {THUMBNAIL_SIZES.map((option) => (
+                        <Button
+                            key={option.width}
+                            size="sm"
+                            variant={size.width === option.width ? 'default' : 'outline'}
+                            onClick={() => setSize(option)}
+                        >
+                            {option.width}×{option.height}
+                        </Button>
+                    ))}
+                    <Button variant="outline" onClick={handleSaveProject}>
+                        Save Project
+                    </Button>
+                    <Button variant="outline" disabled={isSaving} onClick={() => handleSave('jpeg')}>
+                        Save JPEG
+                    </Button>
+                    <Button disabled={isSaving} onClick={() => handleSave('png')}>
+                        Save PNG
+                    </Button>
+                </div>
+            </div>
+
+            <div className="flex flex-row items-start gap-6">
+                <div className="flex-1 min-w-0 space-y-4">
+                    <div className="relative rounded-lg overflow-hidden bg-black">
+                        <canvas ref={canvasRef} className="w-full h-auto block" />
+                        {isLoadingFrame && (
+                            <ReloadIcon className="absolute top-3 right-3 w-5 h-5 animate-spin text-white" />
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex justify-between text-sm">
+                            <Label className="text-sm">Background Frame</Label>
+                            <span className="font-mono text-muted-foreground">{formatTimecode(time)}</span>
+                        </div>
+                        <Slider
+                            value={[time]}
+                            onValueChange={([value]) => setTime(value)}
+                            min={0}
+                            max={lastFrameTime}
+                            step={1 / (metadata.fps || 30)}
+                            className="w-full"
+                        />
+                    </div>
+
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                </div>
+
+                <div className="w-[380px] flex-shrink-0 space-y-4">
+                    <div className="flex flex-wrap gap-2">
+                        <Button variant="outline" size="sm" onClick={() => addLayer(createTextLayer(Date.now()))}>
+                            <PlusIcon className="w-4 h-4 mr-2" />
+                            Text
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={handleAddImage}>
+                            <ImageIcon className="w-4 h-4 mr-2" />
+                            Image
+                        </Button>
+                        <Button variant="outline" size="sm" title="Rectangle" onClick={() => addLayer(createShapeLayer(Date.now(), 'rectangle'))}>
+                            <BoxIcon className="w-4 h-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" title="Ellipse" onClick={() => addLayer(createShapeLayer(Date.now(), 'ellipse'))}>
+                            <CircleIcon className="w-4 h-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" title="Outlined Box" onClick={handleAddOutlinedBox}>
+                            <SquareIcon className="w-4 h-4" />
+                        </Button>
+                    </div>
+                    {(brandStyles.length > 0 || brandLogos.length > 0) && (
+                        <div className="flex flex-wrap gap-2">
+                            {brandStyles.map(({ kitName, textStyle }, index) => (
+                                <Button
+                                    key={index}
+                                    size="sm"
+                                    variant="outline"
+                                    title={kitName}
+                                    onClick={() => handleAddStyledText(textStyle)}
+                                >
+                                    <PlusIcon className="w-3 h-3 mr-1" />
+                                    {textStyle.name}
+                                </Button>
+                            ))}
+                            {brandLogos.map(({ kitName, logo }) => (
+                                <Button
+                                    key={logo}
+                                    size="sm"
+                                    variant="outline"
+                                    title={kitName}
+                                    onClick={() => addLayer(createImageLayer(Date.now(), logo))}
+                                >
+                                    <ImageIcon className="w-3 h-3 mr-1" />
+                                    {getFileName(logo)}
+                                </Button>
+                            ))}
+                        </div>
+                    )}
+
+                    <LayerPanel
+                        layers={layers}
+                        selectedId={selectedId}
+                        onSelect={setSelectedId}
+                        onChange={handleAttributeChange}
+                        onMove={handleMove}
+                        onRemove={handleRemove}
+                    />
+
+                    {selectedLayer?.locked && (
+                        <p className="text-sm text-muted-foreground">Unlock the layer to edit it.</p>
+                    )}
+                    {selectedLayer && !selectedLayer.locked && (
+                        <div className="space-y-4">
+                            {selectedLayer.kind === 'text' && (
+                                <Accordion key={selectedLayer.id} type="single" collapsible defaultValue={`item-${selectedLayer.id}`}>
+                                    <TextCustomizer
+                                        textSet={selectedLayer}
+                                        handleAttributeChange={handleAttributeChange}
+                                        removeTextSet={handleRemove}
+                                        duplicateTextSet={handleDuplicate}
+                                        userId=""
+                                    />
+                                </Accordion>
+                            )}
+                            <LayerProperties
+                                layer={selectedLayer}
+                                onChange={(attribute, value) => handleAttributeChange(selectedLayer.id, attribute, value)}
+                            />
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ThumbnailDesigner;
@@ -1,6 +1,13 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { DownloadIcon, PlayIcon, ReloadIcon } from '@radix-ui/react-icons';
+import { DownloadIcon, PlayIcon, PauseIcon, ReloadIcon, ColumnsIcon } from '@radix-ui/react-icons';
+import { getFileExtension } from '@/lib/video-utils';
+import { ReframeOptions, SubtitleCue, SubtitleOptions, TimeRange } from '@/preload/preload';
+import { ASPECT_RATIOS } from '@/constants/formats';
+import VideoTimeline from './VideoTimeline';
+import CropOverlay from './CropOverlay';
+import CaptionOverlay from './CaptionOverlay';
+import { VideoService } from '@/services/videoService';
 
 interface VideoPreviewProps {
     convertedVideoPath: string | null;
@@ -10,6 +17,15 @@ interface VideoPreviewProps {
     thumbnailUrl: string | null;
     originalFileName: string;
     fileSize?: number;
+    sourceVideoUrl?: string | null;
+    duration?: number;
+    segments?: TimeRange[];
+    onSegmentsChange?: (segments: TimeRange[]) => void;
+    reframe?: ReframeOptions;
+    onReframeChange?: (reframe: ReframeOptions) => void;
+    subtitles?: SubtitleOptions | null;
+    // Opens the before/after comparison, left out for outputs that can't be compared
+    onCompare?: () => void;
 }
 
 const VideoPreview: React.FC<VideoPreviewProps> = ({
@@ -19,9 +35,57 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
     onShowInFinder,
     thumbnailUrl,
     originalFileName,
-    fileSize
+    fileSize,
+    sourceVideoUrl,
+    duration = 0,
+    segments = [],
+    onSegmentsChange,
+    reframe,
+    onReframeChange,
+    subtitles,
+    onCompare
 }) => {
     const [isDownloading, setIsDownloading] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [frameSize, setFrameSize] = useState({ width: 0, height: 0 });
+    const [cues, setCues] = useState<SubtitleCue[]>([]);
+    const sourceVideoRef = useRef<HTMLVideoElement>(null);
+    const subtitlePath = subtitles?.path;
+
+    useEffect(() => {
+        setCues([]);
+        if (!subtitlePath) return;
+
+        let cancelled = false;
+        VideoService.loadSubtitles(subtitlePath)
+            .then((loadedCues) => {
+                if (!cancelled) setCues(loadedCues);
+            })
+            .catch(() => {
+                // The preview just shows no captions; the export reports the error
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [subtitlePath]);
+
+    const handleSeek = useCallback((time: number) => {
+        if (sourceVideoRef.current) {
+            sourceVideoRef.current.currentTime = time;
+        }
+        setCurrentTime(time);
+    }, []);
+
+    const togglePlayback = useCallback(() => {
+        const video = sourceVideoRef.current;
+        if (!video) return;
+        if (video.paused) {
+            video.play();
+        } else {
+            video.pause();
+        }
+    }, []);
 
     const handleDownload = useCallback(async () => {
         setIsDownloading(true);
@@ -39,9 +103,12 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
         return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
     };
 
+    const outputExtension = convertedVideoPath ? getFileExtension(convertedVideoPath) || 'mp4' : 'mp4';
+    const outputFormatLabel = outputExtension.toUpperCase();
+
     const getOutputFileName = () => {
         const nameWithoutExt = originalFileName.replace(/\.[^/.]+$/, "");
-        return `${nameWithoutExt}_converted.mp4`;
+        return `${nameWithoutExt}_converted.${outputExtension}`;
     };
 
     return (
@@ -51,12 +118,65 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
                     Preview & Download
                 </h3>
                 <p className="text-sm text-gray-600 dark:text-gray-400">
-                    Download your converted MP4 video
+                    Download your converted video
                 </p>
             </div>
 
             <div className="flex-1 bg-gray-50 dark:bg-gray-800 rounded-lg p-6 flex flex-col">
-                {!convertedVideoPath && !isConverting && (
+                {!convertedVideoPath && !isConverting && sourceVideoUrl && onSegmentsChange && (
+                    <div className="flex-1 flex flex-col gap-3">
+                        <div className="relative">
+                            <video
+                                ref={sourceVideoRef}
+                                src={sourceVideoUrl}
+                                className="block w-full max-h-48 rounded-lg bg-black object-contain"
+                                onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                                onPlay={() => setIsPlaying(true)}
+                                onPause={() => setIsPlaying(false)}
+                                onLoadedMetadata={(e) => setFrameSize({
+                                    width: e.currentTarget.videoWidth,
+                                    height: e.currentTarget.videoHeight
+                                })}
+                            />
+                            {subtitles && cues.length > 0 && (
+                                <CaptionOverlay
+                                    frameWidth={frameSize.width}
+                                    frameHeight={frameSize.height}
+                                    cues={cues}
+                                    subtitles={subtitles}
+                                    currentTime={currentTime}
+                                />
+                            )}
+                            {reframe && onReframeChange && reframe.aspectRatio !== 'original' && reframe.mode === 'crop' && (
+                                <CropOverlay
+                                    frameWidth={frameSize.width}
+                                    frameHeight={frameSize.height}
+                                    aspectRatio={ASPECT_RATIOS[reframe.aspectRatio].ratio}
+                                    cropX={reframe.cropX}
+                                    cropY={reframe.cropY}
+                                    onCropChange={(cropX, cropY) => onReframeChange({ ...reframe, cropX, cropY })}
+                                />
+                            )}
+                            <Button
+                                size="sm"
+                                variant="secondary"
+                                className="absolute bottom-2 left-2"
+                                onClick={togglePlayback}
+                            >
+                                {isPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+                            </Button>
+                        </div>
+                        <VideoTimeline
+                            duration={duration}
+                            segments={segments}
+                            onSegmentsChange={onSegmentsChange}
+                            currentTime={currentTime}
+                            onSeek={handleSeek}
+                        />
+                    </div>
+                )}
+
+                {!convertedVideoPath && !isConverting && !sourceVideoUrl && (
                     <div className="flex-1 flex flex-col items-center justify-center text-center">
                         <div className="w-16 h-16 bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
                             <PlayIcon className="w-8 h-8 text-gray-400" />
@@ -94,7 +214,7 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
                                         </div>
                                     </div>
                                     <div className="absolute top-2 right-2 bg-green-500 text-white text-xs px-2 py-1 rounded">
-                                        MP4
+                                        {outputFormatLabel}
                                     </div>
                                 </div>
                             ) : (
@@ -133,11 +253,22 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
                                 ) : (
                                     <>
                                         <DownloadIcon className="w-4 h-4 mr-2" />
-                                        Download MP4
+                                        Download {outputFormatLabel}
                                     </>
                                 )}
                             </Button>
 
+                            {onCompare && (
+                                <Button
+                                    onClick={onCompare}
+                                    variant="outline"
+                                    className="w-full"
+                                >
+                                    <ColumnsIcon className="w-4 h-4 mr-2" />
+                                    Compare Quality
+                                </Button>
+                            )}
+
                             <Button
                                 onClick={onShowInFinder}
                                 variant="outline"
@@ -2,67 +2,51 @@ import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { ReloadIcon, StopIcon, PlayIcon } from '@radix-ui/react-icons';
-import { VideoConversionProgress } from '@/preload/preload';
-import VideoSettings, { VideoSettingsConfig } from './VideoSettings';
+import { VideoConversionProgress, VideoMetadata, VideoSettingsConfig } from '@/preload/preload';
+import VideoSettings, { DEFAULT_VIDEO_SETTINGS } from './VideoSettings';
+import { SelectedVideo } from '@/types';
 
 interface VideoProcessorProps {
     isProcessing: boolean;
     progress: VideoConversionProgress | null;
     onStartConversion: (settings: VideoSettingsConfig) => void;
+    onSettingsChange?: (settings: VideoSettingsConfig) => void;
+    // Adds what is edited outside the settings dialog, so estimates match the conversion
+    applyPreviewEdits?: (settings: VideoSettingsConfig) => VideoSettingsConfig;
     onCancelConversion: () => void;
     onConvertAgain?: () => void;
-    selectedVideo: File | null;
+    selectedVideo: SelectedVideo | null;
     conversionStatus: 'idle' | 'processing' | 'completed' | 'error';
     errorMessage?: string;
+    metadata?: VideoMetadata | null;
 }
 
 const VideoProcessor: React.FC<VideoProcessorProps> = ({
     isProcessing,
     progress,
     onStartConversion,
+    onSettingsChange,
+    applyPreviewEdits,
     onCancelConversion,
     onConvertAgain,
     selectedVideo,
     conversionStatus,
-    errorMessage
+    errorMessage,
+    metadata = null
 }) => {
-    const [videoSettings, setVideoSettings] = useState<VideoSettingsConfig>({
-        quality: 'medium',
-        resolution: '1080p',
-        bitrate: 5000,
-        preset: 'medium',
-        socialMediaOptimization: false,
-        platform: 'general',
-        enableHardwareAcceleration: true,
-        maxFileSizeMB: 50
-    });
-    const [estimatedTimeRemaining, setEstimatedTimeRemaining] = useState<string>('');
-    const [startTime, setStartTime] = useState<number | null>(null);
+    const [videoSettings, setVideoSettings] = useState<VideoSettingsConfig>(DEFAULT_VIDEO_SETTINGS);
 
     useEffect(() => {
-        if (conversionStatus === 'processing' && startTime === null) {
-            setStartTime(Date.now());
-        } else if (conversionStatus !== 'processing') {
-            setStartTime(null);
-            setEstimatedTimeRemaining('');
-        }
-    }, [conversionStatus, startTime]);
+        onSettingsChange?.(videoSettings);
+    }, [videoSettings, onSettingsChange]);
 
-    useEffect(() => {
-        if (progress && progress.progress > 0 && startTime) {
-            const elapsed = Date.now() - startTime;
-            const estimated = (elapsed * (100 - progress.progress)) / progress.progress;
-            const totalSeconds = Math.floor(estimated / 1000);
-            const minutes = Math.floor(totalSeconds / 60);
-            const seconds = totalSeconds % 60;
-            
-            if (minutes > 0) {
-                setEstimatedTimeRemaining(`${minutes}:${seconds.toString().padStart(2, '0')}`);
-            } else {
-                setEstimatedTimeRemaining(`${seconds}s`);
-            }
-        }
-    }, [progress, startTime]);
+    const formatTimeLeft = (eta: number | null) => {
+        if (eta === null) return '—';
+        const totalSeconds = Math.ceil(eta);
+        const minutes = Math.floor(totalSeconds / 60);
+        const seconds = totalSeconds % 60;
+        return minutes > 0 ? `${minutes}:${seconds.toString().padStart(2, '0')}` : `${seconds}s`;
+    };
 
     const formatFileSize = (bytes: number) => {
         const sizes = ['Bytes', 'KB', 'MB', 'GB'];
@@ -113,6 +97,9 @@ const VideoProcessor: React.FC<VideoProcessorProps> = ({
                                     <VideoSettings
                                         config={videoSettings}
                                         onConfigChange={setVideoSettings}
+                                        metadata={metadata}
+                                        inputPath={selectedVideo?.path}
+                                        applyPreviewEdits={applyPreviewEdits}
                                         onStartConversion={onStartConversion}
                                     />
                                 </div>
@@ -156,6 +143,18 @@ const VideoProcessor: React.FC<VideoProcessorProps> = ({
                                             {Math.round(progress.currentFps)}
                                         </p>
                                     </div>
+                                    <div>
+                                        <p className="text-gray-500 dark:text-gray-400">Speed</p>
+                                        <p className="font-medium text-gray-900 dark:text-white">
+                                            {progress.speed > 0 ? `${progress.speed.toFixed(2)}x` : '—'}
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <p className="text-gray-500 dark:text-gray-400">Bitrate</p>
+                                        <p className="font-medium text-gray-900 dark:text-white">
+                                            {progress.bitrate > 0 ? `${Math.round(progress.bitrate)} kbps` : '—'}
+                                        </p>
+                                    </div>
                                     <div>
                                         <p className="text-gray-500 dark:text-gray-400">Output Size</p>
                                         <p className="font-medium text-gray-900 dark:text-white">
@@ -165,7 +164,7 @@ const VideoProcessor: React.FC<VideoProcessorProps> = ({
                                     <div>
                                         <p className="text-gray-500 dark:text-gray-400">Est. Time Left</p>
                                         <p className="font-medium text-gray-900 dark:text-white">
-                                            {estimatedTimeRemaining || '—'}
+                                            {formatTimeLeft(progress.eta)}
                                         </p>
                                     </div>
                                 </div>
@@ -186,6 +185,9 @@ const VideoProcessor: React.FC<VideoProcessorProps> = ({
                                 <VideoSettings
                                     config={videoSettings}
                                     onConfigChange={setVideoSettings}
+                                    metadata={metadata}
+                                    inputPath={selectedVideo?.path}
+                                    applyPreviewEdits={applyPreviewEdits}
                                     disabled={true}
                                 />
                             </div>
@@ -224,6 +226,9 @@ const VideoProcessor: React.FC<VideoProcessorProps> = ({
                                 <VideoSettings
                                     config={videoSettings}
                                     onConfigChange={setVideoSettings}
+                                    metadata={metadata}
+                                    inputPath={selectedVideo?.path}
+                                    applyPreviewEdits={applyPreviewEdits}
                                     onStartConversion={onStartConversion}
                                 />
                             </div>
@@ -259,6 +264,9 @@ const VideoProcessor: React.FC<VideoProcessorProps> = ({
                                     <VideoSettings
                                         config={videoSettings}
                                         onConfigChange={setVideoSettings}
+                                        metadata={metadata}
+                                        inputPath={selectedVideo?.path}
+                                        applyPreviewEdits={applyPreviewEdits}
                                         onStartConversion={onStartConversion}
                                     />
                                 </div>
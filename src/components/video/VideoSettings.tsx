@@ -1,58 +1,165 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Separator } from '@/components/ui/separator';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { GearIcon } from '@radix-ui/react-icons';
-
-export interface VideoSettingsConfig {
-    quality: 'low' | 'medium' | 'high' | 'ultra';
-    resolution: '720p' | '1080p' | '1440p' | '4k';
-    bitrate: number;
-    preset: 'ultrafast' | 'fast' | 'medium' | 'slow' | 'veryslow';
-    socialMediaOptimization: boolean;
-    platform: 'instagram' | 'twitter' | 'youtube' | 'facebook' | 'general';
-    enableHardwareAcceleration: boolean;
-    maxFileSizeMB: number;
-}
+import { Input } from '@/components/ui/input';
+import { GearIcon, Cross2Icon } from '@radix-ui/react-icons';
+import FontFamilyPicker from '@/components/editor/font-picker';
+import OverlayEditor from './OverlayEditor';
+import OutputEstimatePanel from './OutputEstimatePanel';
+import { colors } from '@/constants/colors';
+import { SUBTITLE_FILE_EXTENSIONS } from '@/lib/subtitles';
+import { getFileName } from '@/lib/video-utils';
+import { AnimationOptions, AudioExportOptions, AudioProcessingOptions, SubtitleOptions, VideoMetadata, VideoSettingsConfig } from '@/preload/preload';
+import { ANIMATION_FORMATS, ASPECT_RATIOS, AUDIO_FORMATS, AudioFormat, GIF_DITHER_MODES, REFRAME_MODES, AnimationFormat, GifDither, HDR_MODES, HdrMode, LOUDNESS_TARGETS, VIDEO_CODECS, VIDEO_CONTAINERS, SUPPORTED_CONTAINERS, AspectRatio, ReframeMode, VideoCodec, VideoContainer } from '@/constants/formats';
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettingsConfig = {
+    quality: 'medium',
+    resolution: '1080p',
+    bitrate: 5000,
+    preset: 'medium',
+    socialMediaOptimization: false,
+    platform: 'general',
+    enableHardwareAcceleration: true,
+    maxFileSizeMB: 50,
+    encodingMode: 'abr',
+    crf: 23,
+    videoCodec: 'h264',
+    container: 'mp4',
+    segments: [],
+    preferStreamCopy: false,
+    reframe: {
+        aspectRatio: 'original',
+        mode: 'crop',
+        padColor: '#000000',
+        cropX: 0.5,
+        cropY: 0.5
+    },
+    subtitles: null,
+    overlays: [],
+    exportMode: 'video',
+    animation: {
+        format: 'gif',
+        fps: 15,
+        width: 480,
+        dither: 'sierra2_4a',
+        loop: 0,
+        range: null,
+        maxFileSizeMB: 0
+    },
+    audio: {
+        format: 'copy',
+        bitrate: 192,
+        sampleRate: null,
+        channels: null,
+        streamIndex: 0,
+        sourceCodec: null
+    },
+    audioProcessing: {
+        normalize: false,
+        targetLufs: null,
+        highpassHz: 0,
+        denoise: false,
+        gainDb: 0,
+        mute: false
+    },
+    hdrMode: 'auto'
+};
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+    path: '',
+    mode: 'burn',
+    fontFamily: 'Inter',
+    fontSize: 5,
+    color: '#FFFFFF',
+    position: 'bottom'
+};
 
 interface VideoSettingsProps {
     config: VideoSettingsConfig;
     onConfigChange: (config: VideoSettingsConfig) => void;
     onStartConversion?: (config: VideoSettingsConfig) => void;
     disabled?: boolean;
+    // Probe of the selected video, used to list its audio streams
+    metadata?: VideoMetadata | null;
+    // Selected video, estimated against while the settings are edited
+    inputPath?: string | null;
+    // Turns the dialog's settings into what the conversion will run with
+    applyPreviewEdits?: (config: VideoSettingsConfig) => VideoSettingsConfig;
 }
 
 const VideoSettings: React.FC<VideoSettingsProps> = ({
     config,
     onConfigChange,
     onStartConversion,
-    disabled = false
+    disabled = false,
+    metadata = null,
+    inputPath = null,
+    applyPreviewEdits
 }) => {
     const [localConfig, setLocalConfig] = useState<VideoSettingsConfig>(config);
+    // Memoized, since every new object restarts the estimate
+    const estimateSettings = useMemo(
+        () => applyPreviewEdits ? applyPreviewEdits(localConfig) : localConfig,
+        [applyPreviewEdits, localConfig]
+    );
     const [isOpen, setIsOpen] = useState(false);
     const [showAdvanced, setShowAdvanced] = useState(false);
     const [useMaxFileSize, setUseMaxFileSize] = useState(false);
 
     const handleSave = () => {
-        onConfigChange(localConfig);
+        // Remember the chosen track's codec so audio copies get the right extension
+        const sourceCodec = metadata?.audioStreams[localConfig.audio.streamIndex]?.codec ?? null;
+        onConfigChange({...localConfig, audio: {...localConfig.audio, sourceCodec}});
         setIsOpen(false);
     };
 
     const handleReset = () => {
-        const defaultConfig: VideoSettingsConfig = {
-            quality: 'medium',
-            resolution: '1080p',
-            bitrate: 5000,
-            preset: 'medium',
-            socialMediaOptimization: false,
-            platform: 'general',
-            enableHardwareAcceleration: true,
-            maxFileSizeMB: 50
-        };
-        setLocalConfig(defaultConfig);
+        setLocalConfig(DEFAULT_VIDEO_SETTINGS);
+    };
+
+    const handleChooseSubtitles = async () => {
+        const result = await window.electronAPI.showOpenDialog({
+            filters: [{ name: 'Subtitles', extensions: SUBTITLE_FILE_EXTENSIONS }]
+        });
+        if (result.success && result.filePath) {
+            setLocalConfig({
+                ...localConfig,
+                subtitles: { ...DEFAULT_SUBTITLE_OPTIONS, ...localConfig.subtitles, path: result.filePath }
+            });
+        }
+    };
+
+    const updateAudio = (changes: Partial<AudioExportOptions>) => {
+        setLocalConfig({...localConfig, audio: {...localConfig.audio, ...changes}});
+    };
+
+    const updateAudioProcessing = (changes: Partial<AudioProcessingOptions>) => {
+        setLocalConfig({...localConfig, audioProcessing: {...localConfig.audioProcessing, ...changes}});
+    };
+
+    const updateAnimation = (changes: Partial<AnimationOptions>) => {
+        setLocalConfig({...localConfig, animation: {...localConfig.animation, ...changes}});
+    };
+
+    // Empty start/end fields fall back to the timeline segments
+    const updateAnimationRange = (edge: 'start' | 'end', value: string) => {
+        const seconds = parseFloat(value);
+        const current = localConfig.animation.range ?? { start: 0, end: 5 };
+        if (isNaN(seconds)) {
+            updateAnimation({ range: null });
+            return;
+        }
+        updateAnimation({ range: { ...current, [edge]: Math.max(0, seconds) } });
+    };
+
+    const updateSubtitles = (changes: Partial<SubtitleOptions>) => {
+        if (localConfig.subtitles) {
+            setLocalConfig({...localConfig, subtitles: {...localConfig.subtitles, ...changes}});
+        }
     };
 
     const qualitySettings = {
@@ -62,6 +169,12 @@ const VideoSettings: React.FC<VideoSettingsProps> = ({
         ultra: { bitrate: 12000, description: 'Maximum quality, largest file size' }
     };
 
+    const encodingModes: Record<VideoSettingsConfig['encodingMode'], { label: string; description: string }> = {
+        crf: { label: 'Constant Quality', description: 'Fixed quality, file size varies' },
+        abr: { label: 'Average Bitrate', description: 'Single pass at a target bitrate' },
+        'two-pass': { label: 'Two-Pass', description: 'Slower, lands on the max file size' }
+    };
+
     const platformSettings = {
         instagram: { maxBitrate: 3500, resolution: '1080p', description: 'High quality, optimized for IG' },
         twitter: { maxBitrate: 2000, resolution: '720p', description: 'Compressed for quick loading' },
@@ -96,6 +209,7 @@ const VideoSettings: React.FC<VideoSettingsProps> = ({
                             <Switch
                                 checked={useMaxFileSize}
                                 onCheckedChange={(checked) => setUseMaxFileSize(checked)}
+                                disabled={localConfig.encodingMode === 'two-pass'}
                             />
                         </div>
                         
@@ -127,6 +241,605 @@ const VideoSettings: React.FC<VideoSettingsProps> = ({
 
                     <Separator />
 
+                    {/* Output Format */}
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                            <Label className="text-base font-medium">Output Format</Label>
+                            <div className="flex items-center gap-2">
+                                <Button
+                                    size="sm"
+                                    variant={localConfig.exportMode === 'video' ? 'default' : 'outline'}
+                                    onClick={() => setLocalConfig({...localConfig, exportMode: 'video'})}
+                                >
+                                    Video
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant={localConfig.exportMode === 'animation' ? 'default' : 'outline'}
+                                    onClick={() => setLocalConfig({...localConfig, exportMode: 'animation'})}
+                                >
+                                    GIF / WebP
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant={localConfig.exportMode === 'audio' ? 'default' : 'outline'}
+                                    onClick={() => setLocalConfig({...localConfig, exportMode: 'audio'})}
+                                >
+                                    Audio Only
+                                </Button>
+                            </div>
+                        </div>
+                        {localConfig.exportMode === 'video' && (
+                            <>
+                                <div className="grid grid-cols-5 gap-2">
+                                    {(Object.keys(VIDEO_CODECS) as VideoCodec[]).map((codec) => (
+                                        <Button
+                                            key={codec}
+                                            variant={localConfig.videoCodec === codec ? 'default' : 'outline'}
+                                            className="flex flex-col items-start p-2 h-auto text-xs"
+                                            onClick={() => setLocalConfig({
+                                                ...localConfig,
+                                                videoCodec: codec,
+                                                // Keep the container if the new codec supports it
+                                                container: SUPPORTED_CONTAINERS[codec].includes(localConfig.container)
+                                                    ? localConfig.container
+                                                    : SUPPORTED_CONTAINERS[codec][0]
+                                            })}
+                                        >
+                                            <span className="font-medium">{VIDEO_CODECS[codec].label}</span>
+                                            <span className="text-xs text-muted-foreground whitespace-normal text-left">{VIDEO_CODECS[codec].description}</span>
+                                        </Button>
+                                    ))}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Label className="text-sm">Container</Label>
+                                    {SUPPORTED_CONTAINERS[localConfig.videoCodec].map((container: VideoContainer) => (
+                                        <Button
+                                            key={container}
+                                            size="sm"
+                                            variant={localConfig.container === container ? 'default' : 'outline'}
+                                            onClick={() => setLocalConfig({...localConfig, container})}
+                                        >
+                                            {VIDEO_CONTAINERS[container].label}
+                                        </Button>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+
+                        {localConfig.exportMode === 'animation' && (
+                            <div className="space-y-3">
+                                <div className="grid grid-cols-2 gap-2">
+                                    {(Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).map((format) => (
+                                        <Button
+                                            key={format}
+                                            variant={localConfig.animation.format === format ? 'default' : 'outline'}
+                                            className="flex flex-col items-start p-2 h-auto text-xs"
+                                            onClick={() => updateAnimation({ format })}
+                                        >
+                                            <span className="font-medium">{ANIMATION_FORMATS[format].label}</span>
+                                            <span className="text-xs text-muted-foreground whitespace-normal text-left">{ANIMATION_FORMATS[format].description}</span>
+                                        </Button>
+                                    ))}
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="text-sm font-medium">Frame Rate: {localConfig.animation.fps} fps</Label>
+                                    <Slider
+                                        value={[localConfig.animation.fps]}
+                                        onValueChange={([value]) => updateAnimation({ fps: value })}
+                                        max={30}
+                                        min={5}
+                                        step={1}
+                                        className="w-full"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="text-sm font-medium">Width: {localConfig.animation.width}px</Label>
+                                    <Slider
+                                        value={[localConfig.animation.width]}
+                                        onValueChange={([value]) => updateAnimation({ width: value })}
+                                        max={1280}
+                                        min={160}
+                                        step={20}
+                                        className="w-full"
+                                    />
+                                </div>
+                                {localConfig.animation.format === 'gif' && (
+                                    <div className="flex items-center gap-2">
+                                        <Label className="text-sm">Dithering</Label>
+                                        {(Object.keys(GIF_DITHER_MODES) as GifDither[]).map((dither) => (
+                                            <Button
+                                                key={dither}
+                                                size="sm"
+                                                variant={localConfig.animation.dither === dither ? 'default' : 'outline'}
+                                                onClick={() => updateAnimation({ dither })}
+                                            >
+                                                {GIF_DITHER_MODES[dither]}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                )}
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div className="space-y-1">
+                                        <Label className="text-sm">Loops (0 = forever)</Label>
+                                        <Input
+                                            type="number"
+                                            min={0}
+                                            value={localConfig.animation.loop}
+                                            onChange={(e) => updateAnimation({ loop: Math.max(0, parseInt(e.target.value) || 0) })}
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label className="text-sm">Max size in MB (0 = off)</Label>
+                                        <Input
+                                            type="number"
+                                            min={0}
+                                            step={0.5}
+                                            value={localConfig.animation.maxFileSizeMB}
+                                            onChange={(e) => updateAnimation({ maxFileSizeMB: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label className="text-sm">Start (seconds)</Label>
+                                        <Input
+                                            type="number"
+                                            min={0}
+                                            step={0.1}
+                                            placeholder="Timeline"
+                                            value={localConfig.animation.range?.start ?? ''}
+                                            onChange={(e) => updateAnimationRange('start', e.target.value)}
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label className="text-sm">End (seconds)</Label>
+                                        <Input
+                                            type="number"
+                                            min={0}
+                                            step={0.1}
+                                            placeholder="Timeline"
+                                            value={localConfig.animation.range?.end ?? ''}
+                                            onChange={(e) => updateAnimationRange('end', e.target.value)}
+                                        />
+                                    </div>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    Leave start and end empty to use the segments selected on the timeline.
+                                </p>
+                            </div>
+                        )}
+
+                        {localConfig.exportMode === 'audio' && (
+                            <div className="space-y-3">
+                                <div className="grid grid-cols-3 gap-2">
+                                    {(Object.keys(AUDIO_FORMATS) as AudioFormat[]).map((format) => (
+                                        <Button
+                                            key={format}
+                                            size="sm"
+                                            variant={localConfig.audio.format === format ? 'default' : 'outline'}
+                                            onClick={() => updateAudio({ format })}
+                                        >
+                                            {AUDIO_FORMATS[format].label}
+                                        </Button>
+                                    ))}
+                                </div>
+
+                                {metadata && metadata.audioStreams.length > 1 && (
+                                    <div className="space-y-1">
+                                        <Label className="text-sm">Audio Stream</Label>
+                                        {metadata.audioStreams.map((stream) => (
+                                            <Button
+                                                key={stream.index}
+                                                size="sm"
+                                                variant={localConfig.audio.streamIndex === stream.index ? 'default' : 'outline'}
+                                                className="w-full justify-start"
+                                                onClick={() => updateAudio({ streamIndex: stream.index })}
+                                            >
+                                                #{stream.index + 1} {stream.title ?? stream.language ?? ''} · {stream.codec} · {stream.channelLayout || `${stream.channels} ch`} · {stream.sampleRate / 1000} kHz
+                                            </Button>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {localConfig.audio.format === 'copy' ? (
+                                    <p className="text-xs text-muted-foreground">
+                                        The track is copied without re-encoding, so bitrate, sample rate and channels stay as they are.
+                                    </p>
+                                ) : (
+                                    <>
+                                        {AUDIO_FORMATS[localConfig.audio.format].lossy && (
+                                            <div className="flex items-center gap-2">
+                                                <Label className="text-sm">Bitrate</Label>
+                                                {[96, 128, 192, 256, 320].map((bitrate) => (
+                                                    <Button
+                                                        key={bitrate}
+                                                        size="sm"
+                                                        variant={localConfig.audio.bitrate === bitrate ? 'default' : 'outline'}
+                                                        onClick={() => updateAudio({ bitrate })}
+                                                    >
+                                                        {bitrate}k
+                                                    </Button>
+                                                ))}
+                                            </div>
+                                        )}
+                                        {localConfig.audio.format !== 'opus' && (
+                                            <div className="flex items-center gap-2">
+                                                <Label className="text-sm">Sample Rate</Label>
+                                                {[null, 44100, 48000].map((sampleRate) => (
+                                                    <Button
+                                                        key={sampleRate ?? 'source'}
+                                                        size="sm"
+                                                        variant={localConfig.audio.sampleRate === sampleRate ? 'default' : 'outline'}
+                                                        onClick={() => updateAudio({ sampleRate })}
+                                                    >
+                                                        {sampleRate ? `${sampleRate / 1000} kHz` : 'Source'}
+                                                    </Button>
+                                                ))}
+                                            </div>
+                                        )}
+                                        <div className="flex items-center gap-2">
+                                            <Label className="text-sm">Channels</Label>
+                                            {[null, 1, 2].map((channels) => (
+                                                <Button
+                                                    key={channels ?? 'source'}
+                                                    size="sm"
+                                                    variant={localConfig.audio.channels === channels ? 'default' : 'outline'}
+                                                    onClick={() => updateAudio({ channels })}
+                                                >
+                                                    {channels === null ? 'Source' : channels === 1 ? 'Mono' : 'Stereo'}
+                                                </Button>
+                                            ))}
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    <Separator />
+
+                    {/* Reframe */}
+                    <div className="space-y-3">
+                        <Label className="text-base font-medium">Aspect Ratio</Label>
+                        <div className="grid grid-cols-5 gap-2">
+                            <Button
+                                variant={localConfig.reframe.aspectRatio === 'original' ? 'default' : 'outline'}
+                                className="flex flex-col items-start p-2 h-auto text-xs"
+                                onClick={() => setLocalConfig({...localConfig, reframe: {...localConfig.reframe, aspectRatio: 'original'}})}
+                            >
+                                <span className="font-medium">Original</span>
+                                <span className="text-xs text-muted-foreground whitespace-normal text-left">Keep the source frame</span>
+                            </Button>
+                            {(Object.keys(ASPECT_RATIOS) as AspectRatio[]).map((aspectRatio) => (
+                                <Button
+                                    key={aspectRatio}
+                                    variant={localConfig.reframe.aspectRatio === aspectRatio ? 'default' : 'outline'}
+                                    className="flex flex-col items-start p-2 h-auto text-xs"
+                                    onClick={() => setLocalConfig({...localConfig, reframe: {...localConfig.reframe, aspectRatio}})}
+                                >
+                                    <span className="font-medium">{ASPECT_RATIOS[aspectRatio].label}</span>
+                                    <span className="text-xs text-muted-foreground whitespace-normal text-left">{ASPECT_RATIOS[aspectRatio].description}</span>
+                                </Button>
+                            ))}
+                        </div>
+
+                        {localConfig.reframe.aspectRatio !== 'original' && (
+                            <div className="flex items-center gap-2">
+                                <Label className="text-sm">Fit</Label>
+                                {(Object.keys(REFRAME_MODES) as ReframeMode[]).map((mode) => (
+                                    <Button
+                                        key={mode}
+                                        size="sm"
+                                        variant={localConfig.reframe.mode === mode ? 'default' : 'outline'}
+                                        title={REFRAME_MODES[mode].description}
+                                        onClick={() => setLocalConfig({...localConfig, reframe: {...localConfig.reframe, mode}})}
+                                    >
+                                        {REFRAME_MODES[mode].label}
+                                    </Button>
+                                ))}
+                                {localConfig.reframe.mode === 'pad' && (
+                                    <input
+                                        type="color"
+                                        value={localConfig.reframe.padColor}
+                                        onChange={(e) => setLocalConfig({...localConfig, reframe: {...localConfig.reframe, padColor: e.target.value}})}
+                                        className="w-8 h-8 rounded cursor-pointer border border-gray-300 dark:border-gray-600"
+                                    />
+                                )}
+                            </div>
+                        )}
+                        {localConfig.reframe.aspectRatio !== 'original' && localConfig.reframe.mode === 'crop' && (
+                            <p className="text-xs text-muted-foreground">
+                                Drag the crop box on the preview to position the frame.
+                            </p>
+                        )}
+                    </div>
+
+                    <Separator />
+
+                    {/* HDR */}
+                    {localConfig.exportMode === 'video' && (
+                        <>
+                            <div className="space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <Label className="text-base font-medium">HDR</Label>
+                                    <span className="text-xs text-muted-foreground">
+                                        {metadata?.hdr ? `Source is ${metadata.hdr.toUpperCase()}` : 'Source is SDR'}
+                                    </span>
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {(Object.keys(HDR_MODES) as HdrMode[]).map((hdrMode) => (
+                                        <Button
+                                            key={hdrMode}
+                                            variant={localConfig.hdrMode === hdrMode ? 'default' : 'outline'}
+                                            className="flex flex-col items-start p-2 h-auto text-xs"
+                                            onClick={() => setLocalConfig({
+                                                ...localConfig,
+                                                hdrMode,
+                                                // HDR is only kept in 10-bit HEVC
+                                                ...(hdrMode === 'preserve' ? {
+                                                    videoCodec: 'hevc' as VideoCodec,
+                                                    container: SUPPORTED_CONTAINERS.hevc.includes(localConfig.container)
+                                                        ? localConfig.container
+                                                        : SUPPORTED_CONTAINERS.hevc[0]
+                                                } : {})
+                                            })}
+                                        >
+                                            <span className="font-medium">{HDR_MODES[hdrMode].label}</span>
+                                            <span className="text-xs text-muted-foreground whitespace-normal text-left">{HDR_MODES[hdrMode].description}</span>
+                                        </Button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <Separator />
+                        </>
+                    )}
+
+                    {/* Subtitles */}
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                            <Label className="text-base font-medium">Subtitles</Label>
+                            <div className="flex items-center gap-2">
+                                {localConfig.subtitles && (
+                                    <span className="text-sm text-muted-foreground truncate max-w-[200px]">
+                                        {getFileName(localConfig.subtitles.path)}
+                                    </span>
+                                )}
+                                <Button size="sm" variant="outline" onClick={handleChooseSubtitles}>
+                                    {localConfig.subtitles ? 'Change' : 'Add SRT/VTT'}
+                                </Button>
+                                {localConfig.subtitles && (
+                                    <Button size="sm" variant="ghost" onClick={() => setLocalConfig({...localConfig, subtitles: null})}>
+                                        <Cross2Icon className="w-4 h-4" />
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+
+                        {localConfig.subtitles && (
+                            <div className="space-y-3">
+                                <div className="flex items-center gap-2">
+                                    <Button
+                                        size="sm"
+                                        variant={localConfig.subtitles.mode === 'burn' ? 'default' : 'outline'}
+                                        onClick={() => updateSubtitles({ mode: 'burn' })}
+                                    >
+                                        Burn In
+                                    </Button>
+                                    <Button
+                                        size="sm"
+                                        variant={localConfig.subtitles.mode === 'soft' ? 'default' : 'outline'}
+                                        onClick={() => updateSubtitles({ mode: 'soft' })}
+                                    >
+                                        Soft Track
+                                    </Button>
+                                </div>
+
+                                {localConfig.subtitles.mode === 'burn' && (
+                                    <>
+                                        <FontFamilyPicker
+                                            attribute="fontFamily"
+                                            currentFont={localConfig.subtitles.fontFamily}
+                                            handleAttributeChange={(_, value) => updateSubtitles({ fontFamily: value })}
+                                            userId=""
+                                        />
+                                        <div className="space-y-2">
+                                            <Label className="text-sm">Colour</Label>
+                                            <div className="flex flex-wrap gap-1">
+                                                {colors.map((color) => (
+                                                    <div
+                                                        key={color}
+                                                        style={{ background: color }}
+                                                        className={`rounded-md h-6 w-6 cursor-pointer border ${
+                                                            localConfig.subtitles?.color === color ? 'ring-2 ring-blue-500' : 'border-gray-300'
+                                                        }`}
+                                                        onClick={() => updateSubtitles({ color })}
+                                                    />
+                                                ))}
+                                            </div>
+                                        </div>
+                                        <div className="space-y-2">
+                                            <Label className="text-sm font-medium">
+                                                Text Size: {localConfig.subtitles.fontSize}% of frame height
+                                            </Label>
+                                            <Slider
+                                                value={[localConfig.subtitles.fontSize]}
+                                                onValueChange={([value]) => updateSubtitles({ fontSize: value })}
+                                                max={12}
+                                                min={2}
+                                                step={0.5}
+                                                className="w-full"
+                                            />
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <Label className="text-sm">Position</Label>
+                                            {(['bottom', 'top'] as const).map((position) => (
+                                                <Button
+                                                    key={position}
+                                                    size="sm"
+                                                    variant={localConfig.subtitles?.position === position ? 'default' : 'outline'}
+                                                    className="capitalize"
+                                                    onClick={() => updateSubtitles({ position })}
+                                                >
+                                                    {position}
+                                                </Button>
+                                            ))}
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    <Separator />
+
+                    {/* Overlays */}
+                    <div className="space-y-3">
+                        <Label className="text-base font-medium">Text & Logo Overlays</Label>
+                        <OverlayEditor
+                            overlays={localConfig.overlays}
+                            onOverlaysChange={(overlays) => setLocalConfig({...localConfig, overlays})}
+                        />
+                    </div>
+
+                    <Separator />
+
+                    {/* Audio Processing */}
+                    {localConfig.exportMode !== 'animation' && (
+                        <div className="space-y-3">
+                            <Label className="text-base font-medium">Audio</Label>
+                            {localConfig.exportMode === 'video' && (
+                                <div className="flex items-center justify-between">
+                                    <Label className="text-sm">Mute</Label>
+                                    <Switch
+                                        checked={localConfig.audioProcessing.mute}
+                                        onCheckedChange={(mute) => updateAudioProcessing({ mute })}
+                                    />
+                                </div>
+                            )}
+
+                            {!localConfig.audioProcessing.mute && (
+                                <>
+                                    <div className="flex items-center justify-between">
+                                        <div>
+                                            <Label className="text-sm">Normalize Loudness</Label>
+                                            <p className="text-xs text-muted-foreground">
+                                                Two-pass EBU R128, targets {localConfig.audioProcessing.targetLufs ?? LOUDNESS_TARGETS[localConfig.platform].integrated} LUFS
+                                            </p>
+                                        </div>
+                                        <Switch
+                                            checked={localConfig.audioProcessing.normalize}
+                                            onCheckedChange={(normalize) => updateAudioProcessing({ normalize })}
+                                        />
+                                    </div>
+
+                                    {localConfig.audioProcessing.normalize && (
+                                        <div className="flex items-center gap-2">
+                                            <Label className="text-sm">Target</Label>
+                                            {[null, -23, -16, -14].map((targetLufs) => (
+                                                <Button
+                                                    key={targetLufs ?? 'platform'}
+                                                    size="sm"
+                                                    variant={localConfig.audioProcessing.targetLufs === targetLufs ? 'default' : 'outline'}
+                                                    onClick={() => updateAudioProcessing({ targetLufs })}
+                                                >
+                                                    {targetLufs === null ? 'Platform' : `${targetLufs} LUFS`}
+                                                </Button>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    {!localConfig.audioProcessing.normalize && (
+                                        <div className="space-y-2">
+                                            <Label className="text-sm">
+                                                Gain: {localConfig.audioProcessing.gainDb > 0 ? '+' : ''}{localConfig.audioProcessing.gainDb} dB
+                                            </Label>
+                                            <Slider
+                                                value={[localConfig.audioProcessing.gainDb]}
+                                                onValueChange={([gainDb]) => updateAudioProcessing({ gainDb })}
+                                                min={-20}
+                                                max={20}
+                                                step={1}
+                                                className="w-full"
+                                            />
+                                        </div>
+                                    )}
+
+                                    <div className="flex items-center gap-2">
+                                        <Label className="text-sm">High-pass</Label>
+                                        {[0, 80, 120].map((highpassHz) => (
+                                            <Button
+                                                key={highpassHz}
+                                                size="sm"
+                                                variant={localConfig.audioProcessing.highpassHz === highpassHz ? 'default' : 'outline'}
+                                                onClick={() => updateAudioProcessing({ highpassHz })}
+                                            >
+                                                {highpassHz === 0 ? 'Off' : `${highpassHz} Hz`}
+                                            </Button>
+                                        ))}
+                                    </div>
+
+                                    <div className="flex items-center justify-between">
+                                        <Label className="text-sm">Noise Reduction</Label>
+                                        <Switch
+                                            checked={localConfig.audioProcessing.denoise}
+                                            onCheckedChange={(denoise) => updateAudioProcessing({ denoise })}
+                                        />
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    )}
+
+                    <Separator />
+
+                    {/* Encoding Mode */}
+                    {localConfig.exportMode === 'video' && (
+                        <div className="space-y-3">
+                            <Label className="text-base font-medium">Encoding Mode</Label>
+                            <div className="grid grid-cols-3 gap-2">
+                                {(Object.keys(encodingModes) as Array<VideoSettingsConfig['encodingMode']>).map((key) => (
+                                    <Button
+                                        key={key}
+                                        variant={localConfig.encodingMode === key ? 'default' : 'outline'}
+                                        className="flex flex-col items-start p-2 h-auto text-xs"
+                                        onClick={() => {
+                                            setLocalConfig({...localConfig, encodingMode: key});
+                                            // Two-pass always targets the max file size
+                                            if (key === 'two-pass') {
+                                                setUseMaxFileSize(true);
+                                            }
+                                        }}
+                                    >
+                                        <span className="font-medium">{encodingModes[key].label}</span>
+                                        <span className="text-xs text-muted-foreground whitespace-normal text-left">{encodingModes[key].description}</span>
+                                    </Button>
+                                ))}
+                            </div>
+
+                            {localConfig.encodingMode === 'crf' && (
+                                <div className="space-y-2">
+                                    <Label className="text-sm font-medium">
+                                        Quality (CRF): {localConfig.crf}
+                                    </Label>
+                                    <Slider
+                                        value={[localConfig.crf]}
+                                        onValueChange={([value]) => setLocalConfig({...localConfig, crf: value})}
+                                        max={35}
+                                        min={15}
+                                        step={1}
+                                        className="w-full"
+                                    />
+                                    <div className="flex justify-between text-xs text-muted-foreground">
+                                        <span>Best quality</span>
+                                        <span>Smallest file</span>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <Separator />
+
                     {/* Social Media Optimization */}
                     <div className="space-y-3">
                         <div className="flex items-center justify-between">
@@ -249,6 +962,21 @@ const VideoSettings: React.FC<VideoSettingsProps> = ({
                                     </div>
                                 </div>
 
+                                {/* Stream Copy Trimming */}
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <Label className="text-sm font-medium">Fast Trim</Label>
+                                        <p className="text-xs text-muted-foreground">Skip re-encoding when cuts land on keyframes and no size limit or scaling applies</p>
+                                    </div>
+                                    <Switch
+                                        checked={localConfig.preferStreamCopy}
+                                        onCheckedChange={(checked) => setLocalConfig({
+                                            ...localConfig,
+                                            preferStreamCopy: checked
+                                        })}
+                                    />
+                                </div>
+
                                 {/* Hardware Acceleration */}
                                 <div className="flex items-center justify-between">
                                     <div>
@@ -268,6 +996,12 @@ const VideoSettings: React.FC<VideoSettingsProps> = ({
                     </div>
                 </div>
 
+                {inputPath && (
+                    <div className="pt-6">
+                        <OutputEstimatePanel inputPath={inputPath} settings={estimateSettings} />
+                    </div>
+                )}
+
                 <div className="flex justify-center gap-3 pt-6">
                     <Button variant="outline" onClick={handleReset} className="min-w-[120px]">
                         Reset to Default
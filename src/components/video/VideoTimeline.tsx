@@ -0,0 +1,177 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { PlusIcon, TrashIcon, ResetIcon } from '@radix-ui/react-icons';
+import { TimeRange } from '@/preload/preload';
+
+interface VideoTimelineProps {
+    duration: number;
+    segments: TimeRange[];
+    onSegmentsChange: (segments: TimeRange[]) => void;
+    currentTime: number;
+    onSeek: (time: number) => void;
+}
+
+// Shortest segment the handles can be squeezed to, in seconds
+const MIN_SEGMENT_LENGTH = 0.1;
+const DEFAULT_SEGMENT_LENGTH = 5;
+
+export const formatTimecode = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainder = seconds - minutes * 60;
+    return `${minutes}:${remainder.toFixed(1).padStart(4, '0')}`;
+};
+
+const VideoTimeline: React.FC<VideoTimelineProps> = ({
+    duration,
+    segments,
+    onSegmentsChange,
+    currentTime,
+    onSeek
+}) => {
+    const trackRef = useRef<HTMLDivElement>(null);
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+    const [dragging, setDragging] = useState<{ index: number; edge: 'start' | 'end' } | null>(null);
+
+    const timeFromClientX = useCallback((clientX: number) => {
+        const rect = trackRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0) return 0;
+        const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+        return ratio * duration;
+    }, [duration]);
+
+    const updateSegment = useCallback((index: number, edge: 'start' | 'end', time: number) => {
+        const segment = segments[index];
+        const previousEnd = index > 0 ? segments[index - 1].end : 0;
+        const nextStart = index < segments.length - 1 ? segments[index + 1].start : duration;
+
+        // Handles can't cross each other or the neighbouring segments
+        const updated = edge === 'start'
+            ? { ...segment, start: Math.min(Math.max(time, previousEnd), segment.end - MIN_SEGMENT_LENGTH) }
+            : { ...segment, end: Math.max(Math.min(time, nextStart), segment.start + MIN_SEGMENT_LENGTH) };
+
+        onSegmentsChange(segments.map((existing, i) => i === index ? updated : existing));
+        return edge === 'start' ? updated.start : updated.end;
+    }, [segments, duration, onSegmentsChange]);
+
+    const handlePointerDown = (index: number, edge: 'start' | 'end') => (e: React.PointerEvent) => {
+        e.stopPropagation();
+        (e.target as HTMLElement).setPointerCapture(e.pointerId);
+        setSelectedIndex(index);
+        setDragging({ index, edge });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!dragging) return;
+        const time = updateSegment(dragging.index, dragging.edge, timeFromClientX(e.clientX));
+        onSeek(time);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        if (!dragging) return;
+        (e.target as HTMLElement).releasePointerCapture(e.pointerId);
+        setDragging(null);
+    };
+
+    const handleAddSegment = () => {
+        const start = Math.min(currentTime, Math.max(0, duration - MIN_SEGMENT_LENGTH));
+        if (segments.some((segment) => start >= segment.start && start < segment.end)) {
+            return;
+        }
+
+        const nextStart = segments.find((segment) => segment.start > start)?.start ?? duration;
+        const newSegment = { start, end: Math.min(start + DEFAULT_SEGMENT_LENGTH, nextStart) };
+        const updated = [...segments, newSegment].sort((a, b) => a.start - b.start);
+        onSegmentsChange(updated);
+        setSelectedIndex(updated.indexOf(newSegment));
+    };
+
+    const handleSetEdge = (edge: 'start' | 'end') => {
+        if (selectedIndex === null || !segments[selectedIndex]) return;
+        updateSegment(selectedIndex, edge, currentTime);
+    };
+
+    const handleRemoveSegment = () => {
+        if (selectedIndex === null) return;
+        onSegmentsChange(segments.filter((_, i) => i !== selectedIndex));
+        setSelectedIndex(null);
+    };
+
+    const keptDuration = segments.length > 0
+        ? segments.reduce((total, segment) => total + segment.end - segment.start, 0)
+        : duration;
+
+    const toPercent = (time: number) => `${duration > 0 ? (time / duration) * 100 : 0}%`;
+
+    return (
+        <div className="w-full space-y-2">
+            <div
+                ref={trackRef}
+                className="relative h-10 bg-gray-200 dark:bg-gray-700 rounded cursor-pointer select-none"
+                onPointerDown={(e) => onSeek(timeFromClientX(e.clientX))}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+            >
+                {segments.length === 0 && (
+                    <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-500 dark:text-gray-400">
+                        Full video
+                    </div>
+                )}
+
+                {segments.map((segment, index) => (
+                    <div
+                        key={index}
+                        className={`absolute top-0 bottom-0 rounded ${
+                            selectedIndex === index ? 'bg-blue-500/60' : 'bg-blue-400/40'
+                        }`}
+                        style={{ left: toPercent(segment.start), width: toPercent(segment.end - segment.start) }}
+                        onPointerDown={(e) => {
+                            e.stopPropagation();
+                            setSelectedIndex(index);
+                            onSeek(timeFromClientX(e.clientX));
+                        }}
+                    >
+                        <div
+                            className="absolute left-0 top-0 bottom-0 w-2 bg-blue-600 rounded-l cursor-ew-resize"
+                            onPointerDown={handlePointerDown(index, 'start')}
+                        />
+                        <div
+                            className="absolute right-0 top-0 bottom-0 w-2 bg-blue-600 rounded-r cursor-ew-resize"
+                            onPointerDown={handlePointerDown(index, 'end')}
+                        />
+                    </div>
+                ))}
+
+                <div
+                    className="absolute top-0 bottom-0 w-0.5 bg-red-500 pointer-events-none"
+                    style={{ left: toPercent(currentTime) }}
+                />
+            </div>
+
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                <span>{formatTimecode(currentTime)}</span>
+                <span>Keeping {formatTimecode(keptDuration)} of {formatTimecode(duration)}</span>
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+                <Button size="sm" variant="outline" onClick={handleAddSegment}>
+                    <PlusIcon className="w-3 h-3 mr-1" />
+                    Segment
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleSetEdge('start')} disabled={selectedIndex === null}>
+                    In
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleSetEdge('end')} disabled={selectedIndex === null}>
+                    Out
+                </Button>
+                <Button size="sm" variant="ghost" onClick={handleRemoveSegment} disabled={selectedIndex === null}>
+                    <TrashIcon className="w-3 h-3" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => { onSegmentsChange([]); setSelectedIndex(null); }} disabled={segments.length === 0}>
+                    <ResetIcon className="w-3 h-3" />
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+export default VideoTimeline;
@@ -1,19 +1,50 @@
 import React, { useCallback, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { ReloadIcon, UploadIcon, PlayIcon } from '@radix-ui/react-icons';
+import { getFileExtension } from '@/lib/video-utils';
+import { VIDEO_FILE_EXTENSIONS } from '@/constants/formats';
+import { VideoMetadata } from '@/preload/preload';
+import { SelectedVideo } from '@/types';
+import MediaDetails from './MediaDetails';
+import FramePicker from './FramePicker';
 
 interface VideoUploadProps {
-    onVideoSelect: (file: File) => void;
+    // fileName is the name to show when it differs from the file on disk
+    onVideoSelect: (filePath: string, fileName?: string) => void;
+    onBatchSelect?: (filePaths: string[]) => void;
     isProcessing: boolean;
-    selectedVideo: File | null;
+    selectedVideo: SelectedVideo | null;
     thumbnailUrl: string | null;
+    metadata?: VideoMetadata | null;
+    // The selected video on disk, needed to extract frames
+    filePath?: string;
+    onThumbnailChange?: (url: string) => void;
 }
 
+/**
+ * Path of a dropped file. Files dragged in from outside the file system,
+ * e.g. from a browser, have none and are copied to the temp dir instead.
+ */
+const resolveDroppedFile = async (file: File): Promise<string> => {
+    const filePath = window.electronAPI.getPathForFile(file);
+    if (filePath) {
+        return filePath;
+    }
+    const tempDir = await window.electronAPI.getTempDir();
+    const tempPath = `${tempDir}/video_${Date.now()}.${getFileExtension(file.name) || 'mp4'}`;
+    await window.electronAPI.writeFile(tempPath, new Uint8Array(await file.arrayBuffer()));
+    return tempPath;
+};
+
 const VideoUpload: React.FC<VideoUploadProps> = ({
     onVideoSelect,
+    onBatchSelect,
     isProcessing,
     selectedVideo,
-    thumbnailUrl
+    thumbnailUrl,
+    metadata = null,
+    filePath = '',
+    onThumbnailChange
 }) => {
     const [isDragOver, setIsDragOver] = useState(false);
 
@@ -21,16 +52,12 @@ const VideoUpload: React.FC<VideoUploadProps> = ({
         try {
             const result = await window.electronAPI.showOpenDialog({
                 filters: [
-                    { name: 'Video Files', extensions: ['mp4', 'avi', 'mov', 'mkv', 'webm', 'flv', 'wmv', 'm4v', 'hevc', 'h265'] }
+                    { name: 'Video Files', extensions: VIDEO_FILE_EXTENSIONS }
                 ]
             });
             
             if (result.success && result.filePath) {
-                const file = new File([await fetch(`file://${result.filePath}`).then(r => r.blob())], 
-                    result.filePath.split('/').pop() || 'video', 
-                    { type: 'video/mp4' }
-                );
-                onVideoSelect(file);
+                onVideoSelect(result.filePath);
             }
         } catch (error) {
             console.error('Error selecting video:', error);
@@ -52,12 +79,19 @@ const VideoUpload: React.FC<VideoUploadProps> = ({
         setIsDragOver(false);
 
         const files = Array.from(e.dataTransfer.files);
-        const videoFile = files.find(file => file.type.startsWith('video/'));
+        const videoFiles = files.filter(file => file.type.startsWith('video/'));
         
-        if (videoFile) {
-            onVideoSelect(videoFile);
+        try {
+            // Several videos at once go to the batch queue instead of the single-file flow
+            if (videoFiles.length > 1 && onBatchSelect) {
+                onBatchSelect(await Promise.all(videoFiles.map(resolveDroppedFile)));
+            } else if (videoFiles.length > 0) {
+                onVideoSelect(await resolveDroppedFile(videoFiles[0]), videoFiles[0].name);
+            }
+        } catch (error) {
+            console.error('Error reading dropped video:', error);
         }
-    }, [onVideoSelect]);
+    }, [onVideoSelect, onBatchSelect]);
 
     return (
         <div className="w-full h-full flex flex-col">
@@ -116,15 +150,30 @@ const VideoUpload: React.FC<VideoUploadProps> = ({
                             </p>
                         </div>
 
-                        <Button
-                            onClick={handleFileSelect}
-                            variant="outline"
-                            className="mt-4"
-                            disabled={isProcessing}
-                        >
-                            <UploadIcon className="w-4 h-4 mr-2" />
-                            Choose Different Video
-                        </Button>
+                        {metadata && (
+                            <div className="mt-3 w-full max-h-40 overflow-y-auto">
+                                <MediaDetails metadata={metadata} />
+                            </div>
+                        )}
+
+                        <div className="mt-4 flex gap-2">
+                            <Button
+                                onClick={handleFileSelect}
+                                variant="outline"
+                                size="sm"
+                                disabled={isProcessing}
+                            >
+                                <UploadIcon className="w-4 h-4 mr-2" />
+                                Choose Different Video
+                            </Button>
+                            {metadata && filePath && (
+                                <FramePicker
+                                    filePath={filePath}
+                                    metadata={metadata}
+                                    onUseAsThumbnail={onThumbnailChange}
+                                />
+                            )}
+                        </div>
                     </div>
                 ) : (
                     <div className="h-full flex flex-col items-center justify-center text-center">
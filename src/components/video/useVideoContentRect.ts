@@ -0,0 +1,40 @@
+import { RefObject, useEffect, useState } from 'react';
+
+export interface ContentRect {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Where an object-contain video actually draws its frame inside `ref`, which
+ * should cover the video element. Null until both sizes are known.
+ */
+export function useVideoContentRect(
+    ref: RefObject<HTMLElement | null>,
+    frameWidth: number,
+    frameHeight: number
+): ContentRect | null {
+    const [size, setSize] = useState({ width: 0, height: 0 });
+
+    useEffect(() => {
+        const element = ref.current;
+        if (!element) return;
+
+        const observer = new ResizeObserver(([entry]) => {
+            setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [ref]);
+
+    if (frameWidth === 0 || frameHeight === 0 || size.width === 0 || size.height === 0) {
+        return null;
+    }
+
+    const frameRatio = frameWidth / frameHeight;
+    const width = Math.min(size.width, size.height * frameRatio);
+    const height = Math.min(size.height, size.width / frameRatio);
+    return { left: (size.width - width) / 2, top: (size.height - height) / 2, width, height };
+}
@@ -38,4 +38,19 @@ export const ALL_FONTS = [
 ]
 
 // For backwards compatibility
-export const FREE_FONTS = ALL_FONTS;
\ No newline at end of file
+export const FREE_FONTS = ALL_FONTS;
+
+// Scheme the main process serves font files on, see src/main/fontManager.ts
+export const FONT_PROTOCOL = 'subclip-font';
+
+// Font files users can import into brand kits
+export const IMPORTED_FONT_EXTENSIONS = ['ttf', 'otf', 'woff2'];
+
+// Rounds to the nearest weight a font file can exist for
+export function normalizeFontWeight(weight: number): number {
+    return Math.min(900, Math.max(100, Math.round((weight || 400) / 100) * 100));
+}
+
+export function getFontUrl(family: string, weight: number = 400): string {
+    return `${FONT_PROTOCOL}://font/${encodeURIComponent(family)}/${normalizeFontWeight(weight)}`;
+}
@@ -0,0 +1,157 @@
+// Output codecs and containers shared by the settings UI and the main-process encoder
+export type VideoCodec = 'h264' | 'hevc' | 'vp9' | 'av1' | 'prores';
+export type VideoContainer = 'mp4' | 'webm' | 'mkv' | 'mov';
+export type AudioEncoder = 'aac' | 'libopus' | 'pcm_s16le';
+
+// What the open dialogs offer, and what project files may point at
+export const VIDEO_FILE_EXTENSIONS = ['mp4', 'avi', 'mov', 'mkv', 'webm', 'flv', 'wmv', 'm4v', 'hevc', 'h265'];
+export const IMAGE_FILE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+
+export const VIDEO_CODECS: Record<VideoCodec, { label: string; encoder: string; description: string }> = {
+    h264: { label: 'H.264', encoder: 'libx264', description: 'Plays everywhere' },
+    hevc: { label: 'HEVC', encoder: 'libx265', description: 'Smaller files, Apple friendly' },
+    vp9: { label: 'VP9', encoder: 'libvpx-vp9', description: 'Open format for the web' },
+    av1: { label: 'AV1', encoder: 'libaom-av1', description: 'Best compression, slow' },
+    prores: { label: 'ProRes', encoder: 'prores_ks', description: 'Editing intermediate' }
+};
+
+export const VIDEO_CONTAINERS: Record<VideoContainer, { label: string; extension: string; mimeName: string }> = {
+    mp4: { label: 'MP4', extension: 'mp4', mimeName: 'MP4 Videos' },
+    webm: { label: 'WebM', extension: 'webm', mimeName: 'WebM Videos' },
+    mkv: { label: 'MKV', extension: 'mkv', mimeName: 'Matroska Videos' },
+    mov: { label: 'MOV', extension: 'mov', mimeName: 'QuickTime Movies' }
+};
+
+// Containers each codec may be written to, the first one is the default
+export const SUPPORTED_CONTAINERS: Record<VideoCodec, VideoContainer[]> = {
+    h264: ['mp4', 'mov', 'mkv'],
+    hevc: ['mp4', 'mov', 'mkv'],
+    vp9: ['webm', 'mkv'],
+    av1: ['mkv', 'mp4', 'webm'],
+    prores: ['mov']
+};
+
+export function isSupportedFormat(videoCodec: VideoCodec, container: VideoContainer): boolean {
+    return SUPPORTED_CONTAINERS[videoCodec]?.includes(container) ?? false;
+}
+
+/**
+ * Audio codec that pairs with a codec/container combination: PCM for ProRes
+ * intermediates, Opus for WebM and AV1, AAC for everything else.
+ */
+export function getAudioEncoder(videoCodec: VideoCodec, container: VideoContainer): AudioEncoder {
+    if (videoCodec === 'prores') {
+        return 'pcm_s16le';
+    }
+    if (container === 'webm' || videoCodec === 'av1') {
+        return 'libopus';
+    }
+    return 'aac';
+}
+
+export function getContainerExtension(container: VideoContainer): string {
+    return VIDEO_CONTAINERS[container]?.extension ?? 'mp4';
+}
+
+// Target frame shapes for reframing, width:height
+export type AspectRatio = '9:16' | '1:1' | '4:5' | '16:9';
+export type ReframeMode = 'crop' | 'pad' | 'blur';
+
+export const ASPECT_RATIOS: Record<AspectRatio, { label: string; ratio: number; description: string }> = {
+    '9:16': { label: '9:16', ratio: 9 / 16, description: 'Reels, Shorts, TikTok' },
+    '1:1': { label: '1:1', ratio: 1, description: 'Square feed posts' },
+    '4:5': { label: '4:5', ratio: 4 / 5, description: 'Portrait feed posts' },
+    '16:9': { label: '16:9', ratio: 16 / 9, description: 'YouTube, landscape' }
+};
+
+export const REFRAME_MODES: Record<ReframeMode, { label: string; description: string }> = {
+    crop: { label: 'Crop', description: 'Cut the frame to fit' },
+    pad: { label: 'Pad', description: 'Letterbox with a colour' },
+    blur: { label: 'Blur', description: 'Blurred copy behind' }
+};
+
+// What happens to HDR sources: tone map when detected, convert every source to
+// BT.709 SDR, or keep HDR as 10-bit HEVC
+export type HdrMode = 'auto' | 'tonemap' | 'preserve';
+
+export const HDR_MODES: Record<HdrMode, { label: string; description: string }> = {
+    auto: { label: 'Auto', description: 'Tone map when the source is tagged HDR' },
+    tonemap: { label: 'Tone Map', description: 'Always output 8-bit BT.709, also for untagged HDR' },
+    preserve: { label: 'Keep HDR', description: '10-bit HEVC with HDR tags' }
+};
+
+// Codec for soft subtitle tracks, MP4 and MOV only accept timed text
+export function getSubtitleEncoder(container: VideoContainer): 'mov_text' | 'webvtt' {
+    return container === 'mp4' || container === 'mov' ? 'mov_text' : 'webvtt';
+}
+
+// Looping image formats written by the animation export mode
+export type AnimationFormat = 'gif' | 'webp';
+export type GifDither = 'sierra2_4a' | 'floyd_steinberg' | 'bayer' | 'none';
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, { label: string; extension: string; mimeName: string; description: string }> = {
+    gif: { label: 'GIF', extension: 'gif', mimeName: 'GIF Images', description: '256 colours, plays everywhere' },
+    webp: { label: 'WebP', extension: 'webp', mimeName: 'WebP Images', description: 'Full colour, much smaller' }
+};
+
+export const GIF_DITHER_MODES: Record<GifDither, string> = {
+    sierra2_4a: 'Sierra',
+    floyd_steinberg: 'Floyd-Steinberg',
+    bayer: 'Bayer',
+    none: 'None'
+};
+
+// Audio-only export formats, 'copy' keeps the source track untouched
+export type AudioFormat = 'copy' | 'mp3' | 'aac' | 'opus' | 'flac' | 'wav';
+
+export const AUDIO_FORMATS: Record<AudioFormat, { label: string; encoder: string; extension: string; mimeName: string; lossy: boolean }> = {
+    copy: { label: 'Original', encoder: 'copy', extension: 'mka', mimeName: 'Matroska Audio', lossy: false },
+    mp3: { label: 'MP3', encoder: 'libmp3lame', extension: 'mp3', mimeName: 'MP3 Audio', lossy: true },
+    aac: { label: 'AAC (M4A)', encoder: 'aac', extension: 'm4a', mimeName: 'MPEG-4 Audio', lossy: true },
+    opus: { label: 'Opus', encoder: 'libopus', extension: 'opus', mimeName: 'Opus Audio', lossy: true },
+    flac: { label: 'FLAC', encoder: 'flac', extension: 'flac', mimeName: 'FLAC Audio', lossy: false },
+    wav: { label: 'WAV', encoder: 'pcm_s16le', extension: 'wav', mimeName: 'WAV Audio', lossy: false }
+};
+
+// File extensions that can hold a stream-copied track, keyed by ffprobe codec name
+const COPY_EXTENSIONS: Record<string, string> = {
+    aac: 'm4a',
+    alac: 'm4a',
+    mp3: 'mp3',
+    opus: 'opus',
+    vorbis: 'ogg',
+    flac: 'flac',
+    ac3: 'ac3',
+    eac3: 'eac3',
+    pcm_s16le: 'wav',
+    pcm_s24le: 'wav'
+};
+
+/**
+ * Extension for an audio export. Copies follow the source codec and fall back
+ * to Matroska audio, which can hold anything.
+ */
+export function getAudioExtension(format: AudioFormat, sourceCodec: string | null): string {
+    if (format === 'copy') {
+        return (sourceCodec && COPY_EXTENSIONS[sourceCodec]) || AUDIO_FORMATS.copy.extension;
+    }
+    return AUDIO_FORMATS[format].extension;
+}
+
+export interface LoudnessTarget {
+    // Integrated loudness in LUFS
+    integrated: number;
+    // Maximum true peak in dBTP
+    truePeak: number;
+    // Loudness range in LU
+    range: number;
+}
+
+// Published or commonly measured normalization targets for each platform
+export const LOUDNESS_TARGETS: Record<'instagram' | 'twitter' | 'youtube' | 'facebook' | 'general', LoudnessTarget> = {
+    instagram: { integrated: -14, truePeak: -1, range: 11 },
+    twitter: { integrated: -16, truePeak: -1, range: 11 },
+    youtube: { integrated: -14, truePeak: -1, range: 11 },
+    facebook: { integrated: -16, truePeak: -1, range: 11 },
+    general: { integrated: -16, truePeak: -1.5, range: 11 }
+};
@@ -0,0 +1,72 @@
+// Command-based undo/redo stack. Commands are pure state transforms, so the
+// history doesn't care what is being edited or who renders it.
+
+export interface EditCommand<T> {
+    apply: (state: T) => T;
+    revert: (state: T) => T;
+    // Consecutive commands with the same key become one undo step, so a slider drag undoes in one go
+    mergeKey?: string;
+}
+
+export interface EditHistory<T> {
+    present: T;
+    past: Array<EditCommand<T>>;
+    future: Array<EditCommand<T>>;
+    // When the newest past command was last extended, for merging
+    lastEditAt: number;
+}
+
+const MAX_HISTORY = 100;
+// Edits further apart than this stay separate undo steps even with the same key
+const MERGE_WINDOW_MS = 1000;
+
+export function createHistory<T>(present: T): EditHistory<T> {
+    return { present, past: [], future: [], lastEditAt: 0 };
+}
+
+export function executeCommand<T>(history: EditHistory<T>, command: EditCommand<T>, now = Date.now()): EditHistory<T> {
+    const previous = history.past[history.past.length - 1];
+    const present = command.apply(history.present);
+
+    if (previous && command.mergeKey && previous.mergeKey === command.mergeKey && now - history.lastEditAt < MERGE_WINDOW_MS) {
+        const merged: EditCommand<T> = {
+            apply: (state) => command.apply(previous.apply(state)),
+            revert: (state) => previous.revert(command.revert(state)),
+            mergeKey: command.mergeKey
+        };
+        return { present, past: [...history.past.slice(0, -1), merged], future: [], lastEditAt: now };
+    }
+
+    return {
+        present,
+        past: [...history.past, command].slice(-MAX_HISTORY),
+        future: [],
+        lastEditAt: now
+    };
+}
+
+export function undo<T>(history: EditHistory<T>): EditHistory<T> {
+    const command = history.past[history.past.length - 1];
+    if (!command) {
+        return history;
+    }
+    return {
+        present: command.revert(history.present),
+        past: history.past.slice(0, -1),
+        future: [command, ...history.future],
+        lastEditAt: 0
+    };
+}
+
+export function redo<T>(history: EditHistory<T>): EditHistory<T> {
+    const command = history.future[0];
+    if (!command) {
+        return history;
+    }
+    return {
+        present: command.apply(history.present),
+        past: [...history.past, command],
+        future: history.future.slice(1),
+        lastEditAt: 0
+    };
+}
@@ -0,0 +1,33 @@
+// Registers catalogue fonts with the document on first use. The files come
+// from the main process over the font protocol, so they work offline once cached.
+
+import { getFontUrl, normalizeFontWeight } from '@/constants/fonts';
+
+const loadedFonts = new Map<string, Promise<boolean>>();
+
+/**
+ * Loads one weight of a family and resolves to whether it could be had.
+ * Never rejects: text falls back to the default face when a font isn't
+ * bundled, cached or downloadable, and callers can flag that to the user.
+ */
+export function loadFont(family: string, weight: number = 400): Promise<boolean> {
+    const normalizedWeight = normalizeFontWeight(weight);
+    const key = `${family}:${normalizedWeight}`;
+    let loading = loadedFonts.get(key);
+    if (!loading) {
+        const face = new FontFace(family, `url("${getFontUrl(family, normalizedWeight)}")`, {
+            weight: String(normalizedWeight)
+        });
+        loading = face.load()
+            .then((loadedFace) => {
+                document.fonts.add(loadedFace);
+                return true;
+            })
+            .catch((error) => {
+                console.warn(`Failed to load font ${family} ${normalizedWeight}:`, error);
+                return false;
+            });
+        loadedFonts.set(key, loading);
+    }
+    return loading;
+}
@@ -0,0 +1,491 @@
+// The contract between the renderer and main. Every invoke channel has a zod schema for its
+// arguments, which main checks before the handler runs; results and the events main sends
+// are plain types, since main builds them itself. Settings types are inferred from their
+// schemas so the two can't drift.
+
+import { z } from 'zod';
+import { ANIMATION_FORMATS, ASPECT_RATIOS, AUDIO_FORMATS, GIF_DITHER_MODES, HDR_MODES, LOUDNESS_TARGETS, REFRAME_MODES, VIDEO_CODECS, VIDEO_CONTAINERS } from '../constants/formats';
+import type { BrandKit, ImageLayer, ImportedFont, ShapeLayer, TextLayer, TextSet, ThumbnailLayer, ThumbnailProject, VideoOverlay } from '../types';
+import type { ContentLightLevel, GeoLocation, HdrFormat, MasteringDisplay } from './media-probe';
+
+// One of the option tables in constants/formats, as an enum of its keys
+function keysOf<K extends string>(table: Record<K, unknown>) {
+    return z.enum(Object.keys(table) as [K, ...K[]]);
+}
+
+// Main resolves these and refuses any the user hasn't granted, see src/main/pathGrants.ts
+const filePathSchema = z.string().min(1);
+const idSchema = z.string().min(1);
+// #rrggbb, as the colour pickers produce them. The values end up inside ffmpeg filter
+// graphs, which add their own @opacity and can't take shorthand or alpha forms
+const colorSchema = z.string().regex(/^#[0-9a-f]{6}$/i);
+// Burned subtitles name their font inside libass's comma separated style list
+const fontFamilySchema = z.string().regex(/^[\p{L}\p{N} _.&+()-]+$/u, 'Font names can only use letters, digits, spaces and -_.&+()');
+
+const fileFilterSchema = z.object({
+    name: z.string(),
+    extensions: z.array(z.string())
+});
+
+export const timeRangeSchema = z.object({
+    start: z.number().min(0),
+    end: z.number().min(0)
+});
+
+export const reframeOptionsSchema = z.object({
+    aspectRatio: z.union([z.literal('original'), keysOf(ASPECT_RATIOS)]),
+    mode: keysOf(REFRAME_MODES),
+    // Letterbox colour for pad mode, as #rrggbb
+    padColor: colorSchema,
+    // Crop window position between 0 and 1 on each axis, 0.5 is centred
+    cropX: z.number().min(0).max(1),
+    cropY: z.number().min(0).max(1)
+});
+
+export const animationOptionsSchema = z.object({
+    format: keysOf(ANIMATION_FORMATS),
+    fps: z.number().positive(),
+    // Output width in pixels, height follows the source aspect ratio
+    width: z.number().int().positive(),
+    dither: keysOf(GIF_DITHER_MODES),
+    // 0 loops forever, otherwise the number of times the animation plays
+    loop: z.number().int().min(0),
+    // Source range to export, null uses the trim segments
+    range: timeRangeSchema.nullable(),
+    // Lower fps and width until the file fits, 0 disables
+    maxFileSizeMB: z.number().min(0)
+});
+
+export const audioExportOptionsSchema = z.object({
+    format: keysOf(AUDIO_FORMATS),
+    // kbps, only used by lossy formats
+    bitrate: z.number().positive(),
+    // Hz and channel count, null keeps the source value
+    sampleRate: z.number().int().positive().nullable(),
+    channels: z.number().int().positive().nullable(),
+    // Which audio stream to export, as listed in VideoMetadata.audioStreams
+    streamIndex: z.number().int().min(0),
+    // Codec of that stream, so copies get a matching file extension
+    sourceCodec: z.string().nullable()
+});
+
+export const audioProcessingOptionsSchema = z.object({
+    // Two-pass EBU R128 loudnorm towards the platform's target
+    normalize: z.boolean(),
+    // Integrated loudness in LUFS, null uses the platform's target
+    targetLufs: z.number().nullable(),
+    // Cutoff in Hz for rumble and handling noise, 0 disables
+    highpassHz: z.number().min(0),
+    // FFT noise reduction with afftdn's defaults
+    denoise: z.boolean(),
+    // Applied before normalization, so it only matters when that is off
+    gainDb: z.number(),
+    mute: z.boolean()
+});
+
+export const subtitleOptionsSchema = z.object({
+    // SRT or WebVTT file on disk
+    path: filePathSchema,
+    // Burn into the picture, or mux as a selectable track
+    mode: z.enum(['burn', 'soft']),
+    fontFamily: fontFamilySchema,
+    // Text height as a percentage of the frame height
+    fontSize: z.number().positive(),
+    color: colorSchema,
+    position: z.enum(['bottom', 'top'])
+});
+
+const textSetSchema = z.object({
+    id: z.number(),
+    text: z.string(),
+    fontFamily: z.string(),
+    top: z.number(),
+    left: z.number(),
+    color: colorSchema,
+    fontSize: z.number(),
+    fontWeight: z.number(),
+    opacity: z.number(),
+    shadowColor: colorSchema,
+    shadowSize: z.number(),
+    rotation: z.number(),
+    tiltX: z.number(),
+    tiltY: z.number(),
+    letterSpacing: z.number()
+}) satisfies z.ZodType<TextSet>;
+
+const overlayPlacementSchema = z.object({
+    id: z.number(),
+    anchor: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center']),
+    offsetX: z.number(),
+    offsetY: z.number(),
+    start: z.number().min(0).nullable(),
+    end: z.number().min(0).nullable()
+});
+
+const videoOverlaySchema: z.ZodType<VideoOverlay> = z.discriminatedUnion('kind', [
+    overlayPlacementSchema.extend({
+        kind: z.literal('text'),
+        textSet: textSetSchema
+    }),
+    overlayPlacementSchema.extend({
+        kind: z.literal('image'),
+        path: filePathSchema,
+        width: z.number().positive(),
+        opacity: z.number().min(0).max(1)
+    })
+]);
+
+export const videoSettingsSchema = z.object({
+    quality: z.enum(['low', 'medium', 'high', 'ultra']),
+    resolution: z.enum(['720p', '1080p', '1440p', '4k']),
+    bitrate: z.number().positive(),
+    preset: z.enum(['ultrafast', 'fast', 'medium', 'slow', 'veryslow']),
+    socialMediaOptimization: z.boolean(),
+    platform: keysOf(LOUDNESS_TARGETS),
+    enableHardwareAcceleration: z.boolean(),
+    maxFileSizeMB: z.number().positive(),
+    encodingMode: z.enum(['crf', 'abr', 'two-pass']),
+    crf: z.number().int().min(0).max(63),
+    videoCodec: keysOf(VIDEO_CODECS),
+    container: keysOf(VIDEO_CONTAINERS),
+    // Time ranges to keep, in source seconds. Empty keeps the whole file.
+    segments: z.array(timeRangeSchema),
+    // Copy streams instead of re-encoding when every cut lands on a keyframe
+    preferStreamCopy: z.boolean(),
+    reframe: reframeOptionsSchema,
+    subtitles: subtitleOptionsSchema.nullable(),
+    // Drawn bottom to top, after scaling and before subtitles
+    overlays: z.array(videoOverlaySchema),
+    exportMode: z.enum(['video', 'animation', 'audio']),
+    animation: animationOptionsSchema,
+    audio: audioExportOptionsSchema,
+    audioProcessing: audioProcessingOptionsSchema,
+    hdrMode: keysOf(HDR_MODES)
+});
+
+export type TimeRange = z.infer<typeof timeRangeSchema>;
+export type ReframeOptions = z.infer<typeof reframeOptionsSchema>;
+export type AnimationOptions = z.infer<typeof animationOptionsSchema>;
+export type AudioExportOptions = z.infer<typeof audioExportOptionsSchema>;
+export type AudioProcessingOptions = z.infer<typeof audioProcessingOptionsSchema>;
+export type SubtitleOptions = z.infer<typeof subtitleOptionsSchema>;
+export type VideoSettingsConfig = z.infer<typeof videoSettingsSchema>;
+
+const layerBaseSchema = z.object({
+    id: z.number(),
+    left: z.number(),
+    top: z.number(),
+    rotation: z.number(),
+    opacity: z.number().min(0).max(1),
+    blendMode: z.enum(['normal', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn', 'hard-light', 'soft-light', 'difference', 'exclusion']),
+    locked: z.boolean(),
+    hidden: z.boolean()
+});
+
+const thumbnailLayerSchema: z.ZodType<ThumbnailLayer> = z.discriminatedUnion('kind', [
+    textSetSchema.extend(layerBaseSchema.shape).extend({
+        kind: z.literal('text')
+    }) satisfies z.ZodType<TextLayer>,
+    layerBaseSchema.extend({
+        kind: z.literal('image'),
+        path: filePathSchema,
+        width: z.number().positive()
+    }) satisfies z.ZodType<ImageLayer>,
+    layerBaseSchema.extend({
+        kind: z.literal('shape'),
+        shape: z.enum(['rectangle', 'ellipse']),
+        width: z.number().positive(),
+        height: z.number().positive(),
+        fill: colorSchema.nullable(),
+        stroke: colorSchema.nullable(),
+        strokeWidth: z.number().min(0),
+        cornerRadius: z.number().min(0)
+    }) satisfies z.ZodType<ShapeLayer>
+]);
+
+// The version is stamped by serializeProject()
+const thumbnailProjectSchema = z.object({
+    sourceVideoPath: filePathSchema,
+    background: z.object({
+        time: z.number().min(0)
+    }),
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+    layers: z.array(thumbnailLayerSchema)
+}) satisfies z.ZodType<Omit<ThumbnailProject, 'version'>>;
+
+const brandKitSchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    fonts: z.array(z.string()),
+    colors: z.array(colorSchema),
+    logos: z.array(filePathSchema),
+    textStyles: z.array(z.object({
+        name: z.string(),
+        style: textSetSchema.pick({ fontFamily: true, fontWeight: true, fontSize: true, color: true, shadowColor: true, shadowSize: true, letterSpacing: true })
+    }))
+}) satisfies z.ZodType<BrandKit>;
+
+export const newConversionJobSchema = z.object({
+    inputPath: filePathSchema,
+    outputPath: filePathSchema
+});
+
+export type NewConversionJob = z.infer<typeof newConversionJobSchema>;
+
+// Jobs as the queue persists them. Main checks the saved queue against this on
+// load, since it re-grants the paths of every job it keeps
+const absolutePathSchema = filePathSchema.refine((filePath) => /^(?:\/|[a-z]:[\\/]|\\\\)/i.test(filePath), 'Expected an absolute path');
+
+export const conversionJobSchema = z.object({
+    id: idSchema,
+    inputPath: absolutePathSchema,
+    outputPath: absolutePathSchema,
+    settings: videoSettingsSchema,
+    status: z.enum(['queued', 'running', 'done', 'failed', 'cancelled']),
+    progress: z.number().min(0).max(100),
+    error: z.string().optional(),
+    loudness: z.object({
+        integrated: z.number(),
+        truePeak: z.number(),
+        range: z.number(),
+        threshold: z.number(),
+        targetIntegrated: z.number(),
+        targetTruePeak: z.number()
+    }).optional(),
+    warnings: z.array(z.string()).optional(),
+    createdAt: z.number(),
+    startedAt: z.number().optional(),
+    finishedAt: z.number().optional()
+}) satisfies z.ZodType<ConversionJob>;
+
+/**
+ * Arguments of each channel, in the order the preload passes them. Calls
+ * with missing, extra or malformed arguments are rejected before they reach
+ * a handler.
+ */
+export const IPC_ARGUMENTS = {
+    'show-open-dialog': z.tuple([
+        z.object({
+            filters: z.array(fileFilterSchema).optional(),
+            multiple: z.boolean().optional()
+        }).optional()
+    ]),
+    'show-directory-dialog': z.tuple([]),
+    'show-save-dialog': z.tuple([z.string(), z.array(fileFilterSchema).optional()]),
+    // Sent, not invoked: the preload reports the path of each file dropped on the window
+    'grant-dropped-path': z.tuple([filePathSchema]),
+    'save-image': z.tuple([filePathSchema, z.string().startsWith('data:image/')]),
+    'save-project': z.tuple([filePathSchema, thumbnailProjectSchema]),
+    'open-project': z.tuple([filePathSchema]),
+    'show-in-finder': z.tuple([filePathSchema]),
+    'get-file-url': z.tuple([filePathSchema]),
+    'get-temp-dir': z.tuple([]),
+    'remove-temp-file': z.tuple([filePathSchema]),
+    'write-file': z.tuple([filePathSchema, z.instanceof(Uint8Array)]),
+    'copy-file': z.tuple([filePathSchema, filePathSchema]),
+    'get-file-stats': z.tuple([filePathSchema]),
+    'extract-first-frame': z.tuple([filePathSchema, filePathSchema]),
+    'extract-frame': z.tuple([filePathSchema, filePathSchema, z.number().min(0), z.number().int().positive().nullable()]),
+    'extract-filmstrip': z.tuple([filePathSchema, filePathSchema, z.number().int().positive(), z.number().int().positive()]),
+    'suggest-frames': z.tuple([filePathSchema, filePathSchema, z.number().int().positive(), z.number().int().positive()]),
+    'get-video-metadata': z.tuple([filePathSchema]),
+    'load-subtitles': z.tuple([filePathSchema]),
+    'get-font-file': z.tuple([z.string(), z.number()]),
+    'brand-get-state': z.tuple([]),
+    'brand-import-fonts': z.tuple([z.array(filePathSchema)]),
+    'brand-remove-font': z.tuple([z.string(), z.number()]),
+    'brand-save-kit': z.tuple([brandKitSchema]),
+    'brand-delete-kit': z.tuple([idSchema]),
+    'brand-import-logo': z.tuple([idSchema, filePathSchema]),
+    'convert-video': z.tuple([filePathSchema, filePathSchema, videoSettingsSchema, idSchema]),
+    'optimize-for-social-media': z.tuple([filePathSchema, filePathSchema, videoSettingsSchema, idSchema]),
+    'compare-quality': z.tuple([filePathSchema, filePathSchema, z.array(timeRangeSchema), idSchema]),
+    'cancel-conversion': z.tuple([idSchema]),
+    'estimate-output': z.tuple([filePathSchema, videoSettingsSchema, idSchema]),
+    'queue-get-jobs': z.tuple([]),
+    'queue-add-jobs': z.tuple([z.array(newConversionJobSchema), videoSettingsSchema]),
+    'queue-cancel-job': z.tuple([idSchema]),
+    'queue-remove-job': z.tuple([idSchema]),
+    'queue-clear-finished': z.tuple([]),
+    'queue-set-concurrency': z.tuple([z.number().int()]),
+    'start-oidc-auth': z.tuple([]),
+    'test-protocol': z.tuple([])
+};
+
+export type IpcChannel = keyof typeof IPC_ARGUMENTS;
+export type IpcArguments<C extends IpcChannel> = z.infer<(typeof IPC_ARGUMENTS)[C]>;
+
+export interface VideoConversionProgress {
+    // 0-100 over the whole job, from the output time written against the output's length
+    progress: number;
+    // Output time written so far, HH:MM:SS.ss
+    timemark: string;
+    // KB written so far
+    targetSize: number;
+    currentFps: number;
+    // Multiple of realtime, 0 until ffmpeg knows it
+    speed: number;
+    // Output bitrate in kbps, 0 until ffmpeg knows it
+    bitrate: number;
+    // Smoothed seconds left for the whole job, null until there is enough to go on
+    eta: number | null;
+}
+
+export interface FramePreview {
+    // Source time of the frame in seconds
+    time: number;
+    path: string;
+}
+
+export interface LoudnessMeasurement {
+    // Measured on the source audio after the other filters, before normalization
+    integrated: number;
+    truePeak: number;
+    range: number;
+    threshold: number;
+    // What loudnorm aimed the output at
+    targetIntegrated: number;
+    targetTruePeak: number;
+}
+
+export interface ConversionResult {
+    outputPath: string;
+    // Null when the audio wasn't normalized
+    loudness: LoudnessMeasurement | null;
+    // Where the output falls short of the settings, e.g. HDR converted without tone mapping
+    warnings: string[];
+}
+
+export interface QualityMetrics {
+    // Averages over every compared frame. PSNR is in dB and Infinity for identical frames
+    psnr: number | null;
+    ssim: number | null;
+    // Null when the bundled ffmpeg was built without libvmaf
+    vmaf: number | null;
+}
+
+export interface OutputEstimate {
+    // Predicted size of the whole output
+    sizeBytes: number;
+    // Predicted wall-clock time of the whole conversion
+    encodeSeconds: number;
+    // Averaged over the samples; null for audio exports
+    quality: QualityMetrics | null;
+    // Seconds of output actually encoded to get here
+    sampledSeconds: number;
+}
+
+export interface VideoMetadata {
+    duration: number;
+    width: number;
+    height: number;
+    fps: number;
+    format: string;
+    videoCodec: string;
+    hasAudio: boolean;
+    audioStreams: AudioStreamInfo[];
+    // Whole-file bitrate in bits per second and size in bytes, 0 when unknown
+    bitrate: number;
+    size: number;
+    // ISO 8601, as the camera or phone recorded it
+    creationTime: string | null;
+    location: GeoLocation | null;
+    videoStreams: VideoStreamInfo[];
+    subtitleStreams: SubtitleStreamInfo[];
+    // Shortcuts for the first video stream, which is the one that gets encoded
+    rotation: number;
+    hdr: HdrFormat | null;
+}
+
+export interface VideoStreamInfo {
+    // Position among the video streams, used as 0:v:<index>
+    index: number;
+    codec: string;
+    profile: string | null;
+    width: number;
+    height: number;
+    fps: number;
+    pixelFormat: string;
+    bitDepth: number;
+    // Width of a pixel relative to its height, 1 for square pixels
+    sampleAspectRatio: number;
+    // Clockwise degrees the player turns the picture on display
+    rotation: number;
+    colorPrimaries: string | null;
+    colorTransfer: string | null;
+    colorSpace: string | null;
+    hdr: HdrFormat | null;
+    // HDR10 static metadata, from the stream or else its first frame
+    masteringDisplay: MasteringDisplay | null;
+    contentLightLevel: ContentLightLevel | null;
+    // bits per second, 0 when ffprobe doesn't know
+    bitrate: number;
+    // Embedded artwork, such as a cover image in an audio file
+    isCoverArt: boolean;
+}
+
+export interface AudioStreamInfo {
+    // Position among the audio streams, used as 0:a:<index>
+    index: number;
+    codec: string;
+    profile: string | null;
+    channels: number;
+    channelLayout: string;
+    sampleRate: number;
+    // bits per second, 0 when ffprobe doesn't know
+    bitrate: number;
+    language: string | null;
+    title: string | null;
+}
+
+export interface SubtitleStreamInfo {
+    // Position among the subtitle streams, used as 0:s:<index>
+    index: number;
+    codec: string;
+    language: string | null;
+    title: string | null;
+}
+
+export type ConversionJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ConversionJob {
+    id: string;
+    inputPath: string;
+    outputPath: string;
+    settings: VideoSettingsConfig;
+    status: ConversionJobStatus;
+    progress: number;
+    error?: string;
+    // Source loudness measured while normalizing, set when the job is done
+    loudness?: LoudnessMeasurement;
+    warnings?: string[];
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+}
+
+export interface BrandState {
+    kits: BrandKit[];
+    // Fonts imported by the user, available to every kit
+    fonts: ImportedFont[];
+}
+
+export interface TokenResponse {
+    access_token: string;
+    refresh_token: string;
+    id_token: string;
+    expires_in: number;
+}
+
+// Arguments main sends with each event, for the preload's subscribe()
+export interface IpcEvents {
+    'conversion-progress': [conversionId: string, progress: VideoConversionProgress];
+    'queue-updated': [jobs: ConversionJob[]];
+    'queue-job-updated': [job: ConversionJob];
+    'brand-updated': [state: BrandState];
+    'auth-success': [data: TokenResponse];
+    'auth-error': [error: string];
+}
+
+export type IpcEventChannel = keyof IpcEvents;
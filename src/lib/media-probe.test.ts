@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { getContentLightLevel, getHdrFormat, getMasteringDisplay, getStreamRotation, parseRational } from './media-probe';
+
+describe('parseRational', () => {
+    it('reads frame rates and aspect ratios', () => {
+        expect(parseRational('30000/1001')).toBeCloseTo(29.97, 2);
+        expect(parseRational('16:9')).toBeCloseTo(16 / 9);
+        expect(parseRational('25')).toBe(25);
+    });
+
+    it('returns null for the 0/0 ffprobe reports when it doesn\'t know', () => {
+        expect(parseRational('0/0')).toBeNull();
+        expect(parseRational('N/A')).toBeNull();
+        expect(parseRational(undefined)).toBeNull();
+    });
+});
+
+describe('getStreamRotation', () => {
+    it('turns the counter-clockwise display matrix into clockwise degrees', () => {
+        const stream = {
+            r_frame_rate: '0/0',
+            side_data_list: [{ side_data_type: 'Display Matrix', rotation: -90 }]
+        };
+
+        expect(getStreamRotation(stream)).toBe(90);
+        expect(getStreamRotation({ side_data_list: [{ side_data_type: 'Display Matrix', rotation: 90 }] })).toBe(270);
+    });
+
+    it('falls back to the rotate tag of older builds', () => {
+        expect(getStreamRotation({ tags: { rotate: '180' } })).toBe(180);
+        expect(getStreamRotation({ tags: { rotate: 'upside down' } })).toBe(0);
+        expect(getStreamRotation({})).toBe(0);
+    });
+});
+
+describe('side data', () => {
+    const sideDataList = [
+        { side_data_type: 'DOVI configuration record', dv_profile: 8 },
+        {
+            side_data_type: 'Mastering display metadata',
+            red_x: '34000/50000', red_y: '16000/50000',
+            green_x: '13250/50000', green_y: '34500/50000',
+            blue_x: '7500/50000', blue_y: '3000/50000',
+            white_point_x: '15635/50000', white_point_y: '16450/50000',
+            min_luminance: '50/10000', max_luminance: '10000000/10000'
+        },
+        { side_data_type: 'Content light level metadata', max_content: 1000, max_average: 400 }
+    ];
+
+    it('reads HDR10 mastering display and light levels', () => {
+        expect(getMasteringDisplay(sideDataList)).toEqual({
+            red: [0.68, 0.32],
+            green: [0.265, 0.69],
+            blue: [0.15, 0.06],
+            whitePoint: [0.3127, 0.329],
+            minLuminance: 0.005,
+            maxLuminance: 1000
+        });
+        expect(getContentLightLevel(sideDataList)).toEqual({ maxContent: 1000, maxAverage: 400 });
+    });
+
+    it('gives up on mastering data with unknown values', () => {
+        const unknown = [{ ...sideDataList[1], max_luminance: '0/0' }];
+
+        expect(getMasteringDisplay(unknown)).toBeNull();
+        expect(getContentLightLevel(undefined)).toBeNull();
+    });
+
+    it('prefers Dolby Vision over the transfer function', () => {
+        expect(getHdrFormat({ color_transfer: 'smpte2084', side_data_list: sideDataList })).toBe('dolby-vision');
+        expect(getHdrFormat({ color_transfer: 'smpte2084' })).toBe('hdr10');
+        expect(getHdrFormat({ color_transfer: 'arib-std-b67' })).toBe('hlg');
+        expect(getHdrFormat({ color_transfer: 'bt709', r_frame_rate: '0/0' })).toBeNull();
+    });
+});
@@ -0,0 +1,155 @@
+// Readers for ffprobe's JSON output. The types are shared with the renderer's details panel.
+// They take raw stream objects and never throw, so files with odd metadata still probe.
+
+export type HdrFormat = 'hdr10' | 'hlg' | 'dolby-vision';
+
+// HDR10 static metadata; chromaticities are CIE 1931 x/y pairs, luminances in cd/m²
+export interface MasteringDisplay {
+    red: [number, number];
+    green: [number, number];
+    blue: [number, number];
+    whitePoint: [number, number];
+    minLuminance: number;
+    maxLuminance: number;
+}
+
+// cd/m²
+export interface ContentLightLevel {
+    maxContent: number;
+    maxAverage: number;
+}
+
+export interface GeoLocation {
+    latitude: number;
+    longitude: number;
+    // Metres, when the recorder stored it
+    altitude: number | null;
+}
+
+/**
+ * Parses ffprobe rationals such as "30000/1001", "16:9" or a plain "25".
+ * Returns null for anything else, including the "0/0" ffprobe uses for unknown.
+ */
+export function parseRational(value: unknown): number | null {
+    if (typeof value === 'number') {
+        return isFinite(value) ? value : null;
+    }
+    if (typeof value !== 'string') {
+        return null;
+    }
+
+    const match = value.trim().match(/^(-?\d+(?:\.\d+)?)(?:[/:](\d+(?:\.\d+)?))?$/);
+    if (!match) {
+        return null;
+    }
+
+    const numerator = parseFloat(match[1]);
+    const denominator = match[2] === undefined ? 1 : parseFloat(match[2]);
+    if (denominator === 0) {
+        return null;
+    }
+    return numerator / denominator;
+}
+
+/**
+ * Clockwise rotation players apply on display, one of 0, 90, 180 or 270.
+ * Newer ffmpeg reports it as display matrix side data (counter-clockwise),
+ * older builds as a "rotate" tag (clockwise).
+ */
+export function getStreamRotation(stream: any): number {
+    const displayMatrix = (stream.side_data_list ?? []).find(
+        (sideData: any) => sideData.side_data_type === 'Display Matrix' && sideData.rotation !== undefined
+    );
+    const clockwise = displayMatrix ? -Number(displayMatrix.rotation) : Number(stream.tags?.rotate ?? 0);
+    if (!isFinite(clockwise)) {
+        return 0;
+    }
+    return ((Math.round(clockwise / 90) * 90) % 360 + 360) % 360;
+}
+
+export function getHdrFormat(stream: any): HdrFormat | null {
+    const hasDolbyVision = (stream.side_data_list ?? []).some(
+        (sideData: any) => sideData.side_data_type === 'DOVI configuration record'
+    );
+    if (hasDolbyVision) {
+        return 'dolby-vision';
+    }
+    if (stream.color_transfer === 'smpte2084') {
+        return 'hdr10';
+    }
+    if (stream.color_transfer === 'arib-std-b67') {
+        return 'hlg';
+    }
+    return null;
+}
+
+/**
+ * Mastering display side data of a stream or frame. Containers carry it on
+ * the stream, raw HEVC only in the first frame's SEI, so callers may need to
+ * look in both places.
+ */
+export function getMasteringDisplay(sideDataList: any[] | undefined): MasteringDisplay | null {
+    const sideData = (sideDataList ?? []).find((entry: any) => entry.side_data_type === 'Mastering display metadata');
+    if (!sideData) {
+        return null;
+    }
+    const read = (key: string) => parseRational(sideData[key]);
+    const values = [
+        read('red_x'), read('red_y'), read('green_x'), read('green_y'), read('blue_x'), read('blue_y'),
+        read('white_point_x'), read('white_point_y'), read('min_luminance'), read('max_luminance')
+    ];
+    if (values.some((value) => value === null)) {
+        return null;
+    }
+    const [redX, redY, greenX, greenY, blueX, blueY, whiteX, whiteY, minLuminance, maxLuminance] = values as number[];
+    return {
+        red: [redX, redY],
+        green: [greenX, greenY],
+        blue: [blueX, blueY],
+        whitePoint: [whiteX, whiteY],
+        minLuminance,
+        maxLuminance
+    };
+}
+
+export function getContentLightLevel(sideDataList: any[] | undefined): ContentLightLevel | null {
+    const sideData = (sideDataList ?? []).find((entry: any) => entry.side_data_type === 'Content light level metadata');
+    const maxContent = Number(sideData?.max_content);
+    const maxAverage = Number(sideData?.max_average);
+    if (!sideData || !isFinite(maxContent) || !isFinite(maxAverage)) {
+        return null;
+    }
+    return { maxContent, maxAverage };
+}
+
+/**
+ * Bits per colour component. bits_per_raw_sample is missing for many
+ * codecs, so fall back to the pixel format name, e.g. yuv420p10le.
+ */
+export function getBitDepth(stream: any): number {
+    const rawBits = parseInt(stream.bits_per_raw_sample, 10);
+    if (rawBits > 0) {
+        return rawBits;
+    }
+    const match = String(stream.pix_fmt ?? '').match(/p(\d+)(?:le|be)$/);
+    return match ? parseInt(match[1], 10) : 8;
+}
+
+/**
+ * Reads an ISO 6709 location string like "+37.3349-122.0090+030.000/",
+ * which is how phones store GPS in MP4 and QuickTime files.
+ */
+export function parseIso6709(value: unknown): GeoLocation | null {
+    if (typeof value !== 'string') {
+        return null;
+    }
+    const match = value.match(/^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)?/);
+    if (!match) {
+        return null;
+    }
+    return {
+        latitude: parseFloat(match[1]),
+        longitude: parseFloat(match[2]),
+        altitude: match[3] === undefined ? null : parseFloat(match[3])
+    };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { formatSrt, parseSubtitles } from './subtitles';
+
+describe('parseSubtitles', () => {
+    it('reads SRT timestamps with comma decimals', () => {
+        const srt = [
+            '1',
+            '00:00:01,500 --> 00:00:03,250',
+            'Hello',
+            '',
+            '2',
+            '01:02:03,004 --> 01:02:04,000',
+            'Two',
+            'lines',
+            ''
+        ].join('\r\n');
+
+        expect(parseSubtitles(srt)).toEqual([
+            { start: 1.5, end: 3.25, text: 'Hello' },
+            { start: 3723.004, end: 3724, text: 'Two\nlines' }
+        ]);
+    });
+
+    it('ignores VTT cue settings, headers and NOTE blocks', () => {
+        const vtt = [
+            'WEBVTT',
+            '',
+            'NOTE made by hand',
+            '',
+            'intro',
+            '00:01.000 --> 00:02.500 align:start position:10% line:0',
+            'First',
+            '',
+            '00:00:03.000 --> 00:00:04.000 size:50%',
+            'Second'
+        ].join('\n');
+
+        expect(parseSubtitles(vtt)).toEqual([
+            { start: 1, end: 2.5, text: 'First' },
+            { start: 3, end: 4, text: 'Second' }
+        ]);
+    });
+
+    it('reads back what formatSrt writes', () => {
+        const cues = [{ start: 0.25, end: 61.5, text: 'Hi' }];
+
+        expect(parseSubtitles(formatSrt(cues))).toEqual(cues);
+    });
+});
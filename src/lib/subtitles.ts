@@ -0,0 +1,105 @@
+// SRT/WebVTT handling shared by the caption preview and the main-process encoder
+
+export interface SubtitleCue {
+    start: number;
+    end: number;
+    text: string;
+}
+
+export const SUBTITLE_FILE_EXTENSIONS = ['srt', 'vtt'];
+
+const TIMESTAMP_PATTERN = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+
+function parseTimestamp(value: string): number | null {
+    const match = TIMESTAMP_PATTERN.exec(value);
+    if (!match) {
+        return null;
+    }
+    const [, hours, minutes, seconds, fraction] = match;
+    return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+}
+
+/**
+ * Reads the cues of an SRT or WebVTT file. Header, NOTE and STYLE blocks
+ * have no timing line and are skipped, as are VTT cue settings.
+ */
+export function parseSubtitles(content: string): SubtitleCue[] {
+    const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+    const cues: SubtitleCue[] = [];
+
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex((line) => line.includes('-->'));
+        if (timingIndex === -1) {
+            continue;
+        }
+
+        const [startPart, endPart] = lines[timingIndex].split('-->');
+        const start = parseTimestamp(startPart);
+        const end = parseTimestamp(endPart);
+        const text = lines.slice(timingIndex + 1).join('\n').trim();
+        if (start === null || end === null || end <= start || !text) {
+            continue;
+        }
+        cues.push({ start, end, text });
+    }
+
+    return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Moves cues from the source timeline onto the output timeline of a trimmed
+ * export. Cues outside the kept segments are dropped and cues crossing a cut
+ * are clipped to it. A maxDuration of 0 keeps everything.
+ */
+export function retimeCues(
+    cues: SubtitleCue[],
+    segments: Array<{ start: number; end: number }>,
+    maxDuration: number = 0
+): SubtitleCue[] {
+    const ranges = segments.length > 0 ? segments : [{ start: 0, end: Infinity }];
+    const retimed: SubtitleCue[] = [];
+    let offset = 0;
+
+    for (const range of ranges) {
+        for (const cue of cues) {
+            if (cue.end <= range.start || cue.start >= range.end) {
+                continue;
+            }
+            retimed.push({
+                start: Math.max(cue.start, range.start) - range.start + offset,
+                end: Math.min(cue.end, range.end) - range.start + offset,
+                text: cue.text
+            });
+        }
+        offset += range.end - range.start;
+    }
+
+    if (maxDuration <= 0) {
+        return retimed;
+    }
+    return retimed
+        .filter((cue) => cue.start < maxDuration)
+        .map((cue) => ({ ...cue, end: Math.min(cue.end, maxDuration) }));
+}
+
+function formatSrtTimestamp(seconds: number): string {
+    const totalMs = Math.round(seconds * 1000);
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor(totalMs / 60000) % 60;
+    const secs = Math.floor(totalMs / 1000) % 60;
+    const ms = totalMs % 1000;
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)},${pad(ms, 3)}`;
+}
+
+export function formatSrt(cues: SubtitleCue[]): string {
+    return cues
+        .map((cue, index) => `${index + 1}\n${formatSrtTimestamp(cue.start)} --> ${formatSrtTimestamp(cue.end)}\n${cue.text}\n`)
+        .join('\n');
+}
+
+/** The cue showing at `time`, if any. */
+export function findActiveCue(cues: SubtitleCue[], time: number): SubtitleCue | null {
+    return cues.find((cue) => time >= cue.start && time < cue.end) ?? null;
+}
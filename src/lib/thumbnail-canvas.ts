@@ -0,0 +1,200 @@
+// Canvas rendering of thumbnail layers over a background frame, used by the thumbnail designer
+// for both its preview and the exported image
+
+import { ImageLayer, ShapeLayer, TextSet, ThumbnailLayer } from '@/types';
+import { loadFont } from '@/lib/font-loader';
+
+// TextSet sizes are authored against a 1080p frame, like the drawtext overlays
+const REFERENCE_HEIGHT = 1080;
+// Matches the CSS perspective(1000px) the tilt controls were designed with
+const PERSPECTIVE_DISTANCE = 1000;
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.ceil(width));
+    canvas.height = Math.max(1, Math.ceil(height));
+    return canvas;
+}
+
+/**
+ * Draws the text of one layer, with shadow and letter spacing, onto a canvas
+ * just large enough to hold it. Lines are centred on each other.
+ */
+function renderText(textSet: TextSet, scale: number): HTMLCanvasElement {
+    const fontSize = textSet.fontSize * scale;
+    const font = `${textSet.fontWeight} ${fontSize}px "${textSet.fontFamily}"`;
+    const lines = textSet.text.split('\n');
+    const lineHeight = fontSize * 1.2;
+    // Hard drop shadow offset down-right, the same look drawtext gives on export
+    const shadowOffset = textSet.shadowSize * scale;
+    const padding = shadowOffset + fontSize * 0.2;
+
+    const measure = createCanvas(1, 1).getContext('2d')!;
+    measure.font = font;
+    measure.letterSpacing = `${textSet.letterSpacing * scale}px`;
+    const textWidth = Math.max(...lines.map((line) => measure.measureText(line).width));
+
+    const canvas = createCanvas(textWidth + padding * 2, lineHeight * lines.length + padding * 2);
+    const ctx = canvas.getContext('2d')!;
+    ctx.font = font;
+    ctx.letterSpacing = `${textSet.letterSpacing * scale}px`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = textSet.color;
+    if (textSet.shadowSize > 0) {
+        ctx.shadowColor = textSet.shadowColor;
+        ctx.shadowOffsetX = shadowOffset;
+        ctx.shadowOffsetY = shadowOffset;
+    }
+    lines.forEach((line, index) => {
+        ctx.fillText(line, canvas.width / 2, padding + lineHeight * (index + 0.5));
+    });
+    return canvas;
+}
+
+/**
+ * Projects `source` as if rotated by `degrees` around its centre line and
+ * viewed from `distance` pixels away. The 2D canvas has no 3D transforms, so
+ * the image is redrawn one pixel slice at a time, each scaled for its depth.
+ */
+function tilt(source: HTMLCanvasElement, degrees: number, axis: 'x' | 'y', distance: number): HTMLCanvasElement {
+    if (degrees === 0) {
+        return source;
+    }
+
+    const angle = (degrees * Math.PI) / 180;
+    const length = axis === 'y' ? source.width : source.height;
+    const breadth = axis === 'y' ? source.height : source.width;
+    const maxScale = distance / (distance - (length / 2) * Math.abs(Math.sin(angle)));
+    const output = axis === 'y'
+        ? createCanvas(length * maxScale, breadth * maxScale)
+        : createCanvas(breadth * maxScale, length * maxScale);
+    const ctx = output.getContext('2d')!;
+    const centerX = output.width / 2;
+    const centerY = output.height / 2;
+
+    for (let slice = 0; slice < length; slice++) {
+        const offset = slice + 0.5 - length / 2;
+        const scale = distance / (distance - offset * Math.sin(angle));
+        const position = offset * Math.cos(angle) * scale;
+        // Slices overlap by a pixel so no seams show between them
+        const thickness = Math.abs(Math.cos(angle)) * scale + 1;
+        const size = breadth * scale;
+
+        if (axis === 'y') {
+            ctx.drawImage(source, slice, 0, 1, breadth, centerX + position, centerY - size / 2, thickness, size);
+        } else {
+            ctx.drawImage(source, 0, slice, breadth, 1, centerX - size / 2, centerY + position, size, thickness);
+        }
+    }
+    return output;
+}
+
+/**
+ * Draws `image` to cover the whole canvas, cropping the overflow evenly.
+ */
+function drawCover(ctx: CanvasRenderingContext2D, image: CanvasImageSource & { width: number; height: number }, width: number, height: number) {
+    const scale = Math.max(width / image.width, height / image.height);
+    const drawWidth = image.width * scale;
+    const drawHeight = image.height * scale;
+    ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+function drawText(ctx: CanvasRenderingContext2D, textSet: TextSet, scale: number) {
+    const distance = PERSPECTIVE_DISTANCE * scale;
+    const text = tilt(tilt(renderText(textSet, scale), textSet.tiltY, 'y', distance), textSet.tiltX, 'x', distance);
+    ctx.drawImage(text, -text.width / 2, -text.height / 2);
+}
+
+function drawImage(ctx: CanvasRenderingContext2D, layer: ImageLayer, image: HTMLImageElement | undefined, frameWidth: number) {
+    // A missing or unreadable file leaves the layer out rather than failing the render
+    if (!image || !image.naturalWidth) {
+        return;
+    }
+    const width = frameWidth * layer.width / 100;
+    const height = width * image.naturalHeight / image.naturalWidth;
+    ctx.drawImage(image, -width / 2, -height / 2, width, height);
+}
+
+function drawShape(ctx: CanvasRenderingContext2D, layer: ShapeLayer, frameWidth: number, frameHeight: number, scale: number) {
+    const width = frameWidth * layer.width / 100;
+    const height = frameHeight * layer.height / 100;
+
+    ctx.beginPath();
+    if (layer.shape === 'ellipse') {
+        ctx.ellipse(0, 0, width / 2, height / 2, 0, 0, Math.PI * 2);
+    } else {
+        ctx.roundRect(-width / 2, -height / 2, width, height, Math.min(layer.cornerRadius * scale, width / 2, height / 2));
+    }
+    if (layer.fill) {
+        ctx.fillStyle = layer.fill;
+        ctx.fill();
+    }
+    if (layer.stroke && layer.strokeWidth > 0) {
+        ctx.strokeStyle = layer.stroke;
+        ctx.lineWidth = layer.strokeWidth * scale;
+        ctx.stroke();
+    }
+}
+
+/**
+ * Draws one layer with its blend mode. left/top are offsets from the centre
+ * in percent of the frame, with top pointing up, as in the editor's sliders.
+ */
+export function drawLayer(
+    ctx: CanvasRenderingContext2D,
+    layer: ThumbnailLayer,
+    width: number,
+    height: number,
+    images: Map<string, HTMLImageElement>
+) {
+    if (layer.hidden) {
+        return;
+    }
+    const scale = height / REFERENCE_HEIGHT;
+
+    ctx.save();
+    ctx.globalAlpha = layer.opacity;
+    ctx.globalCompositeOperation = layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+    ctx.translate(width * (50 + layer.left) / 100, height * (50 - layer.top) / 100);
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+    switch (layer.kind) {
+        case 'text':
+            drawText(ctx, layer, scale);
+            break;
+        case 'image':
+            drawImage(ctx, layer, images.get(layer.path), width);
+            break;
+        case 'shape':
+            drawShape(ctx, layer, width, height, scale);
+            break;
+    }
+    ctx.restore();
+}
+
+/**
+ * Renders the full thumbnail: the background frame scaled to cover, then
+ * the layers bottom to top. Fonts are loaded first so the canvas doesn't
+ * fall back to a default face; images must already be decoded in `images`,
+ * keyed by path.
+ */
+export async function renderThumbnail(
+    canvas: HTMLCanvasElement,
+    background: HTMLImageElement | null,
+    layers: ThumbnailLayer[],
+    width: number,
+    height: number,
+    images: Map<string, HTMLImageElement>
+) {
+    await Promise.all(layers.map((layer) => layer.kind === 'text' ? loadFont(layer.fontFamily, layer.fontWeight) : undefined));
+
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    if (background) {
+        drawCover(ctx, background, width, height);
+    }
+    layers.forEach((layer) => drawLayer(ctx, layer, width, height, images));
+}
@@ -0,0 +1,147 @@
+// .subclip project files for the thumbnail designer. Files carry a format version and older
+// ones are upgraded a step at a time on open, so adding fields never breaks saved projects.
+
+import { ImageLayer, ShapeKind, ShapeLayer, TextLayer, TextSet, ThumbnailLayer, ThumbnailProject } from '../types';
+
+export const PROJECT_FILE_EXTENSION = 'subclip';
+export const PROJECT_VERSION = 2;
+
+// MIGRATIONS[n] turns a version n file into version n + 1. Add one here
+// whenever PROJECT_VERSION is bumped.
+const MIGRATIONS: Record<number, (project: any) => any> = {
+    // Version 1 only had text layers, stored as plain TextSets
+    1: ({ textSets, ...project }) => ({
+        ...project,
+        layers: (Array.isArray(textSets) ? textSets : []).map((textSet: TextSet) => ({
+            ...textSet,
+            kind: 'text',
+            blendMode: 'normal',
+            locked: false,
+            hidden: false
+        }))
+    })
+};
+
+export function createTextSet(id: number): TextSet {
+    return {
+        id,
+        text: 'Your title',
+        fontFamily: 'Inter',
+        top: 0,
+        left: 0,
+        color: '#FFFFFF',
+        fontSize: 160,
+        fontWeight: 800,
+        opacity: 1,
+        shadowColor: '#000000',
+        shadowSize: 8,
+        rotation: 0,
+        tiltX: 0,
+        tiltY: 0,
+        letterSpacing: 0
+    };
+}
+
+export function createTextLayer(id: number): TextLayer {
+    return { ...createTextSet(id), kind: 'text', blendMode: 'normal', locked: false, hidden: false };
+}
+
+export function createImageLayer(id: number, path: string): ImageLayer {
+    return {
+        id,
+        kind: 'image',
+        path,
+        width: 25,
+        left: 0,
+        top: 0,
+        rotation: 0,
+        opacity: 1,
+        blendMode: 'normal',
+        locked: false,
+        hidden: false
+    };
+}
+
+export function createShapeLayer(id: number, shape: ShapeKind): ShapeLayer {
+    return {
+        id,
+        kind: 'shape',
+        shape,
+        width: 30,
+        // Ellipses start out as circles on a 16:9 frame
+        height: shape === 'ellipse' ? 53 : 30,
+        fill: '#FFD400',
+        stroke: null,
+        strokeWidth: 12,
+        cornerRadius: 0,
+        left: 0,
+        top: 0,
+        rotation: 0,
+        opacity: 1,
+        blendMode: 'normal',
+        locked: false,
+        hidden: false
+    };
+}
+
+// Fills in fields missing from a saved layer with the defaults for its kind
+function normalizeLayer(layer: any, index: number): ThumbnailLayer {
+    switch (layer?.kind) {
+        case 'image':
+            if (typeof layer.path !== 'string') {
+                throw new Error('Project file has an image layer without a file');
+            }
+            return { ...createImageLayer(index, layer.path), ...layer };
+        case 'shape':
+            return { ...createShapeLayer(index, layer.shape === 'ellipse' ? 'ellipse' : 'rectangle'), ...layer };
+        case 'text':
+            return { ...createTextLayer(index), ...layer };
+        default:
+            throw new Error(`Project file has a layer of unknown kind: ${layer?.kind}`);
+    }
+}
+
+export function serializeProject(project: Omit<ThumbnailProject, 'version'>): string {
+    return JSON.stringify({ version: PROJECT_VERSION, ...project }, null, 2);
+}
+
+/**
+ * Parses a project file, migrating it to the current version. Layer fields
+ * missing from the file fall back to the defaults of a new layer.
+ */
+export function parseProject(content: string): ThumbnailProject {
+    let project: any;
+    try {
+        project = JSON.parse(content);
+    } catch {
+        throw new Error('Not a valid project file');
+    }
+    if (!project || typeof project !== 'object') {
+        throw new Error('Not a valid project file');
+    }
+
+    let version = Number(project.version);
+    if (!Number.isInteger(version) || version < 1) {
+        throw new Error('Project file has no format version');
+    }
+    if (version > PROJECT_VERSION) {
+        throw new Error(`Project was saved by a newer version of the app (format ${version})`);
+    }
+    while (version < PROJECT_VERSION) {
+        project = { ...MIGRATIONS[version](project), version: version + 1 };
+        version++;
+    }
+
+    if (typeof project.sourceVideoPath !== 'string' || !Array.isArray(project.layers)) {
+        throw new Error('Project file is missing the source video or layers');
+    }
+
+    return {
+        version,
+        sourceVideoPath: project.sourceVideoPath,
+        background: { time: Number(project.background?.time) || 0 },
+        width: Number(project.width) || 1280,
+        height: Number(project.height) || 720,
+        layers: project.layers.map(normalizeLayer)
+    };
+}
@@ -0,0 +1,66 @@
+import { VideoSettingsConfig } from '@/preload/preload';
+import { ANIMATION_FORMATS, AUDIO_FORMATS, VIDEO_CONTAINERS, getAudioExtension, getContainerExtension } from '@/constants/formats';
+
+export function getFileName(filePath: string): string {
+    return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+export function getFileExtension(filePath: string): string {
+    const match = /\.([^./\\]+)$/.exec(filePath);
+    return match ? match[1].toLowerCase() : '';
+}
+
+export function getOutputExtension(settings: VideoSettingsConfig): string {
+    if (settings.exportMode === 'animation') {
+        return ANIMATION_FORMATS[settings.animation.format].extension;
+    }
+    if (settings.exportMode === 'audio') {
+        return getAudioExtension(settings.audio.format, settings.audio.sourceCodec);
+    }
+    return getContainerExtension(settings.container);
+}
+
+export function getSaveDialogFilters(settings: VideoSettingsConfig): Array<{ name: string; extensions: string[] }> {
+    if (settings.exportMode === 'audio') {
+        const extension = getOutputExtension(settings);
+        const name = settings.audio.format === 'copy' ? `${extension.toUpperCase()} Audio` : AUDIO_FORMATS[settings.audio.format].mimeName;
+        return [{ name, extensions: [extension] }];
+    }
+
+    const format = settings.exportMode === 'animation'
+        ? ANIMATION_FORMATS[settings.animation.format]
+        : VIDEO_CONTAINERS[settings.container];
+    return [{ name: format.mimeName, extensions: [format.extension] }];
+}
+
+export function generateOutputFileName(settings: VideoSettingsConfig, originalName: string): string {
+    const nameWithoutExt = originalName.replace(/\.[^/.]+$/, "");
+    const parts = [nameWithoutExt];
+
+    if (settings.exportMode === 'animation') {
+        parts.push(`${settings.animation.width}w`, `${settings.animation.fps}fps`);
+        return `${parts.join('_')}.${getOutputExtension(settings)}`;
+    }
+
+    if (settings.exportMode === 'audio') {
+        parts.push('audio');
+        return `${parts.join('_')}.${getOutputExtension(settings)}`;
+    }
+    
+    // Add quality info
+    if (settings.maxFileSizeMB < 500) {
+        parts.push(`${settings.maxFileSizeMB}MB`);
+    } else if (settings.socialMediaOptimization) {
+        parts.push(settings.platform);
+    } else {
+        parts.push(settings.quality);
+        parts.push(settings.resolution);
+    }
+    
+    // Add preset if not using max file size
+    if (settings.maxFileSizeMB >= 500) {
+        parts.push(settings.preset);
+    }
+    
+    return `${parts.join('_')}.${getOutputExtension(settings)}`;
+}
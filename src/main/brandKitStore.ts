@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrandKit } from '../types';
+
+interface BrandKitState {
+    kits: BrandKit[];
+}
+
+/**
+ * Named brand kits: fonts, a colour palette, logos and text styles. Kits
+ * are persisted as JSON under userData, and logos are copied next to it so
+ * a kit keeps working after the originals move. Fonts are only referenced
+ * by family; the files themselves belong to FontManager.
+ */
+export class BrandKitStore {
+    private kits: BrandKit[] = [];
+
+    constructor(
+        private readonly storePath: string,
+        private readonly logosDir: string,
+        private readonly onChange: (kits: BrandKit[]) => void
+    ) {
+        this.load();
+    }
+
+    getKits(): BrandKit[] {
+        return this.kits;
+    }
+
+    /**
+     * Creates the kit, or replaces the stored one with the same id. Logos
+     * dropped from the kit are deleted.
+     */
+    saveKit(kit: BrandKit): BrandKit {
+        const existing = this.kits.find((candidate) => candidate.id === kit.id);
+        if (existing) {
+            this.removeLogos(existing.logos.filter((logo) => !kit.logos.includes(logo)));
+            this.kits = this.kits.map((candidate) => candidate.id === kit.id ? kit : candidate);
+        } else {
+            this.kits = [...this.kits, kit];
+        }
+        this.save();
+        return kit;
+    }
+
+    deleteKit(kitId: string): boolean {
+        const kit = this.kits.find((candidate) => candidate.id === kitId);
+        if (!kit) {
+            return false;
+        }
+        this.removeLogos(kit.logos);
+        this.kits = this.kits.filter((candidate) => candidate !== kit);
+        this.save();
+        return true;
+    }
+
+    async importLogo(kitId: string, filePath: string): Promise<BrandKit> {
+        const kit = this.kits.find((candidate) => candidate.id === kitId);
+        if (!kit) {
+            throw new Error('Brand kit not found');
+        }
+
+        await fs.promises.mkdir(this.logosDir, { recursive: true });
+        const logoPath = path.join(this.logosDir, `${kitId}-${Date.now()}${path.extname(filePath).toLowerCase()}`);
+        await fs.promises.copyFile(filePath, logoPath);
+        return this.saveKit({ ...kit, logos: [...kit.logos, logoPath] });
+    }
+
+    private removeLogos(logos: string[]): void {
+        for (const logo of logos) {
+            // Only delete the store's own copies, never a path the renderer made up
+            if (path.dirname(logo) === this.logosDir) {
+                fs.rmSync(logo, { force: true });
+            }
+        }
+    }
+
+    private load(): void {
+        try {
+            if (!fs.existsSync(this.storePath)) {
+                return;
+            }
+
+            const state: BrandKitState = JSON.parse(fs.readFileSync(this.storePath, 'utf-8'));
+            this.kits = state.kits || [];
+        } catch (error) {
+            console.error('Failed to load brand kits, starting empty:', error);
+            this.kits = [];
+        }
+    }
+
+    private save(): void {
+        try {
+            const state: BrandKitState = { kits: this.kits };
+            fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+            fs.writeFileSync(this.storePath, JSON.stringify(state, null, 2));
+        } catch (error) {
+            console.error('Failed to persist brand kits:', error);
+        }
+        this.onChange(this.kits);
+    }
+}
@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { VideoProcessor, ConversionCancelledError } from './videoProcessor';
+import { ConversionJob, conversionJobSchema, NewConversionJob, VideoConversionProgress, VideoSettingsConfig } from '../lib/ipc-schema';
+
+interface QueueState {
+    concurrency: number;
+    jobs: ConversionJob[];
+}
+
+interface ConversionQueueEvents {
+    onQueueChange: (jobs: ConversionJob[]) => void;
+    onJobChange: (job: ConversionJob) => void;
+}
+
+const MAX_CONCURRENCY = 8;
+
+/**
+ * Runs conversion jobs through VideoProcessor with a concurrency limit.
+ * The queue is persisted as JSON so pending jobs survive an app restart;
+ * jobs that were running when the app quit are queued again on load, and
+ * saved jobs that no longer match the job schema are dropped.
+ */
+export class ConversionQueue {
+    private jobs: ConversionJob[] = [];
+    private concurrency = 2;
+    private running = new Set<string>();
+
+    constructor(
+        private readonly storePath: string,
+        private readonly events: ConversionQueueEvents
+    ) {
+        this.load();
+    }
+
+    getJobs(): ConversionJob[] {
+        return this.jobs;
+    }
+
+    getConcurrency(): number {
+        return this.concurrency;
+    }
+
+    setConcurrency(concurrency: number): void {
+        this.concurrency = Math.max(1, Math.min(MAX_CONCURRENCY, Math.floor(concurrency)));
+        this.save();
+        this.pump();
+    }
+
+    addJobs(newJobs: NewConversionJob[], settings: VideoSettingsConfig): ConversionJob[] {
+        const added = newJobs.map((newJob, index) => {
+            const job: ConversionJob = {
+                id: `job-${Date.now()}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+                inputPath: newJob.inputPath,
+                outputPath: this.uniqueOutputPath(newJob.outputPath),
+                settings,
+                status: 'queued',
+                progress: 0,
+                createdAt: Date.now()
+            };
+            // Reserve the output path before the next job picks its name
+            this.jobs.push(job);
+            return job;
+        });
+
+        this.save();
+        this.events.onQueueChange(this.jobs);
+        this.pump();
+        return added;
+    }
+
+    cancelJob(jobId: string): boolean {
+        const job = this.jobs.find((candidate) => candidate.id === jobId);
+        if (!job) {
+            return false;
+        }
+
+        if (job.status === 'queued') {
+            this.updateJob(job, { status: 'cancelled', finishedAt: Date.now() });
+            return true;
+        }
+
+        if (job.status === 'running') {
+            // The run loop marks the job cancelled once ffmpeg exits
+            return VideoProcessor.cancelConversion(job.id);
+        }
+
+        return false;
+    }
+
+    removeJob(jobId: string): boolean {
+        const job = this.jobs.find((candidate) => candidate.id === jobId);
+        if (!job || job.status === 'running') {
+            return false;
+        }
+
+        this.jobs = this.jobs.filter((candidate) => candidate.id !== jobId);
+        this.save();
+        this.events.onQueueChange(this.jobs);
+        return true;
+    }
+
+    clearFinished(): void {
+        this.jobs = this.jobs.filter((job) => job.status === 'queued' || job.status === 'running');
+        this.save();
+        this.events.onQueueChange(this.jobs);
+    }
+
+    /**
+     * Starts queued jobs until the concurrency limit is reached.
+     */
+    pump(): void {
+        while (this.running.size < this.concurrency) {
+            const next = this.jobs.find((job) => job.status === 'queued');
+            if (!next) {
+                return;
+            }
+            this.runJob(next);
+        }
+    }
+
+    private async runJob(job: ConversionJob): Promise<void> {
+        this.running.add(job.id);
+        this.updateJob(job, { status: 'running', progress: 0, error: undefined, loudness: undefined, warnings: undefined, startedAt: Date.now() });
+
+        const onProgress = (progress: VideoConversionProgress) => {
+            job.progress = progress.progress;
+            this.events.onJobChange(job);
+        };
+
+        try {
+            const result = job.settings.socialMediaOptimization
+                ? await VideoProcessor.optimizeForSocialMedia(job.inputPath, job.outputPath, job.settings, onProgress, job.id)
+                : await VideoProcessor.convertToMp4(job.inputPath, job.outputPath, job.settings, onProgress, job.id);
+            this.updateJob(job, { status: 'done', progress: 100, loudness: result.loudness ?? undefined, warnings: result.warnings, finishedAt: Date.now() });
+        } catch (error) {
+            if (error instanceof ConversionCancelledError) {
+                this.updateJob(job, { status: 'cancelled', finishedAt: Date.now() });
+            } else {
+                console.error('Queued conversion failed:', error);
+                this.updateJob(job, { status: 'failed', error: (error as Error).message, finishedAt: Date.now() });
+            }
+        } finally {
+            this.running.delete(job.id);
+            this.pump();
+        }
+    }
+
+    private updateJob(job: ConversionJob, changes: Partial<ConversionJob>): void {
+        Object.assign(job, changes);
+        this.save();
+        this.events.onJobChange(job);
+    }
+
+    private uniqueOutputPath(outputPath: string): string {
+        const taken = (candidate: string) =>
+            fs.existsSync(candidate) ||
+            this.jobs.some((job) => job.outputPath === candidate && job.status !== 'cancelled' && job.status !== 'failed');
+
+        if (!taken(outputPath)) {
+            return outputPath;
+        }
+
+        const { dir, name, ext } = path.parse(outputPath);
+        let counter = 1;
+        let candidate = path.join(dir, `${name}_${counter}${ext}`);
+        while (taken(candidate)) {
+            counter++;
+            candidate = path.join(dir, `${name}_${counter}${ext}`);
+        }
+        return candidate;
+    }
+
+    private load(): void {
+        try {
+            if (!fs.existsSync(this.storePath)) {
+                return;
+            }
+
+            const state: Partial<QueueState> = JSON.parse(fs.readFileSync(this.storePath, 'utf-8'));
+            if (typeof state.concurrency === 'number' && state.concurrency > 0) {
+                this.concurrency = Math.min(MAX_CONCURRENCY, Math.floor(state.concurrency));
+            }
+            const savedJobs: unknown[] = Array.isArray(state.jobs) ? state.jobs : [];
+            this.jobs = savedJobs.flatMap((savedJob) => {
+                const parsed = conversionJobSchema.safeParse(savedJob);
+                if (!parsed.success) {
+                    console.warn('Dropping saved conversion job that does not match the schema:', parsed.error.message);
+                    return [];
+                }
+                const job = parsed.data;
+                return [job.status === 'running' ? { ...job, status: 'queued' as const, progress: 0 } : job];
+            });
+        } catch (error) {
+            console.error('Failed to load conversion queue, starting empty:', error);
+            this.jobs = [];
+        }
+    }
+
+    private save(): void {
+        try {
+            const state: QueueState = { concurrency: this.concurrency, jobs: this.jobs };
+            fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+            fs.writeFileSync(this.storePath, JSON.stringify(state, null, 2));
+        } catch (error) {
+            console.error('Failed to persist conversion queue:', error);
+        }
+    }
+}
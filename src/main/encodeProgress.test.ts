@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProgressParser, ProgressReport, withEta } from './encodeProgress';
+
+describe('ProgressParser', () => {
+    it('reports a block only once its progress line arrives', () => {
+        const reports: ProgressReport[] = [];
+        const parser = new ProgressParser((report) => reports.push(report));
+
+        // One block spread over two stderr chunks, with a log line in between
+        expect(parser.push('fps=29.97')).toBe(true);
+        expect(parser.push('bitrate=1024.5kbits/s')).toBe(true);
+        expect(parser.push('[libx264 @ 0x1] frame I:1 Avg QP:20.00')).toBe(false);
+        expect(reports).toHaveLength(0);
+        parser.push('total_size=65536');
+        parser.push('out_time_us=2500000');
+        parser.push('speed=1.5x');
+        parser.push('progress=continue');
+
+        expect(reports).toEqual([{ outTime: 2.5, totalSize: 65536, bitrate: 1024.5, speed: 1.5, fps: 29.97 }]);
+    });
+
+    it('reads N/A fields as 0 instead of keeping the previous block', () => {
+        const reports: ProgressReport[] = [];
+        const parser = new ProgressParser((report) => reports.push(report));
+
+        parser.push('out_time_us=4000000');
+        parser.push('speed=2x');
+        parser.push('progress=continue');
+        parser.push('out_time_us=N/A');
+        parser.push('out_time_ms=N/A');
+        parser.push('out_time=N/A');
+        parser.push('speed=N/A');
+        parser.push('progress=end');
+
+        expect(reports[1]).toEqual({ outTime: 0, totalSize: 0, bitrate: 0, speed: 0, fps: 0 });
+    });
+
+    it('falls back to out_time_ms, which is also in microseconds', () => {
+        const reports: ProgressReport[] = [];
+        const parser = new ProgressParser((report) => reports.push(report));
+
+        parser.push('out_time_ms=1500000');
+        parser.push('progress=continue');
+
+        expect(reports[0].outTime).toBe(1.5);
+    });
+});
+
+describe('withEta', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('waits for the warmup, then estimates from the progress rate', () => {
+        const onProgress = vi.fn();
+        const report = withEta(onProgress);
+
+        report({ progress: 0, timemark: '00:00:00.00', eta: null });
+        vi.setSystemTime(1000);
+        report({ progress: 10, timemark: '00:00:01.00', eta: null });
+        expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ progress: 10, eta: null }));
+
+        vi.setSystemTime(2000);
+        report({ progress: 20, timemark: '00:00:02.00', eta: null });
+        expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ progress: 20, eta: 8 }));
+    });
+
+    it('keeps the rate when progress steps back, e.g. for an N/A out_time', () => {
+        const onProgress = vi.fn();
+        const report = withEta(onProgress);
+
+        report({ progress: 0, timemark: '00:00:00.00', eta: null });
+        vi.setSystemTime(2000);
+        report({ progress: 20, timemark: '00:00:02.00', eta: null });
+        vi.setSystemTime(3000);
+        report({ progress: 0, timemark: '00:00:00.00', eta: null });
+
+        expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ eta: 10 }));
+    });
+});
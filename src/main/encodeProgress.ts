@@ -0,0 +1,99 @@
+import { VideoConversionProgress } from '../lib/ipc-schema';
+
+// Weight of the newest rate sample in the smoothed ETA
+const ETA_SMOOTHING = 0.1;
+// No ETA before the job has run this long, the first samples are mostly startup
+const ETA_WARMUP_MS = 2000;
+
+export interface ProgressReport {
+    // Seconds of output written so far
+    outTime: number;
+    // Bytes written so far
+    totalSize: number;
+    // kbps
+    bitrate: number;
+    // Multiple of realtime
+    speed: number;
+    fps: number;
+}
+
+/**
+ * Reads the key=value blocks ffmpeg writes with `-progress pipe:2`. Each block
+ * ends with a progress=continue or progress=end line, which is when the
+ * collected values are reported. Fields ffmpeg doesn't know yet are "N/A"
+ * and read as 0.
+ */
+export class ProgressParser {
+    private fields = new Map<string, string>();
+
+    constructor(private readonly onReport: (report: ProgressReport) => void) {}
+
+    // Returns whether the line was progress output rather than regular log
+    push(line: string): boolean {
+        const match = /^(\w+)=(\S*)$/.exec(line.trim());
+        if (!match) {
+            return false;
+        }
+
+        const [, key, value] = match;
+        if (key !== 'progress') {
+            this.fields.set(key, value);
+            return true;
+        }
+
+        // out_time_ms is in microseconds as well, despite its name
+        const outTime = this.read('out_time_us') || this.read('out_time_ms');
+        this.onReport({
+            outTime: Math.max(0, outTime / 1_000_000),
+            totalSize: this.read('total_size'),
+            bitrate: this.read('bitrate'),
+            speed: this.read('speed'),
+            fps: this.read('fps')
+        });
+        this.fields.clear();
+        return true;
+    }
+
+    // parseFloat drops units like "kbits/s" and "x"
+    private read(key: string): number {
+        const value = parseFloat(this.fields.get(key) ?? '');
+        return Number.isFinite(value) ? value : 0;
+    }
+}
+
+export function formatTimemark(seconds: number): string {
+    const hundredths = Math.floor(seconds * 100);
+    const hours = Math.floor(hundredths / 360000);
+    const minutes = Math.floor((hundredths % 360000) / 6000);
+    const rest = ((hundredths % 6000) / 100).toFixed(2).padStart(5, '0');
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${rest}`;
+}
+
+/**
+ * Wraps a job's progress callback to fill in `eta`. The rate is smoothed over
+ * the whole job, passes included, so one slow or fast stretch doesn't make
+ * the estimate jump around.
+ */
+export function withEta(
+    onProgress: (progress: VideoConversionProgress) => void
+): (progress: VideoConversionProgress) => void {
+    const startTime = Date.now();
+    let last: { time: number; progress: number } | null = null;
+    // Percent per second
+    let rate: number | null = null;
+
+    return (progress) => {
+        const now = Date.now();
+        if (last && now > last.time && progress.progress >= last.progress) {
+            const sample = (progress.progress - last.progress) / ((now - last.time) / 1000);
+            rate = rate === null ? sample : rate + ETA_SMOOTHING * (sample - rate);
+        }
+        last = { time: now, progress: progress.progress };
+
+        const isWarm = now - startTime >= ETA_WARMUP_MS;
+        const eta = isWarm && rate !== null && rate > 0
+            ? Math.max(0, (100 - progress.progress) / rate)
+            : null;
+        onProgress({ ...progress, eta });
+    };
+}
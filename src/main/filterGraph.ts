@@ -0,0 +1,51 @@
+/**
+ * Small builder for ffmpeg -filter_complex strings. Labels are passed around
+ * without brackets, e.g. '0:v' for the first input's video stream.
+ */
+export class FilterGraph {
+    private chains: string[] = [];
+    private labelCount = 0;
+
+    /** Returns a label that is not used anywhere else in this graph. */
+    label(prefix: string = 'f'): string {
+        this.labelCount++;
+        return `${prefix}${this.labelCount}`;
+    }
+
+    /** Appends `[in1][in2]filters[out1][out2]` to the graph. */
+    chain(inputs: string[], filters: string, outputs: string[]): void {
+        const inputLabels = inputs.map((input) => `[${input}]`).join('');
+        const outputLabels = outputs.map((output) => `[${output}]`).join('');
+        this.chains.push(`${inputLabels}${filters}${outputLabels}`);
+    }
+
+    /** Runs a single stream through `filters` and returns the new label. */
+    pipe(input: string, filters: string, prefix?: string): string {
+        const output = this.label(prefix);
+        this.chain([input], filters, [output]);
+        return output;
+    }
+
+    isEmpty(): boolean {
+        return this.chains.length === 0;
+    }
+
+    toString(): string {
+        return this.chains.join(';');
+    }
+}
+
+/**
+ * Quotes a value for use as a filter option inside a -filter_complex graph.
+ * The option parser needs backslashes, "'" and ':' escaped, and the graph
+ * parser then needs the result single-quoted so commas and brackets pass through.
+ */
+export function quoteFilterValue(value: string): string {
+    const optionEscaped = value.replace(/[\\':]/g, (char) => `\\${char}`);
+    return `'${optionEscaped.replace(/'/g, "'\\''")}'`;
+}
+
+/** Like quoteFilterValue, with forward slashes so Windows paths survive. */
+export function quoteFilterPath(filePath: string): string {
+    return quoteFilterValue(filePath.replace(/\\/g, '/'));
+}
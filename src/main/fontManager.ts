@@ -0,0 +1,282 @@
+import { app, CustomScheme, net, protocol } from 'electron';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { ALL_FONTS, FONT_PROTOCOL, IMPORTED_FONT_EXTENSIONS, normalizeFontWeight } from '../constants/fonts';
+import { ImportedFont } from '../types';
+
+const GOOGLE_FONTS_CSS_URL = 'https://fonts.googleapis.com/css2';
+
+// Style words in font file names, for files whose name table can't be read
+const WEIGHT_NAMES: Record<string, number> = {
+    thin: 100,
+    hairline: 100,
+    extralight: 200,
+    ultralight: 200,
+    light: 300,
+    regular: 400,
+    normal: 400,
+    book: 400,
+    medium: 500,
+    semibold: 600,
+    demibold: 600,
+    bold: 700,
+    extrabold: 800,
+    ultrabold: 800,
+    black: 900,
+    heavy: 900
+};
+
+/**
+ * Reads the family name and weight of a TrueType or OpenType file from its
+ * name and OS/2 tables. Returns null for anything else, including WOFF2,
+ * whose tables are compressed.
+ */
+function readSfntInfo(data: Buffer): { family: string; weight: number } | null {
+    if (data.length < 12) {
+        return null;
+    }
+    const signature = data.readUInt32BE(0);
+    if (signature !== 0x00010000 && data.toString('latin1', 0, 4) !== 'OTTO' && data.toString('latin1', 0, 4) !== 'true') {
+        return null;
+    }
+
+    const tables = new Map<string, number>();
+    const tableCount = data.readUInt16BE(4);
+    for (let index = 0; index < tableCount; index++) {
+        const record = 12 + index * 16;
+        if (record + 16 > data.length) {
+            return null;
+        }
+        tables.set(data.toString('latin1', record, record + 4), data.readUInt32BE(record + 8));
+    }
+
+    const nameTable = tables.get('name');
+    if (nameTable === undefined || nameTable + 6 > data.length) {
+        return null;
+    }
+    const names = new Map<string, string>();
+    const count = data.readUInt16BE(nameTable + 2);
+    const storage = nameTable + data.readUInt16BE(nameTable + 4);
+    for (let index = 0; index < count; index++) {
+        const record = nameTable + 6 + index * 12;
+        if (record + 12 > data.length) {
+            break;
+        }
+        const platform = data.readUInt16BE(record);
+        const nameId = data.readUInt16BE(record + 6);
+        const start = storage + data.readUInt16BE(record + 10);
+        const end = start + data.readUInt16BE(record + 8);
+        if (end > data.length || (platform !== 1 && platform !== 3)) {
+            continue;
+        }
+        // Windows names are UTF-16BE, Mac names are single byte
+        const value = platform === 3
+            ? Buffer.from(data.subarray(start, end)).swap16().toString('utf16le')
+            : data.toString('latin1', start, end);
+        names.set(`${platform}:${nameId}`, value);
+    }
+
+    // Typographic family (16) groups all weights under one name, older fonts only have 1
+    const family = names.get('3:16') ?? names.get('1:16') ?? names.get('3:1') ?? names.get('1:1');
+    if (!family) {
+        return null;
+    }
+    const os2Table = tables.get('OS/2');
+    const weight = os2Table !== undefined && os2Table + 6 <= data.length ? data.readUInt16BE(os2Table + 4) : 400;
+    return { family: family.trim(), weight: normalizeFontWeight(weight) };
+}
+
+/**
+ * Guesses family and weight from a name like "BrandSans-SemiBold.woff2".
+ */
+function parseFontFileName(filePath: string): { family: string; weight: number } {
+    const [family, style = ''] = path.basename(filePath, path.extname(filePath)).split('-');
+    const weight = WEIGHT_NAMES[style.toLowerCase().replace(/italic$/, '').replace(/[\s_]/g, '')] ?? 400;
+    return { family: family.replace(/([a-z])([A-Z])/g, '$1 $2').trim() || 'Imported Font', weight };
+}
+
+/**
+ * Finds font files for the families in ALL_FONTS, one file per weight, so
+ * the editor canvas and ffmpeg's drawtext render the same face.
+ *
+ * Fonts the user imported take precedence. Catalogue files are looked up in
+ * the fonts bundled with the app, then in the cache under userData, and only
+ * then downloaded from Google Fonts into the cache. The renderer reaches
+ * them all through the subclip-font:// protocol.
+ */
+export class FontManager {
+    // Downloads in flight keyed by file name, so parallel requests share one
+    private static pending = new Map<string, Promise<string>>();
+    // Index of imported fonts, read from disk on first use
+    private static importedFonts: ImportedFont[] | null = null;
+
+    // Passed to protocol.registerSchemesAsPrivileged() before the app is ready
+    static readonly scheme: CustomScheme = {
+        scheme: FONT_PROTOCOL,
+        privileges: { standard: true, secure: true, supportFetchAPI: true, corsEnabled: true }
+    };
+
+    /**
+     * Serves subclip-font://font/<family>/<weight>, as built by getFontUrl().
+     */
+    static registerProtocol(): void {
+        protocol.handle(FONT_PROTOCOL, async (request) => {
+            const [, family = '', weight = '400'] = new URL(request.url).pathname.split('/');
+            try {
+                const fontFile = await this.getFontFile(decodeURIComponent(family), Number(weight));
+                return net.fetch(pathToFileURL(fontFile).toString());
+            } catch (error) {
+                console.error('Error serving font:', error);
+                return new Response((error as Error).message, { status: 404 });
+            }
+        });
+    }
+
+    static async getFontFile(family: string, weight: number = 400): Promise<string> {
+        const imported = this.findImportedFont(family, weight);
+        if (imported) {
+            return path.join(this.getImportedDir(), imported.fileName);
+        }
+        if (!ALL_FONTS.includes(family)) {
+            throw new Error(`Unknown font family: ${family}`);
+        }
+
+        const fileName = `${family.replace(/\s+/g, '')}-${normalizeFontWeight(weight)}.ttf`;
+        const bundledPath = path.join(this.getBundledDir(), fileName);
+        if (fs.existsSync(bundledPath)) {
+            return bundledPath;
+        }
+        const cachedPath = path.join(this.getCacheDir(), fileName);
+        if (fs.existsSync(cachedPath)) {
+            return cachedPath;
+        }
+
+        let download = this.pending.get(fileName);
+        if (!download) {
+            download = this.download(family, normalizeFontWeight(weight), cachedPath)
+                .finally(() => this.pending.delete(fileName));
+            this.pending.set(fileName, download);
+        }
+        return download;
+    }
+
+    static getImportedFonts(): ImportedFont[] {
+        if (!this.importedFonts) {
+            try {
+                this.importedFonts = JSON.parse(fs.readFileSync(this.getImportedIndexPath(), 'utf-8'));
+            } catch {
+                this.importedFonts = [];
+            }
+        }
+        return this.importedFonts!;
+    }
+
+    /**
+     * Copies a font file into userData and indexes it. Importing the same
+     * family and weight again replaces the earlier file.
+     */
+    static async importFont(filePath: string): Promise<ImportedFont> {
+        const extension = path.extname(filePath).slice(1).toLowerCase();
+        if (!IMPORTED_FONT_EXTENSIONS.includes(extension)) {
+            throw new Error(`Unsupported font format: .${extension}`);
+        }
+
+        const data = await fs.promises.readFile(filePath);
+        const { family, weight } = readSfntInfo(data) ?? parseFontFileName(filePath);
+        const font: ImportedFont = { family, weight, fileName: this.getImportedFileName(family, weight, extension) };
+
+        const existing = this.getImportedFonts().find((imported) => imported.family === family && imported.weight === weight);
+        if (existing && existing.fileName !== font.fileName) {
+            await fs.promises.rm(path.join(this.getImportedDir(), existing.fileName), { force: true });
+        }
+        await fs.promises.mkdir(this.getImportedDir(), { recursive: true });
+        await fs.promises.writeFile(path.join(this.getImportedDir(), font.fileName), data);
+        this.saveImportedFonts([...this.getImportedFonts().filter((imported) => imported !== existing), font]);
+        return font;
+    }
+
+    static async removeImportedFont(family: string, weight: number): Promise<void> {
+        const font = this.getImportedFonts().find((imported) => imported.family === family && imported.weight === weight);
+        if (!font) {
+            return;
+        }
+        await fs.promises.rm(path.join(this.getImportedDir(), font.fileName), { force: true });
+        this.saveImportedFonts(this.getImportedFonts().filter((imported) => imported !== font));
+    }
+
+    /**
+     * Readable name plus a hash of the exact family and weight, so families
+     * that only differ in spaces or symbols, like "Brand Sans" and
+     * "BrandSans", don't share a file.
+     */
+    private static getImportedFileName(family: string, weight: number, extension: string): string {
+        const readable = family.replace(/[^\w-]+/g, '') || 'font';
+        const hash = createHash('sha256').update(`${family}\0${weight}`).digest('hex').slice(0, 8);
+        return `${readable}-${weight}-${hash}.${extension}`;
+    }
+
+    // Closest weight the user imported for the family, if any
+    private static findImportedFont(family: string, weight: number): ImportedFont | null {
+        return this.getImportedFonts()
+            .filter((font) => font.family === family)
+            .reduce<ImportedFont | null>((closest, font) =>
+                !closest || Math.abs(font.weight - weight) < Math.abs(closest.weight - weight) ? font : closest,
+            null);
+    }
+
+    private static saveImportedFonts(fonts: ImportedFont[]): void {
+        this.importedFonts = fonts;
+        fs.writeFileSync(this.getImportedIndexPath(), JSON.stringify(fonts, null, 2));
+    }
+
+    private static getImportedDir(): string {
+        return path.join(this.getCacheDir(), 'imported');
+    }
+
+    private static getImportedIndexPath(): string {
+        return path.join(this.getImportedDir(), 'fonts.json');
+    }
+
+    // Packaged builds unpack these from the asar archive so ffmpeg can read them
+    private static getBundledDir(): string {
+        return path.join(__dirname, '..', 'assets', 'fonts').replace(`app.asar${path.sep}`, `app.asar.unpacked${path.sep}`);
+    }
+
+    private static getCacheDir(): string {
+        return path.join(app.getPath('userData'), 'fonts');
+    }
+
+    /**
+     * Fetches the TTF for one weight. Google serves TrueType rather than
+     * WOFF2 to clients it doesn't recognise as browsers, which is what
+     * drawtext needs. Families without the weight fall back to their default.
+     */
+    private static async download(family: string, weight: number, targetPath: string): Promise<string> {
+        const familyParam = encodeURIComponent(family).replace(/%20/g, '+');
+        let response = await fetch(`${GOOGLE_FONTS_CSS_URL}?family=${familyParam}:wght@${weight}`);
+        if (response.status === 400) {
+            response = await fetch(`${GOOGLE_FONTS_CSS_URL}?family=${familyParam}`);
+        }
+        if (!response.ok) {
+            throw new Error(`Font ${family} is not available offline and could not be downloaded (HTTP ${response.status})`);
+        }
+
+        const fontUrl = /src:\s*url\(([^)]+)\)/.exec(await response.text())?.[1];
+        if (!fontUrl) {
+            throw new Error(`No font file found for ${family}`);
+        }
+        const fontResponse = await fetch(fontUrl);
+        if (!fontResponse.ok) {
+            throw new Error(`Failed to download ${family} (HTTP ${fontResponse.status})`);
+        }
+
+        // Write next to the target and rename, so a failed download never leaves a partial file in the cache
+        await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+        const partialPath = `${targetPath}.${process.pid}.part`;
+        await fs.promises.writeFile(partialPath, Buffer.from(await fontResponse.arrayBuffer()));
+        await fs.promises.rename(partialPath, targetPath);
+        return targetPath;
+    }
+}
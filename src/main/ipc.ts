@@ -0,0 +1,45 @@
+import { ipcMain, IpcMainEvent, IpcMainInvokeEvent, WebContents } from 'electron';
+import { z } from 'zod';
+import { IPC_ARGUMENTS, IpcArguments, IpcChannel, IpcEventChannel, IpcEvents } from '../lib/ipc-schema';
+
+function parseArguments<C extends IpcChannel>(channel: C, args: unknown[]): IpcArguments<C> {
+    const parsed = IPC_ARGUMENTS[channel].safeParse(args);
+    if (!parsed.success) {
+        console.error(`Rejected ${channel} call:\n${z.prettifyError(parsed.error)}`);
+        throw new Error(`Invalid arguments for ${channel}`);
+    }
+    return parsed.data as IpcArguments<C>;
+}
+
+/**
+ * ipcMain.handle() for a channel of the shared contract. The arguments are
+ * checked against the channel's schema first; calls that don't match reject
+ * the renderer's invoke() without running the handler.
+ */
+export function handle<C extends IpcChannel>(
+    channel: C,
+    handler: (event: IpcMainInvokeEvent, ...args: IpcArguments<C>) => unknown
+): void {
+    ipcMain.handle(channel, (event, ...args) => handler(event, ...parseArguments(channel, args)));
+}
+
+// ipcMain.on() counterpart of handle(), for channels the renderer only sends on
+export function listen<C extends IpcChannel>(
+    channel: C,
+    listener: (event: IpcMainEvent, ...args: IpcArguments<C>) => void
+): void {
+    ipcMain.on(channel, (event, ...args) => {
+        try {
+            listener(event, ...parseArguments(channel, args));
+        } catch (error) {
+            console.error(`Error handling ${channel}:`, error);
+        }
+    });
+}
+
+// webContents.send() for an event of the shared contract; closed windows are skipped
+export function send<C extends IpcEventChannel>(contents: WebContents, channel: C, ...args: IpcEvents[C]): void {
+    if (!contents.isDestroyed()) {
+        contents.send(channel, ...args);
+    }
+}
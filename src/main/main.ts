@@ -1,9 +1,20 @@
-import { app, BrowserWindow, ipcMain, dialog, shell } from 'electron';
+import { app, BrowserWindow, dialog, protocol, shell } from 'electron';
 import { autoUpdater } from 'electron-updater';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
-import { VideoProcessor, VideoConversionProgress, VideoSettingsConfig } from './videoProcessor';
+import { VideoProcessor, ConversionCancelledError } from './videoProcessor';
+import { ConversionQueue } from './conversionQueue';
+import { FontManager } from './fontManager';
+import { BrandKitStore } from './brandKitStore';
+import { TempFileManager } from './tempFiles';
+import { PathGrants } from './pathGrants';
+import { MediaProtocol } from './mediaProtocol';
+import { handle, listen, send } from './ipc';
+import { parseSubtitles } from '../lib/subtitles';
+import { parseProject, serializeProject } from '../lib/thumbnail-project';
+import { IMAGE_FILE_EXTENSIONS, VIDEO_FILE_EXTENSIONS } from '../constants/formats';
+import { IpcEventChannel, IpcEvents, VideoConversionProgress, VideoSettingsConfig } from '../lib/ipc-schema';
 
 const isDev = !app.isPackaged;
 
@@ -12,6 +23,9 @@ if (isDev) {
   app.setName('SubclipStarter');
 }
 
+// Chromium only reads scheme privileges at startup, so this runs before the app is ready
+protocol.registerSchemesAsPrivileged([FontManager.scheme, MediaProtocol.scheme]);
+
 // OIDC Configuration - use localhost for now in all modes
 const SERVER_URL = "http://localhost:3000";
 const REDIRECT_URI = "subclipstarter://auth/callback";
@@ -57,14 +71,14 @@ function handleAuthCallback(url: string) {
     const error = u.searchParams.get("error");
     
     if (error) {
-      mainWindow?.webContents.send("auth-error", error);
+      sendToMainWindow("auth-error", error);
     } else if (code && state) {
       exchangeCodeForTokens(code);
     } else {
-      mainWindow?.webContents.send("auth-error", "Invalid authorization response");
+      sendToMainWindow("auth-error", "Invalid authorization response");
     }
   } catch (error) {
-    mainWindow?.webContents.send("auth-error", "Failed to parse authorization response");
+    sendToMainWindow("auth-error", "Failed to parse authorization response");
   }
 }
 
@@ -103,20 +117,20 @@ async function exchangeCodeForTokens(code: string) {
     if (res.ok) {
       try {
         const data = JSON.parse(responseText);
-        mainWindow?.webContents.send("auth-success", data);
+        sendToMainWindow("auth-success", data);
       } catch (parseError) {
-        mainWindow?.webContents.send("auth-error", "Invalid token response format");
+        sendToMainWindow("auth-error", "Invalid token response format");
       }
     } else {
       try {
         const errorData = JSON.parse(responseText);
-        mainWindow?.webContents.send("auth-error", errorData.error_description || errorData.error || "Token exchange failed");
+        sendToMainWindow("auth-error", errorData.error_description || errorData.error || "Token exchange failed");
       } catch (parseError) {
-        mainWindow?.webContents.send("auth-error", "Token exchange failed with invalid response");
+        sendToMainWindow("auth-error", "Token exchange failed with invalid response");
       }
     }
   } catch (error) {
-    mainWindow?.webContents.send("auth-error", "Failed to exchange authorization code");
+    sendToMainWindow("auth-error", "Failed to exchange authorization code");
   }
 }
 
@@ -165,6 +179,30 @@ class AppUpdater {
 }
 
 let mainWindow: BrowserWindow | null = null;
+let conversionQueue: ConversionQueue | null = null;
+
+let brandKitStore: BrandKitStore | null = null;
+const tempFiles = new TempFileManager(os.tmpdir());
+const pathGrants = new PathGrants();
+
+const getBrandState = () => ({
+  kits: brandKitStore?.getKits() ?? [],
+  fonts: FontManager.getImportedFonts()
+});
+
+const broadcast = <C extends IpcEventChannel>(channel: C, ...args: IpcEvents[C]): void => {
+  BrowserWindow.getAllWindows().forEach((window) => {
+    if (!window.isDestroyed()) {
+      send(window.webContents, channel, ...args);
+    }
+  });
+};
+
+const sendToMainWindow = <C extends IpcEventChannel>(channel: C, ...args: IpcEvents[C]): void => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    send(mainWindow.webContents, channel, ...args);
+  }
+};
 
 const createWindow = (): void => {
   // Create the browser window.
@@ -177,7 +215,7 @@ const createWindow = (): void => {
       preload: path.join(__dirname, '../preload/preload.js'),
       nodeIntegration: false,
       contextIsolation: true,
-      webSecurity: false,
+      webSecurity: true,
     },
     title: 'Video Converter',
     titleBarStyle: 'hidden',
@@ -208,6 +246,10 @@ const createWindow = (): void => {
  * Add event listeners...
  */
 
+app.on('will-quit', () => {
+  tempFiles.cleanup();
+});
+
 app.on('window-all-closed', () => {
   // Respect the OSX convention of having the application in memory even
   // after all windows have been closed
@@ -219,6 +261,35 @@ app.on('window-all-closed', () => {
 app
   .whenReady()
   .then(() => {
+    conversionQueue = new ConversionQueue(
+      path.join(app.getPath('userData'), 'conversion-queue.json'),
+      {
+        onQueueChange: (jobs) => broadcast('queue-updated', jobs),
+        onJobChange: (job) => broadcast('queue-job-updated', job),
+      }
+    );
+    // Resume jobs that were pending when the app last quit
+    conversionQueue.pump();
+    tempFiles.sweep().catch((error) => console.error('Failed to sweep old temporary files:', error));
+    FontManager.registerProtocol();
+    const brandLogosDir = path.join(app.getPath('userData'), 'brand-logos');
+    brandKitStore = new BrandKitStore(
+      path.join(app.getPath('userData'), 'brand-kits.json'),
+      brandLogosDir,
+      () => broadcast('brand-updated', getBrandState())
+    );
+
+    pathGrants.grantDirectory(tempFiles.getSessionDir(), 'write');
+    pathGrants.grantDirectory(brandLogosDir);
+    // Queued jobs keep the access the user gave them in an earlier session.
+    // The queue only loads jobs that pass the job schema
+    for (const job of conversionQueue.getJobs()) {
+      pathGrants.grantFile(job.inputPath);
+      getSettingsPaths(job.settings).forEach((settingsPath) => pathGrants.grantFile(settingsPath));
+      pathGrants.grantFile(job.outputPath, 'write');
+    }
+    MediaProtocol.registerProtocol(pathGrants);
+
     createWindow();
     app.on('activate', () => {
       // On macOS it's common to re-create a window in the app when the
@@ -228,45 +299,79 @@ app
   })
   .catch(console.log);
 
+// Files a conversion reads besides its input
+const getSettingsPaths = (settings: VideoSettingsConfig): string[] => [
+  ...(settings.subtitles ? [settings.subtitles.path] : []),
+  ...settings.overlays.flatMap((overlay) => overlay.kind === 'image' ? [overlay.path] : [])
+];
+
 // IPC handlers for file operations
-ipcMain.handle('show-open-dialog', async (_, options?: { filters?: Array<{ name: string; extensions: string[] }> }) => {
+handle('show-open-dialog', async (_, options) => {
   const filters = options?.filters || [
     { name: 'Videos', extensions: ['mp4', 'avi', 'mov', 'mkv', 'webm', 'flv', 'wmv', 'm4v'] }
   ];
   
   const result = await dialog.showOpenDialog(mainWindow!, {
-    properties: ['openFile'],
+    properties: options?.multiple ? ['openFile', 'multiSelections'] : ['openFile'],
     filters: filters
   });
   
   if (!result.canceled && result.filePaths.length > 0) {
     const filePath = result.filePaths[0];
+    result.filePaths.forEach((selectedPath) => pathGrants.grantFile(selectedPath));
     
     return {
       success: true,
       filePath: filePath,
-      fileName: path.basename(filePath)
+      fileName: path.basename(filePath),
+      filePaths: result.filePaths
     };
   }
   
   return { success: false };
 });
 
-ipcMain.handle('show-save-dialog', async (_, defaultName: string) => {
+handle('show-directory-dialog', async () => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    properties: ['openDirectory', 'createDirectory']
+  });
+
+  if (!result.canceled && result.filePaths.length > 0) {
+    // Picked as a destination, e.g. for batch conversion outputs
+    pathGrants.grantDirectory(result.filePaths[0], 'write');
+    return { success: true, directoryPath: result.filePaths[0] };
+  }
+
+  return { success: false };
+});
+
+handle('show-save-dialog', async (_, defaultName, filters) => {
   const result = await dialog.showSaveDialog(mainWindow!, {
     defaultPath: defaultName,
-    filters: [
+    filters: filters || [
       { name: 'MP4 Videos', extensions: ['mp4'] },
+      { name: 'GIF Images', extensions: ['gif'] },
+      { name: 'WebP Images', extensions: ['webp'] },
       { name: 'PNG Images', extensions: ['png'] },
       { name: 'JPEG Images', extensions: ['jpg', 'jpeg'] }
     ]
   });
-  
+
+  if (!result.canceled && result.filePath) {
+    pathGrants.grantFile(result.filePath, 'write');
+  }
   return result;
 });
 
-ipcMain.handle('save-image', async (_, imagePath: string, imageData: string) => {
+// webUtils.getPathForFile() only knows paths of files the user really dropped,
+// and the preload reports each one here before handing it to the page
+listen('grant-dropped-path', (_, filePath) => {
+  pathGrants.grantFile(filePath);
+});
+
+handle('save-image', async (_, imagePath, imageData) => {
   try {
+    pathGrants.assertGranted('write', imagePath);
     const base64Data = imageData.replace(/^data:image\/\w+;base64,/, '');
     const buffer = Buffer.from(base64Data, 'base64');
     fs.writeFileSync(imagePath, buffer);
@@ -277,35 +382,58 @@ ipcMain.handle('save-image', async (_, imagePath: string, imageData: string) =>
   }
 });
 
-ipcMain.handle('show-in-finder', async (_, filePath: string) => {
+handle('save-project', async (_, filePath, project) => {
   try {
-    shell.showItemInFolder(filePath);
-    return { success: true };
+    pathGrants.assertGranted('write', filePath);
+    fs.writeFileSync(filePath, serializeProject(project));
+    return { success: true, filePath };
   } catch (error) {
-    console.error('Error showing in finder:', error);
+    console.error('Error saving project:', error);
     return { success: false, error: (error as Error).message };
   }
 });
 
-// Handle drag and drop
-ipcMain.handle('process-dropped-file', async (_, filePath: string) => {
+// Project files can be edited by hand, so a path in one is only granted when
+// it names an existing file of the kind the project uses it for
+const grantProjectFile = (filePath: string, extensions: string[]) => {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  if (path.isAbsolute(filePath) && extensions.includes(extension) && fs.statSync(filePath, { throwIfNoEntry: false })?.isFile()) {
+    pathGrants.grantFile(filePath);
+  }
+};
+
+handle('open-project', async (_, filePath) => {
   try {
-    return {
-      success: true,
-      filePath: filePath,
-      fileName: path.basename(filePath)
-    };
+    pathGrants.assertGranted('read', filePath);
+    const project = parseProject(fs.readFileSync(filePath, 'utf-8'));
+    // Opening a project gives access to the files it was made from
+    grantProjectFile(project.sourceVideoPath, VIDEO_FILE_EXTENSIONS);
+    project.layers.forEach((layer) => layer.kind === 'image' && grantProjectFile(layer.path, IMAGE_FILE_EXTENSIONS));
+    return { success: true, project };
   } catch (error) {
+    console.error('Error opening project:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+handle('show-in-finder', async (_, filePath) => {
+  try {
+    pathGrants.assertGranted('read', filePath);
+    shell.showItemInFolder(filePath);
+    return { success: true };
+  } catch (error) {
+    console.error('Error showing in finder:', error);
     return { success: false, error: (error as Error).message };
   }
 });
 
 // Get file URL for renderer
-ipcMain.handle('get-file-url', async (_, filePath: string) => {
+handle('get-file-url', async (_, filePath) => {
   try {
+    pathGrants.assertGranted('read', filePath);
     return {
       success: true,
-      url: `file://${filePath}`
+      url: MediaProtocol.getUrl(filePath)
     };
   } catch (error) {
     return { success: false, error: (error as Error).message };
@@ -313,12 +441,22 @@ ipcMain.handle('get-file-url', async (_, filePath: string) => {
 });
 
 // Video processing handlers
-ipcMain.handle('get-temp-dir', async () => {
-  return os.tmpdir();
+handle('get-temp-dir', async () => {
+  return tempFiles.getSessionDir();
+});
+
+handle('remove-temp-file', async (_, filePath) => {
+  try {
+    return { success: await tempFiles.removeFile(filePath) };
+  } catch (error) {
+    console.error('Error removing temporary file:', error);
+    return { success: false, error: (error as Error).message };
+  }
 });
 
-ipcMain.handle('write-file', async (_, filePath: string, data: Uint8Array) => {
+handle('write-file', async (_, filePath, data) => {
   try {
+    pathGrants.assertGranted('write', filePath);
     fs.writeFileSync(filePath, Buffer.from(data));
   } catch (error) {
     console.error('Error writing file:', error);
@@ -326,8 +464,10 @@ ipcMain.handle('write-file', async (_, filePath: string, data: Uint8Array) => {
   }
 });
 
-ipcMain.handle('copy-file', async (_, sourcePath: string, destPath: string) => {
+handle('copy-file', async (_, sourcePath, destPath) => {
   try {
+    pathGrants.assertGranted('read', sourcePath);
+    pathGrants.assertGranted('write', destPath);
     fs.copyFileSync(sourcePath, destPath);
   } catch (error) {
     console.error('Error copying file:', error);
@@ -335,8 +475,9 @@ ipcMain.handle('copy-file', async (_, sourcePath: string, destPath: string) => {
   }
 });
 
-ipcMain.handle('get-file-stats', async (_, filePath: string) => {
+handle('get-file-stats', async (_, filePath) => {
   try {
+    pathGrants.assertGranted('read', filePath);
     const stats = fs.statSync(filePath);
     return {
       size: stats.size,
@@ -349,8 +490,10 @@ ipcMain.handle('get-file-stats', async (_, filePath: string) => {
 });
 
 // Video processing IPC handlers
-ipcMain.handle('extract-first-frame', async (_, filePath: string, outputDir: string) => {
+handle('extract-first-frame', async (_, filePath, outputDir) => {
   try {
+    pathGrants.assertGranted('read', filePath);
+    pathGrants.assertGranted('write', outputDir);
     const thumbnailPath = await VideoProcessor.extractFirstFrame(filePath, outputDir);
     return { success: true, thumbnailPath };
   } catch (error) {
@@ -359,8 +502,45 @@ ipcMain.handle('extract-first-frame', async (_, filePath: string, outputDir: str
   }
 });
 
-ipcMain.handle('get-video-metadata', async (_, filePath: string) => {
+handle('extract-frame', async (_, filePath, outputDir, time, width) => {
+  try {
+    pathGrants.assertGranted('read', filePath);
+    pathGrants.assertGranted('write', outputDir);
+    const framePath = await VideoProcessor.extractFrame(filePath, outputDir, time, width);
+    return { success: true, framePath };
+  } catch (error) {
+    console.error('Error extracting frame:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+handle('extract-filmstrip', async (_, filePath, outputDir, count, width) => {
+  try {
+    pathGrants.assertGranted('read', filePath);
+    pathGrants.assertGranted('write', outputDir);
+    const frames = await VideoProcessor.extractFilmstrip(filePath, outputDir, count, width);
+    return { success: true, frames };
+  } catch (error) {
+    console.error('Error extracting filmstrip:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+handle('suggest-frames', async (_, filePath, outputDir, count, width) => {
   try {
+    pathGrants.assertGranted('read', filePath);
+    pathGrants.assertGranted('write', outputDir);
+    const frames = await VideoProcessor.suggestFrames(filePath, outputDir, count, width);
+    return { success: true, frames };
+  } catch (error) {
+    console.error('Error suggesting frames:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+handle('get-video-metadata', async (_, filePath) => {
+  try {
+    pathGrants.assertGranted('read', filePath);
     const metadata = await VideoProcessor.getVideoMetadata(filePath);
     return { success: true, metadata };
   } catch (error) {
@@ -369,73 +549,274 @@ ipcMain.handle('get-video-metadata', async (_, filePath: string) => {
   }
 });
 
+handle('load-subtitles', async (_, filePath) => {
+  try {
+    pathGrants.assertGranted('read', filePath);
+    const cues = parseSubtitles(await fs.promises.readFile(filePath, 'utf8'));
+    return { success: true, cues };
+  } catch (error) {
+    console.error('Error loading subtitles:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+handle('get-font-file', async (_, family, weight) => {
+  try {
+    const fontPath = await FontManager.getFontFile(family, weight);
+    return { success: true, fontPath };
+  } catch (error) {
+    console.error('Error getting font file:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+// Brand kit handlers
+handle('brand-get-state', async () => getBrandState());
+
+handle('brand-import-fonts', async (_, filePaths) => {
+  try {
+    pathGrants.assertGranted('read', ...filePaths);
+    const fonts = [];
+    for (const filePath of filePaths) {
+      fonts.push(await FontManager.importFont(filePath));
+    }
+    broadcast('brand-updated', getBrandState());
+    return { success: true, fonts };
+  } catch (error) {
+    console.error('Error importing fonts:', error);
+    broadcast('brand-updated', getBrandState());
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+handle('brand-remove-font', async (_, family, weight) => {
+  try {
+    await FontManager.removeImportedFont(family, weight);
+    broadcast('brand-updated', getBrandState());
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing font:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+handle('brand-save-kit', async (_, kit) => {
+  try {
+    if (!brandKitStore) {
+      throw new Error('Brand kits are not ready');
+    }
+    // Logos are the store's own copies, added through brand-import-logo
+    pathGrants.assertGranted('read', ...kit.logos);
+    return { success: true, kit: brandKitStore.saveKit(kit) };
+  } catch (error) {
+    console.error('Error saving brand kit:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+handle('brand-delete-kit', async (_, kitId) => {
+  const deleted = brandKitStore?.deleteKit(kitId) ?? false;
+  return deleted ? { success: true } : { success: false, error: 'Brand kit not found' };
+});
+
+handle('brand-import-logo', async (_, kitId, filePath) => {
+  try {
+    if (!brandKitStore) {
+      throw new Error('Brand kits are not ready');
+    }
+    pathGrants.assertGranted('read', filePath);
+    return { success: true, kit: await brandKitStore.importLogo(kitId, filePath) };
+  } catch (error) {
+    console.error('Error importing logo:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
 // Store active conversions to handle progress updates
 const activeConversions = new Map<string, BrowserWindow>();
 
-ipcMain.handle('convert-video', async (event, inputPath: string, outputPath: string, settings: VideoSettingsConfig, conversionId: string) => {
+handle('convert-video', async (event, inputPath, outputPath, settings, conversionId) => {
   try {
+    pathGrants.assertGranted('read', inputPath, ...getSettingsPaths(settings));
+    pathGrants.assertGranted('write', outputPath);
     const senderWindow = BrowserWindow.fromWebContents(event.sender);
     if (senderWindow) {
       activeConversions.set(conversionId, senderWindow);
     }
 
-    const convertedPath = await VideoProcessor.convertToMp4(
+    const result = await VideoProcessor.convertToMp4(
       inputPath,
       outputPath,
       settings,
       (progress: VideoConversionProgress) => {
         const window = activeConversions.get(conversionId);
         if (window && !window.isDestroyed()) {
-          window.webContents.send('conversion-progress', conversionId, progress);
+          send(window.webContents, 'conversion-progress', conversionId, progress);
         }
-      }
+      },
+      conversionId
     );
 
     activeConversions.delete(conversionId);
-    return { success: true, convertedPath };
+    return { success: true, convertedPath: result.outputPath, loudness: result.loudness, warnings: result.warnings };
   } catch (error) {
-    console.error('Error converting video:', error);
     activeConversions.delete(conversionId);
+    if (error instanceof ConversionCancelledError) {
+      return { success: false, cancelled: true, error: error.message };
+    }
+    console.error('Error converting video:', error);
     return { success: false, error: (error as Error).message };
   }
 });
 
-ipcMain.handle('optimize-for-social-media', async (
+handle('optimize-for-social-media', async (
   event, 
-  inputPath: string, 
-  outputPath: string, 
-  settings: VideoSettingsConfig,
-  conversionId: string
+  inputPath, 
+  outputPath, 
+  settings,
+  conversionId
 ) => {
   try {
+    pathGrants.assertGranted('read', inputPath, ...getSettingsPaths(settings));
+    pathGrants.assertGranted('write', outputPath);
     const senderWindow = BrowserWindow.fromWebContents(event.sender);
     if (senderWindow) {
       activeConversions.set(conversionId, senderWindow);
     }
 
-    const convertedPath = await VideoProcessor.optimizeForSocialMedia(
+    const result = await VideoProcessor.optimizeForSocialMedia(
       inputPath,
       outputPath,
       settings,
       (progress: VideoConversionProgress) => {
         const window = activeConversions.get(conversionId);
         if (window && !window.isDestroyed()) {
-          window.webContents.send('conversion-progress', conversionId, progress);
+          send(window.webContents, 'conversion-progress', conversionId, progress);
         }
-      }
+      },
+      conversionId
     );
 
     activeConversions.delete(conversionId);
-    return { success: true, convertedPath };
+    return { success: true, convertedPath: result.outputPath, loudness: result.loudness, warnings: result.warnings };
   } catch (error) {
-    console.error('Error optimizing video for social media:', error);
     activeConversions.delete(conversionId);
+    if (error instanceof ConversionCancelledError) {
+      return { success: false, cancelled: true, error: error.message };
+    }
+    console.error('Error optimizing video for social media:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+handle('compare-quality', async (event, originalPath, convertedPath, segments, comparisonId) => {
+  try {
+    pathGrants.assertGranted('read', originalPath, convertedPath);
+    const senderWindow = BrowserWindow.fromWebContents(event.sender);
+    if (senderWindow) {
+      activeConversions.set(comparisonId, senderWindow);
+    }
+
+    const metrics = await VideoProcessor.compareQuality(
+      originalPath,
+      convertedPath,
+      segments,
+      (progress: VideoConversionProgress) => {
+        const window = activeConversions.get(comparisonId);
+        if (window && !window.isDestroyed()) {
+          send(window.webContents, 'conversion-progress', comparisonId, progress);
+        }
+      },
+      comparisonId
+    );
+
+    activeConversions.delete(comparisonId);
+    return { success: true, metrics };
+  } catch (error) {
+    activeConversions.delete(comparisonId);
+    if (error instanceof ConversionCancelledError) {
+      return { success: false, cancelled: true, error: error.message };
+    }
+    console.error('Error comparing quality:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+handle('estimate-output', async (event, inputPath, settings, estimateId) => {
+  try {
+    pathGrants.assertGranted('read', inputPath, ...getSettingsPaths(settings));
+    const senderWindow = BrowserWindow.fromWebContents(event.sender);
+    if (senderWindow) {
+      activeConversions.set(estimateId, senderWindow);
+    }
+
+    const estimate = await VideoProcessor.estimateOutput(inputPath, settings, estimateId);
+    activeConversions.delete(estimateId);
+    return { success: true, estimate };
+  } catch (error) {
+    activeConversions.delete(estimateId);
+    if (error instanceof ConversionCancelledError) {
+      return { success: false, cancelled: true, error: error.message };
+    }
+    console.error('Error estimating output:', error);
     return { success: false, error: (error as Error).message };
   }
 });
 
+handle('cancel-conversion', async (_, conversionId) => {
+  if (!activeConversions.has(conversionId)) {
+    return { success: false, error: 'No active conversion with this id' };
+  }
+
+  const cancelled = VideoProcessor.cancelConversion(conversionId);
+  return cancelled ? { success: true } : { success: false, error: 'Conversion is no longer running' };
+});
+
+// Batch conversion queue handlers
+handle('queue-get-jobs', async () => {
+  return {
+    jobs: conversionQueue?.getJobs() ?? [],
+    concurrency: conversionQueue?.getConcurrency() ?? 1
+  };
+});
+
+handle('queue-add-jobs', async (_, jobs, settings) => {
+  try {
+    if (!conversionQueue) {
+      throw new Error('Conversion queue is not ready');
+    }
+    pathGrants.assertGranted('read', ...jobs.map((job) => job.inputPath), ...getSettingsPaths(settings));
+    pathGrants.assertGranted('write', ...jobs.map((job) => job.outputPath));
+    const added = conversionQueue.addJobs(jobs, settings);
+    return { success: true, jobs: added };
+  } catch (error) {
+    console.error('Error adding jobs to queue:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+handle('queue-cancel-job', async (_, jobId) => {
+  const cancelled = conversionQueue?.cancelJob(jobId) ?? false;
+  return cancelled ? { success: true } : { success: false, error: 'Job is not queued or running' };
+});
+
+handle('queue-remove-job', async (_, jobId) => {
+  const removed = conversionQueue?.removeJob(jobId) ?? false;
+  return removed ? { success: true } : { success: false, error: 'Running jobs must be cancelled before removal' };
+});
+
+handle('queue-clear-finished', async () => {
+  conversionQueue?.clearFinished();
+  return { success: true };
+});
+
+handle('queue-set-concurrency', async (_, concurrency) => {
+  conversionQueue?.setConcurrency(concurrency);
+  return { success: true, concurrency: conversionQueue?.getConcurrency() ?? 1 };
+});
+
 // OIDC Authentication IPC handlers
-ipcMain.handle('start-oidc-auth', async () => {
+handle('start-oidc-auth', async () => {
   try {
     const crypto = await import('crypto');
     
@@ -505,7 +886,7 @@ ipcMain.handle('start-oidc-auth', async () => {
   }
 });
 
-ipcMain.handle('test-protocol', async () => {
+handle('test-protocol', async () => {
   const testUrl = 'subclipstarter://auth/callback?code=test123&state=teststate';
   handleAuthCallback(testUrl);
   return { success: true };
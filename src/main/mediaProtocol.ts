@@ -0,0 +1,101 @@
+import { CustomScheme, protocol } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { PathGrants } from './pathGrants';
+
+const MEDIA_PROTOCOL = 'subclip-media';
+
+const MIME_TYPES: Record<string, string> = {
+    '.mp4': 'video/mp4',
+    '.m4v': 'video/mp4',
+    '.mov': 'video/quicktime',
+    '.webm': 'video/webm',
+    '.mkv': 'video/x-matroska',
+    '.avi': 'video/x-msvideo',
+    '.flv': 'video/x-flv',
+    '.wmv': 'video/x-ms-wmv',
+    '.mp3': 'audio/mpeg',
+    '.m4a': 'audio/mp4',
+    '.aac': 'audio/aac',
+    '.opus': 'audio/ogg',
+    '.flac': 'audio/flac',
+    '.wav': 'audio/wav',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml'
+};
+
+/**
+ * Serves videos, frames and images from disk to the renderer, which runs
+ * with web security on and so can't load file:// URLs. Only paths in
+ * PathGrants are served. Range requests are answered so video elements can
+ * seek without reading the whole file.
+ */
+export class MediaProtocol {
+    // Passed to protocol.registerSchemesAsPrivileged() before the app is ready
+    static readonly scheme: CustomScheme = {
+        scheme: MEDIA_PROTOCOL,
+        privileges: { standard: true, secure: true, supportFetchAPI: true, corsEnabled: true, stream: true }
+    };
+
+    static getUrl(filePath: string): string {
+        return `${MEDIA_PROTOCOL}://file${pathToFileURL(filePath).pathname}`;
+    }
+
+    /**
+     * Serves subclip-media://file/<path>, as built by getUrl().
+     */
+    static registerProtocol(grants: PathGrants): void {
+        protocol.handle(MEDIA_PROTOCOL, async (request) => {
+            try {
+                const filePath = fileURLToPath(`file://${new URL(request.url).pathname}`);
+                if (!grants.isGranted(filePath)) {
+                    return new Response('Not found', { status: 404 });
+                }
+                return await this.serveFile(filePath, request.headers.get('Range'));
+            } catch (error) {
+                console.error('Error serving media:', error);
+                return new Response((error as Error).message, { status: 404 });
+            }
+        });
+    }
+
+    private static async serveFile(filePath: string, range: string | null): Promise<Response> {
+        const { size } = await fs.promises.stat(filePath);
+        const headers: Record<string, string> = {
+            'Content-Type': MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream',
+            'Accept-Ranges': 'bytes',
+            // Lets the thumbnail designer export canvases these images were drawn on
+            'Access-Control-Allow-Origin': '*'
+        };
+
+        const match = range ? /^bytes=(\d*)-(\d*)$/.exec(range.trim()) : null;
+        if (!match || (!match[1] && !match[2])) {
+            return new Response(this.readStream(filePath), { headers: { ...headers, 'Content-Length': String(size) } });
+        }
+
+        // "bytes=-500" asks for the last 500 bytes
+        const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+        const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+        if (start >= size || start > end) {
+            return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${size}` } });
+        }
+        return new Response(this.readStream(filePath, start, end), {
+            status: 206,
+            headers: {
+                ...headers,
+                'Content-Range': `bytes ${start}-${end}/${size}`,
+                'Content-Length': String(end - start + 1)
+            }
+        });
+    }
+
+    private static readStream(filePath: string, start?: number, end?: number): ReadableStream {
+        return Readable.toWeb(fs.createReadStream(filePath, { start, end })) as ReadableStream;
+    }
+}
@@ -0,0 +1,40 @@
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { PathGrants } from './pathGrants';
+
+const ROOT = path.resolve('/videos/project');
+
+describe('PathGrants.assertGranted', () => {
+    it('allows files inside a granted folder', () => {
+        const grants = new PathGrants();
+        grants.grantDirectory(ROOT);
+
+        expect(() => grants.assertGranted('read', ROOT, path.join(ROOT, 'clips', 'a.mp4'))).not.toThrow();
+    });
+
+    it('rejects a sibling folder that shares the prefix', () => {
+        const grants = new PathGrants();
+        grants.grantDirectory(ROOT, 'write');
+
+        expect(() => grants.assertGranted('read', `${ROOT}2/a.mp4`)).toThrow('was not allowed');
+        expect(() => grants.assertGranted('write', `${ROOT}-old`)).toThrow('was not allowed');
+    });
+
+    it('rejects paths that climb out with ..', () => {
+        const grants = new PathGrants();
+        grants.grantDirectory(ROOT, 'write');
+
+        expect(() => grants.assertGranted('read', path.join(ROOT, '..', 'secret.mp4'))).toThrow('was not allowed');
+        expect(() => grants.assertGranted('read', `${ROOT}/clips/../../secret.mp4`)).toThrow('was not allowed');
+        expect(() => grants.assertGranted('read', `${ROOT}/clips/../a.mp4`)).not.toThrow();
+    });
+
+    it('only lets read grants read', () => {
+        const grants = new PathGrants();
+        const file = path.join(ROOT, 'a.mp4');
+        grants.grantFile(file);
+
+        expect(() => grants.assertGranted('read', file)).not.toThrow();
+        expect(() => grants.assertGranted('write', file)).toThrow(`Writing ${file} was not allowed`);
+    });
+});
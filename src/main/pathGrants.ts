@@ -0,0 +1,59 @@
+import * as path from 'path';
+
+// Write access includes reading, e.g. to show a saved file's size
+export type PathAccess = 'read' | 'write';
+
+/**
+ * Paths the renderer is allowed to hand to main. The user grants files by
+ * picking them in an open or save dialog or dropping them on the window,
+ * and folders by picking them in the directory dialog; folders the app
+ * owns, like the temp session dir, are granted up front. Handlers check
+ * every path they are given, so a renderer that goes astray can't read or
+ * overwrite anything else on disk.
+ */
+export class PathGrants {
+    private readonly files = new Map<string, PathAccess>();
+    private readonly directories = new Map<string, PathAccess>();
+
+    grantFile(filePath: string, access: PathAccess = 'read'): void {
+        this.grant(this.files, filePath, access);
+    }
+
+    // Grants the folder and everything below it
+    grantDirectory(directoryPath: string, access: PathAccess = 'read'): void {
+        this.grant(this.directories, directoryPath, access);
+    }
+
+    isGranted(filePath: string, access: PathAccess = 'read'): boolean {
+        const allows = (granted: PathAccess | undefined) => granted === 'write' || granted === access;
+
+        const resolved = path.resolve(filePath);
+        if (allows(this.files.get(resolved))) {
+            return true;
+        }
+        for (const [directory, granted] of this.directories) {
+            const relative = path.relative(directory, resolved);
+            const isInside = relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+            if (isInside && allows(granted)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    assertGranted(access: PathAccess, ...filePaths: string[]): void {
+        for (const filePath of filePaths) {
+            if (!this.isGranted(filePath, access)) {
+                throw new Error(`${access === 'write' ? 'Writing' : 'Reading'} ${filePath} was not allowed, choose it in a file dialog first`);
+            }
+        }
+    }
+
+    // Never downgrades a write grant to read
+    private grant(grants: Map<string, PathAccess>, grantedPath: string, access: PathAccess): void {
+        const resolved = path.resolve(grantedPath);
+        if (grants.get(resolved) !== 'write') {
+            grants.set(resolved, access);
+        }
+    }
+}
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const SESSION_PREFIX = 'subclip-session-';
+// Files older app versions wrote straight into the temp dir, e.g. converted_1718000000000.mp4
+const LEGACY_FILE_PATTERN = /^(?:(?:video|converted)_\d{13}\.\w+|(?:frame|suggested)_\d{13}_\d+\.png)$/;
+// Legacy files this fresh may still belong to an older version running alongside
+const LEGACY_MIN_AGE_MS = 24 * 60 * 60 * 1000;
+
+function isProcessRunning(pid: number): boolean {
+    try {
+        // Signal 0 only checks that the process exists
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+/**
+ * Scratch space for extracted frames, thumbnails and conversion outputs
+ * waiting to be copied to where the user saved them. Each run of the app
+ * gets its own directory under the OS temp dir, removed on quit. Directories
+ * of runs that crashed are swept on the next start, together with the loose
+ * files older versions left in the temp dir.
+ */
+export class TempFileManager {
+    private sessionDir: string | null = null;
+
+    constructor(private readonly rootDir: string) {}
+
+    getSessionDir(): string {
+        if (!this.sessionDir) {
+            this.sessionDir = path.join(this.rootDir, `${SESSION_PREFIX}${process.pid}`);
+            fs.mkdirSync(this.sessionDir, { recursive: true });
+        }
+        return this.sessionDir;
+    }
+
+    /**
+     * Deletes a file this session created. Paths outside the session
+     * directory are left alone, so the renderer can't remove arbitrary files.
+     */
+    async removeFile(filePath: string): Promise<boolean> {
+        if (!this.sessionDir || path.dirname(path.resolve(filePath)) !== this.sessionDir) {
+            return false;
+        }
+        await fs.promises.rm(filePath, { force: true });
+        return true;
+    }
+
+    async sweep(): Promise<void> {
+        const now = Date.now();
+        for (const entry of await fs.promises.readdir(this.rootDir, { withFileTypes: true })) {
+            const entryPath = path.join(this.rootDir, entry.name);
+            try {
+                if (entry.isDirectory() && entry.name.startsWith(SESSION_PREFIX)) {
+                    const pid = Number(entry.name.slice(SESSION_PREFIX.length));
+                    if (pid !== process.pid && !isProcessRunning(pid)) {
+                        await fs.promises.rm(entryPath, { recursive: true, force: true });
+                    }
+                } else if (entry.isFile() && LEGACY_FILE_PATTERN.test(entry.name)) {
+                    const { mtimeMs } = await fs.promises.stat(entryPath);
+                    if (now - mtimeMs > LEGACY_MIN_AGE_MS) {
+                        await fs.promises.rm(entryPath, { force: true });
+                    }
+                }
+            } catch (error) {
+                console.warn(`Could not clean up ${entryPath}:`, error);
+            }
+        }
+    }
+
+    /** Removes the session directory; runs synchronously as the app quits. */
+    cleanup(): void {
+        if (!this.sessionDir) {
+            return;
+        }
+        try {
+            fs.rmSync(this.sessionDir, { recursive: true, force: true });
+        } catch (error) {
+            console.error('Failed to remove temporary files:', error);
+        }
+        this.sessionDir = null;
+    }
+}
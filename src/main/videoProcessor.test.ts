@@ -0,0 +1,137 @@
+import { execFileSync } from 'child_process';
+import ffmpegStatic from 'ffmpeg-static';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { VideoSettingsConfig } from '../lib/ipc-schema';
+import { ConversionCancelledError, VideoProcessor } from './videoProcessor';
+
+// Only the font lookups reach into electron, and these jobs use no fonts
+vi.mock('electron', () => ({}));
+
+// ffmpeg-static downloads its binary on install, which not every checkout has done
+const hasFfmpeg = Boolean(ffmpegStatic && fs.existsSync(ffmpegStatic));
+
+const TWO_PASS_SETTINGS: VideoSettingsConfig = {
+    quality: 'medium',
+    resolution: '1080p',
+    bitrate: 5000,
+    preset: 'fast',
+    socialMediaOptimization: false,
+    platform: 'general',
+    enableHardwareAcceleration: false,
+    maxFileSizeMB: 2,
+    encodingMode: 'two-pass',
+    crf: 23,
+    videoCodec: 'h264',
+    container: 'mp4',
+    segments: [],
+    preferStreamCopy: false,
+    reframe: { aspectRatio: 'original', mode: 'crop', padColor: '#000000', cropX: 0.5, cropY: 0.5 },
+    subtitles: null,
+    overlays: [],
+    exportMode: 'video',
+    animation: { format: 'gif', fps: 15, width: 480, dither: 'sierra2_4a', loop: 0, range: null, maxFileSizeMB: 0 },
+    audio: { format: 'copy', bitrate: 192, sampleRate: null, channels: null, streamIndex: 0, sourceCodec: null },
+    audioProcessing: { normalize: false, targetLufs: null, highpassHz: 0, denoise: false, gainDb: 0, mute: false },
+    hdrMode: 'auto'
+};
+
+describe.skipIf(!hasFfmpeg)('two-pass encoding', () => {
+    let workDir: string;
+
+    beforeAll(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'subclip-test-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    // Temporal noise over a moving pattern is hard to compress, so a single-pass guess would miss
+    const createInput = (name: string, withAudio: boolean): string => {
+        const inputPath = path.join(workDir, name);
+        execFileSync(ffmpegStatic as string, [
+            '-y',
+            '-f', 'lavfi', '-i', 'testsrc2=size=640x360:rate=30:duration=8',
+            ...(withAudio ? ['-f', 'lavfi', '-i', 'sine=frequency=440:duration=8'] : []),
+            '-vf', 'noise=alls=30:allf=t',
+            '-c:v', 'libx264', '-crf', '12', '-preset', 'ultrafast',
+            ...(withAudio ? ['-c:a', 'aac'] : []),
+            '-shortest',
+            inputPath
+        ], { stdio: 'ignore' });
+        return inputPath;
+    };
+
+    const expectNearTarget = (outputPath: string, targetMB: number) => {
+        const sizeMB = fs.statSync(outputPath).size / (1024 * 1024);
+        expect(Math.abs(sizeMB - targetMB) / targetMB).toBeLessThan(0.05);
+    };
+
+    it('lands within 5% of the target size', async () => {
+        const inputPath = createInput('with-audio.mp4', true);
+        const outputPath = path.join(workDir, 'with-audio-out.mp4');
+        await VideoProcessor.convertToMp4(inputPath, outputPath, TWO_PASS_SETTINGS, () => {});
+        expectNearTarget(outputPath, TWO_PASS_SETTINGS.maxFileSizeMB);
+    });
+
+    it('gives the whole budget to video when the source has no audio', async () => {
+        const inputPath = createInput('silent.mp4', false);
+        const outputPath = path.join(workDir, 'silent-out.mp4');
+        await VideoProcessor.convertToMp4(inputPath, outputPath, { ...TWO_PASS_SETTINGS, maxFileSizeMB: 1 }, () => {});
+        expectNearTarget(outputPath, 1);
+    });
+
+    it('gives the whole budget to video when audio is muted', async () => {
+        const inputPath = createInput('muted.mp4', true);
+        const outputPath = path.join(workDir, 'muted-out.mp4');
+        const settings: VideoSettingsConfig = {
+            ...TWO_PASS_SETTINGS,
+            maxFileSizeMB: 1,
+            audioProcessing: { ...TWO_PASS_SETTINGS.audioProcessing, mute: true }
+        };
+        await VideoProcessor.convertToMp4(inputPath, outputPath, settings, () => {});
+        expectNearTarget(outputPath, 1);
+    });
+});
+
+describe.skipIf(!hasFfmpeg)('output files', () => {
+    let workDir: string;
+    let inputPath: string;
+
+    beforeAll(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'subclip-test-'));
+        inputPath = path.join(workDir, 'input.mp4');
+        execFileSync(ffmpegStatic as string, [
+            '-y', '-f', 'lavfi', '-i', 'testsrc2=size=640x360:rate=30:duration=20',
+            '-c:v', 'libx264', '-preset', 'ultrafast', inputPath
+        ], { stdio: 'ignore' });
+    });
+
+    afterAll(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('refuses to write over its input', async () => {
+        const size = fs.statSync(inputPath).size;
+        await expect(VideoProcessor.convertToMp4(inputPath, inputPath, TWO_PASS_SETTINGS, () => {}))
+            .rejects.toThrow('overwrite the video being converted');
+        expect(fs.statSync(inputPath).size).toBe(size);
+    });
+
+    it('leaves an existing output alone when cancelled', async () => {
+        const outputPath = path.join(workDir, 'existing.mp4');
+        fs.writeFileSync(outputPath, 'keep me');
+        const conversionId = 'cancelled-overwrite';
+        const settings: VideoSettingsConfig = { ...TWO_PASS_SETTINGS, encodingMode: 'crf', maxFileSizeMB: 500, preset: 'veryslow' };
+
+        await expect(VideoProcessor.convertToMp4(inputPath, outputPath, settings, () => {
+            VideoProcessor.cancelConversion(conversionId);
+        }, conversionId)).rejects.toBeInstanceOf(ConversionCancelledError);
+
+        expect(fs.readFileSync(outputPath, 'utf8')).toBe('keep me');
+        expect(fs.readdirSync(workDir).filter((file) => file.includes('.part'))).toEqual([]);
+    });
+});
@@ -1,38 +1,168 @@
-import ffmpeg from 'fluent-ffmpeg';
+import ffmpeg, { FfprobeFormat, FfprobeStream } from 'fluent-ffmpeg';
 import ffmpegStatic from 'ffmpeg-static';
+import ffprobeStatic from 'ffprobe-static';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { FilterGraph, quoteFilterPath, quoteFilterValue } from './filterGraph';
+import { ProgressParser, formatTimemark, withEta } from './encodeProgress';
+import { FontManager } from './fontManager';
+import { formatSrt, parseSubtitles, retimeCues } from '../lib/subtitles';
+import { ContentLightLevel, MasteringDisplay, getBitDepth, getContentLightLevel, getHdrFormat, getMasteringDisplay, getStreamRotation, parseIso6709, parseRational } from '../lib/media-probe';
+import { AudioExportOptions, AudioStreamInfo, ConversionResult, FramePreview, LoudnessMeasurement, OutputEstimate, QualityMetrics, ReframeOptions, SubtitleOptions, SubtitleStreamInfo, TimeRange, VideoConversionProgress, VideoMetadata, VideoSettingsConfig, VideoStreamInfo } from '../lib/ipc-schema';
+import { ImageOverlay, OverlayPlacement, TextOverlay } from '../types';
+import { normalizeFontWeight } from '../constants/fonts';
+import { ASPECT_RATIOS, AUDIO_FORMATS, VIDEO_CODECS, VideoCodec, LOUDNESS_TARGETS, LoudnessTarget, getAudioEncoder, getAudioExtension, getContainerExtension, getSubtitleEncoder, isSupportedFormat } from '../constants/formats';
 
-export interface VideoSettingsConfig {
-    quality: 'low' | 'medium' | 'high' | 'ultra';
-    resolution: '720p' | '1080p' | '1440p' | '4k';
-    bitrate: number;
-    preset: 'ultrafast' | 'fast' | 'medium' | 'slow' | 'veryslow';
-    socialMediaOptimization: boolean;
-    platform: 'instagram' | 'twitter' | 'youtube' | 'facebook' | 'general';
-    enableHardwareAcceleration: boolean;
-    maxFileSizeMB: number;
-}
+const AUDIO_BITRATE_KBPS = 128;
+
+const PRORES_PROFILES: Record<VideoSettingsConfig['quality'], number> = {
+    low: 0, // Proxy
+    medium: 2, // Standard
+    high: 3, // HQ
+    ultra: 3
+};
+
+const VP9_CPU_USED: Record<VideoSettingsConfig['preset'], number> = {
+    ultrafast: 5,
+    fast: 4,
+    medium: 2,
+    slow: 1,
+    veryslow: 0
+};
+
+const AOM_CPU_USED: Record<VideoSettingsConfig['preset'], number> = {
+    ultrafast: 8,
+    fast: 6,
+    medium: 5,
+    slow: 4,
+    veryslow: 3
+};
+
+// ffprobe codec names that can be stream-copied into each output codec
+const SOURCE_CODEC_NAMES: Record<VideoCodec, string> = {
+    h264: 'h264',
+    hevc: 'hevc',
+    vp9: 'vp9',
+    av1: 'av1',
+    prores: 'prores'
+};
+
+// Share of the target size reserved for container overhead in two-pass mode
+const TWO_PASS_CONTAINER_OVERHEAD = 0.02;
+
+// Attempts the animation size-target loop makes before giving up
+const MAX_ANIMATION_ATTEMPTS = 5;
+const MIN_ANIMATION_FPS = 8;
+const MIN_ANIMATION_WIDTH = 160;
+
+// The thumbnail filter buffers a whole batch, so keep batches small
+const MAX_THUMBNAIL_BATCH_FRAMES = 100;
+
+// Output estimates encode this many samples of this many seconds each
+const ESTIMATE_SAMPLE_COUNT = 3;
+const ESTIMATE_SAMPLE_SECONDS = 2;
+const MAX_CACHED_ESTIMATES = 50;
+
+// Size and length limits applied by optimizeForSocialMedia, 0 keeps the whole video
+const PLATFORM_LIMITS: Record<VideoSettingsConfig['platform'], { maxWidth: number; maxHeight: number; maxDuration: number }> = {
+    instagram: {
+        maxWidth: 1080,
+        maxHeight: 1920, // Support both square and vertical
+        maxDuration: 60
+    },
+    twitter: {
+        maxWidth: 1080,
+        maxHeight: 1920, // Support vertical videos
+        maxDuration: 140
+    },
+    youtube: {
+        maxWidth: 1920,
+        maxHeight: 1080,
+        maxDuration: 0
+    },
+    facebook: {
+        maxWidth: 1280,
+        maxHeight: 720,
+        maxDuration: 240
+    },
+    general: {
+        maxWidth: 1920,
+        maxHeight: 1080,
+        maxDuration: 0
+    }
+};
+
+// Keeps the source size, only rounding to the even dimensions h264 needs
+const EVEN_DIMENSIONS_FILTER = 'scale=trunc(iw/2)*2:trunc(ih/2)*2';
+
+// Share of the progress bar taken by the loudness analysis pass
+const LOUDNESS_PASS_SHARE = 20;
 
 if (ffmpegStatic) {
     ffmpeg.setFfmpegPath(ffmpegStatic);
 }
 
-export interface VideoConversionProgress {
-    progress: number;
-    timemark: string;
-    targetSize: number;
-    currentFps: number;
+// FFPROBE_PATH overrides the bundled binary, e.g. for a system ffprobe with more codecs
+const FFPROBE_PATH = process.env.FFPROBE_PATH || ffprobeStatic.path;
+ffmpeg.setFfprobePath(FFPROBE_PATH);
+
+export class ConversionCancelledError extends Error {
+    constructor(conversionId: string) {
+        super(`Conversion ${conversionId} was cancelled`);
+        this.name = 'ConversionCancelledError';
+    }
 }
 
-export interface VideoMetadata {
-    duration: number;
-    width: number;
-    height: number;
-    fps: number;
-    format: string;
+interface EncodeJob {
+    inputPath: string;
+    outputPath: string;
+    settings: VideoSettingsConfig;
+    metadata: VideoMetadata;
+    videoFilter: string;
+    // Seconds of output to keep from the start, 0 keeps everything
+    maxDuration: number;
+    // Subtitles retimed to the output timeline, written by encode()
+    subtitlePath?: string;
+    // First loudnorm pass over the output audio, measured by encode()
+    loudness?: LoudnessMeasurement;
+    // BT.709 8-bit SDR conversion picked by encode(), runs before any other video filter
+    sdrFilter?: string;
+    // Font files for overlay text and burned subtitles keyed by getFontKey(), resolved by encode()
+    fontFiles?: Record<string, string>;
+    // Output length bitrates are budgeted for when only a sample of it is encoded
+    bitrateDuration?: number;
+    // Estimate samples can fall between captions, and are encoded without them then
+    isSample?: boolean;
+}
+
+interface ActiveConversion {
+    command: ffmpeg.FfmpegCommand | null;
+    // Null for analyses that write no file
+    outputPath: string | null;
+    cancelled: boolean;
+}
+
+interface CachedEstimate {
+    result: Promise<OutputEstimate>;
+    // The run has its own conversion id, since several callers can wait on it
+    runId: string;
+    // estimateIds of the callers still waiting
+    callers: Set<string>;
+    settled: boolean;
 }
 
 export class VideoProcessor {
+    // Running ffmpeg commands keyed by conversion id so they can be killed on cancel
+    private static activeConversions = new Map<string, ActiveConversion>();
+    // Filters compiled into the bundled ffmpeg, listed once on first use
+    private static availableFilters: Promise<Set<string>> | null = null;
+    // Output estimates keyed by source file and settings, oldest first
+    private static estimates = new Map<string, CachedEstimate>();
+    // Ends the wait of each estimateOutput() caller, keyed by its estimateId
+    private static estimateCallers = new Map<string, () => void>();
+
     private static getResolutionDimensions(resolution: string): [number, number] {
         const resolutions = {
             '720p': [1280, 720] as [number, number],
@@ -58,12 +188,11 @@ export class VideoProcessor {
         }
 
         const targetSizeBytes = settings.maxFileSizeMB * 1024 * 1024;
-        const audioBitrate = 128;
         const overhead = 0.1;
         
         const availableForVideo = targetSizeBytes * (1 - overhead);
         const videoBitrate = Math.floor(
-            (availableForVideo * 8) / (duration * 1000) - audioBitrate
+            (availableForVideo * 8) / (duration * 1000) - AUDIO_BITRATE_KBPS
         );
         
         const finalBitrate = Math.max(500, Math.min(videoBitrate, settings.bitrate));
@@ -76,219 +205,1832 @@ export class VideoProcessor {
         
         return finalBitrate;
     }
+
+    /**
+     * Scaling and length cap of a conversion. Social media output follows the
+     * platform's limits; otherwise only a file size target scales the video down.
+     */
+    private static getConversionLimits(
+        settings: VideoSettingsConfig,
+        forSocialMedia: boolean
+    ): { videoFilter: string; maxDuration: number } {
+        if (forSocialMedia) {
+            const limits = PLATFORM_LIMITS[settings.platform];
+            // Maintain aspect ratio while respecting platform limits
+            return {
+                videoFilter: `scale='min(${limits.maxWidth},iw)':'min(${limits.maxHeight},ih)':force_original_aspect_ratio=decrease:force_divisible_by=2`,
+                maxDuration: limits.maxDuration
+            };
+        }
+
+        if (settings.maxFileSizeMB < 500) {
+            // For file size constraints, we may need to reduce resolution
+            const [maxWidth, maxHeight] = this.getResolutionDimensions(settings.resolution);
+            return {
+                videoFilter: `scale='min(${maxWidth},iw)':'min(${maxHeight},ih)':force_original_aspect_ratio=decrease:force_divisible_by=2`,
+                maxDuration: 0
+            };
+        }
+        // Maintain original resolution and aspect ratio
+        return { videoFilter: EVEN_DIMENSIONS_FILTER, maxDuration: 0 };
+    }
+    /**
+     * Probes every stream of the file. ffprobe runs with JSON output because
+     * rotation and HDR live in side data, which the fluent-ffmpeg parser drops.
+     */
     static async getVideoMetadata(filePath: string): Promise<VideoMetadata> {
-        return new Promise((resolve, reject) => {
-            ffmpeg.ffprobe(filePath, (err: any, metadata: any) => {
-                if (err) {
-                    reject(err);
-                    return;
-                }
+        const output = await this.runFfprobe([
+            '-v', 'error',
+            '-print_format', 'json',
+            '-show_format',
+            '-show_streams',
+            filePath
+        ]);
+        // fluent-ffmpeg's types match the JSON, except that it writes profiles as names, not numbers
+        const probe: { streams?: FfprobeStream[]; format?: FfprobeFormat } = JSON.parse(output);
+        const streams = probe.streams ?? [];
+        const format: FfprobeFormat = probe.format ?? {};
 
-                const videoStream = metadata.streams.find((stream: any) => stream.codec_type === 'video');
-                if (!videoStream) {
-                    reject(new Error('No video stream found'));
-                    return;
-                }
+        const videoStreams: VideoStreamInfo[] = streams
+            .filter((stream) => stream.codec_type === 'video')
+            .map((stream, index) => ({
+                index,
+                codec: stream.codec_name || '',
+                profile: stream.profile === undefined ? null : String(stream.profile),
+                width: stream.width || 0,
+                height: stream.height || 0,
+                fps: parseRational(stream.r_frame_rate) || parseRational(stream.avg_frame_rate) || 30,
+                pixelFormat: stream.pix_fmt || '',
+                bitDepth: getBitDepth(stream),
+                sampleAspectRatio: parseRational(stream.sample_aspect_ratio) || 1,
+                rotation: getStreamRotation(stream),
+                colorPrimaries: stream.color_primaries ?? null,
+                colorTransfer: stream.color_transfer ?? null,
+                colorSpace: stream.color_space ?? null,
+                hdr: getHdrFormat(stream),
+                masteringDisplay: getMasteringDisplay(stream.side_data_list),
+                contentLightLevel: getContentLightLevel(stream.side_data_list),
+                bitrate: Number(stream.bit_rate) || 0,
+                isCoverArt: stream.disposition?.attached_pic === 1
+            }));
 
-                resolve({
-                    duration: metadata.format.duration || 0,
-                    width: videoStream.width || 0,
-                    height: videoStream.height || 0,
-                    fps: eval(videoStream.r_frame_rate || '30') || 30,
-                    format: metadata.format.format_name || ''
-                });
-            });
-        });
+        const videoStream = videoStreams.find((stream) => !stream.isCoverArt);
+        if (!videoStream) {
+            throw new Error('No video stream found');
+        }
+        if (videoStream.hdr === 'hdr10' && !videoStream.masteringDisplay && !videoStream.contentLightLevel) {
+            Object.assign(videoStream, await this.probeHdr10Metadata(filePath, videoStream.index));
+        }
+
+        const audioStreams: AudioStreamInfo[] = streams
+            .filter((stream) => stream.codec_type === 'audio')
+            .map((stream, index) => ({
+                index,
+                codec: stream.codec_name || '',
+                profile: stream.profile === undefined ? null : String(stream.profile),
+                channels: stream.channels || 0,
+                channelLayout: stream.channel_layout || '',
+                sampleRate: Number(stream.sample_rate) || 0,
+                bitrate: Number(stream.bit_rate) || 0,
+                language: stream.tags?.language ?? null,
+                title: stream.tags?.title ?? null
+            }));
+
+        const subtitleStreams: SubtitleStreamInfo[] = streams
+            .filter((stream) => stream.codec_type === 'subtitle')
+            .map((stream, index) => ({
+                index,
+                codec: stream.codec_name || '',
+                language: stream.tags?.language ?? null,
+                title: stream.tags?.title ?? null
+            }));
+
+        // iPhones write the local capture time and location as QuickTime metadata keys
+        const tags = format.tags ?? {};
+        const creationTime = tags['com.apple.quicktime.creationdate'] ?? tags.creation_time;
+        return {
+            duration: Number(format.duration) || 0,
+            width: videoStream.width,
+            height: videoStream.height,
+            fps: videoStream.fps,
+            format: format.format_name || '',
+            videoCodec: videoStream.codec,
+            hasAudio: audioStreams.length > 0,
+            audioStreams,
+            bitrate: Number(format.bit_rate) || 0,
+            size: Number(format.size) || 0,
+            creationTime: creationTime === undefined ? null : String(creationTime),
+            location: parseIso6709(tags['com.apple.quicktime.location.ISO6709'] ?? tags.location),
+            videoStreams,
+            subtitleStreams,
+            rotation: videoStream.rotation,
+            hdr: videoStream.hdr
+        };
+    }
+
+    // HDR10 metadata from the first frame's side data, for streams that only carry it in SEI
+    private static async probeHdr10Metadata(
+        filePath: string,
+        streamIndex: number
+    ): Promise<{ masteringDisplay: MasteringDisplay | null; contentLightLevel: ContentLightLevel | null }> {
+        try {
+            const output = await this.runFfprobe([
+                '-v', 'error',
+                '-print_format', 'json',
+                '-select_streams', `v:${streamIndex}`,
+                '-read_intervals', '%+#1',
+                '-show_frames',
+                filePath
+            ]);
+            const sideData = JSON.parse(output).frames?.[0]?.side_data_list;
+            return { masteringDisplay: getMasteringDisplay(sideData), contentLightLevel: getContentLightLevel(sideData) };
+        } catch (error) {
+            console.warn('Could not read HDR10 metadata:', error);
+            return { masteringDisplay: null, contentLightLevel: null };
+        }
     }
 
     static async extractFirstFrame(filePath: string, outputDir: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            // Use timestamp to ensure unique thumbnail filename
-            const timestamp = Date.now();
-            const thumbnailFilename = `thumbnail_${timestamp}.png`;
-            const outputPath = path.join(outputDir, thumbnailFilename);
-            
+        // Two seconds in skips most fade-ins, shorter clips use their midpoint
+        const { duration } = await this.getVideoMetadata(filePath);
+        return this.extractFrame(filePath, outputDir, duration > 0 ? Math.min(2, duration / 2) : 0, 320);
+    }
+
+    /**
+     * Saves the frame shown at `time` as a PNG in outputDir. A null width keeps
+     * the source resolution; non-square pixels are stretched to square first.
+     */
+    static async extractFrame(filePath: string, outputDir: string, time: number, width: number | null): Promise<string> {
+        const outputPath = path.join(outputDir, `frame_${Date.now()}_${Math.round(time * 1000)}.png`);
+        const filters = ['scale=trunc(iw*sar/2)*2:ih', 'setsar=1'];
+        if (width) {
+            filters.push(`scale=${width}:-2`);
+        }
+
+        await new Promise<void>((resolve, reject) => {
             ffmpeg(filePath)
-                .screenshots({
-                    timestamps: ['00:00:02.000'],
-                    filename: thumbnailFilename,
-                    folder: outputDir,
-                    size: '320x?'  // Maintain aspect ratio, max width 320px
-                })
-                .on('end', () => {
-                    resolve(outputPath);
+                .seekInput(Math.max(0, time))
+                .videoFilters(filters)
+                .outputOptions(['-frames:v 1', '-an', '-sn'])
+                .output(outputPath)
+                .on('end', () => resolve())
+                .on('error', (err: Error) => reject(err))
+                .run();
+        });
+
+        // Seeking past the last frame succeeds without writing anything
+        if (!fs.existsSync(outputPath)) {
+            throw new Error(`No frame found at ${time.toFixed(2)}s`);
+        }
+        return outputPath;
+    }
+
+    /**
+     * `count` evenly spaced frames for scrubbing, taken from the middle of
+     * each slice of the clip. Extracted one at a time since each is a fast seek.
+     */
+    static async extractFilmstrip(filePath: string, outputDir: string, count: number, width: number): Promise<FramePreview[]> {
+        const { duration } = await this.getVideoMetadata(filePath);
+        const frames: FramePreview[] = [];
+        for (let index = 0; index < count; index++) {
+            const time = (duration * (index + 0.5)) / count;
+            frames.push({ time, path: await this.extractFrame(filePath, outputDir, time, width) });
+        }
+        return frames;
+    }
+
+    /**
+     * Thumbnail candidates from ffmpeg's thumbnail filter, which keeps the
+     * frame closest to the average colour histogram of each batch, so blurry
+     * or black transition frames lose out. The clip is split into `count`
+     * batches; long clips are sampled at a lower frame rate to bound memory.
+     */
+    static async suggestFrames(filePath: string, outputDir: string, count: number, width: number): Promise<FramePreview[]> {
+        const metadata = await this.getVideoMetadata(filePath);
+        const duration = Math.max(metadata.duration, 0.1);
+        const totalFrames = duration * (metadata.fps || 30);
+        const batchFrames = Math.max(1, Math.min(MAX_THUMBNAIL_BATCH_FRAMES, Math.floor(totalFrames / count)));
+        const sampleFps = Math.min(metadata.fps || 30, (count * batchFrames) / duration);
+
+        const pattern = path.join(outputDir, `suggested_${Date.now()}_%02d.png`);
+        const times: number[] = [];
+        await new Promise<void>((resolve, reject) => {
+            ffmpeg(filePath)
+                .videoFilters([
+                    `fps=${sampleFps.toFixed(3)}`,
+                    'scale=trunc(iw*sar/2)*2:ih',
+                    'setsar=1',
+                    `scale=${width}:-2`,
+                    `thumbnail=n=${batchFrames}`,
+                    'showinfo'
+                ])
+                .outputOptions(['-an', '-sn', '-fps_mode vfr'])
+                .output(pattern)
+                .on('stderr', (line: string) => {
+                    const match = line.match(/Parsed_showinfo.*pts_time:\s*([\d.]+)/);
+                    if (match) {
+                        times.push(parseFloat(match[1]));
+                    }
                 })
-                .on('error', (err: any) => {
-                    reject(err);
-                });
+                .on('end', () => resolve())
+                .on('error', (err: Error) => reject(err))
+                .run();
         });
+
+        return times
+            .map((time, index) => ({ time, path: pattern.replace('%02d', String(index + 1).padStart(2, '0')) }))
+            .filter((frame) => fs.existsSync(frame.path));
     }
 
     static async convertToMp4(
         inputPath: string,
         outputPath: string,
         settings: VideoSettingsConfig,
-        onProgress: (progress: VideoConversionProgress) => void
-    ): Promise<string> {
-        return new Promise(async (resolve, reject) => {
-            try {
-                const metadata = await this.getVideoMetadata(inputPath);
-                const optimalBitrate = this.calculateOptimalBitrate(settings, metadata.duration);
-                
-                // Maintain original aspect ratio - only scale if needed for size constraints
-                let videoFilter = '';
-                if (settings.maxFileSizeMB < 500) {
-                    // For file size constraints, we may need to reduce resolution
-                    const [maxWidth, maxHeight] = this.getResolutionDimensions(settings.resolution);
-                    videoFilter = `scale='min(${maxWidth},iw)':'min(${maxHeight},ih)':force_original_aspect_ratio=decrease`;
-                } else {
-                    // Maintain original resolution and aspect ratio
-                    videoFilter = 'scale=trunc(iw/2)*2:trunc(ih/2)*2'; // Ensure even dimensions for h264
+        onProgress: (progress: VideoConversionProgress) => void,
+        conversionId: string = `conversion-${Date.now()}`
+    ): Promise<ConversionResult> {
+        return this.convert(inputPath, outputPath, settings, false, withEta(onProgress), conversionId);
+    }
+
+    static async optimizeForSocialMedia(
+        inputPath: string,
+        outputPath: string,
+        settings: VideoSettingsConfig,
+        onProgress: (progress: VideoConversionProgress) => void,
+        conversionId: string = `social-conversion-${Date.now()}`
+    ): Promise<ConversionResult> {
+        return this.convert(inputPath, outputPath, settings, true, withEta(onProgress), conversionId);
+    }
+
+    /**
+     * Encodes into a `.part` file next to the output and renames it over the
+     * output once it's complete, so a cancelled or failed conversion never
+     * touches a file the user chose to overwrite.
+     */
+    private static async convert(
+        inputPath: string,
+        outputPath: string,
+        settings: VideoSettingsConfig,
+        forSocialMedia: boolean,
+        onProgress: (progress: VideoConversionProgress) => void,
+        conversionId: string
+    ): Promise<ConversionResult> {
+        if (path.resolve(inputPath) === path.resolve(outputPath)) {
+            throw new Error('The output would overwrite the video being converted, pick another file name');
+        }
+
+        const { dir, name, ext } = path.parse(outputPath);
+        const partPath = path.join(dir, `${name}.part${ext}`);
+        const conversion = this.registerConversion(conversionId, partPath);
+        try {
+            const metadata = await this.getVideoMetadata(inputPath);
+            const result = await this.encode(
+                { inputPath, outputPath: partPath, settings, metadata, ...this.getConversionLimits(settings, forSocialMedia) },
+                conversionId,
+                conversion,
+                onProgress
+            );
+            await fs.promises.rename(partPath, outputPath);
+            return { ...result, outputPath };
+        } catch (error) {
+            await fs.promises.rm(partPath, { force: true });
+            throw error;
+        } finally {
+            this.activeConversions.delete(conversionId);
+        }
+    }
+
+    /**
+     * Scores the converted file against the original with PSNR, SSIM and,
+     * when the bundled ffmpeg has libvmaf, VMAF. The original is seeked to the
+     * kept segments and the output scaled back to the original's size, so
+     * frames line up one to one. Runs as a conversion, so it reports
+     * progress and can be cancelled under `comparisonId`.
+     */
+    static async compareQuality(
+        originalPath: string,
+        convertedPath: string,
+        segments: TimeRange[],
+        onProgress: (progress: VideoConversionProgress) => void,
+        comparisonId: string = `comparison-${Date.now()}`
+    ): Promise<QualityMetrics> {
+        const conversion = this.registerConversion(comparisonId, null);
+        try {
+            return await this.measureQuality(originalPath, convertedPath, segments, comparisonId, conversion, withEta(onProgress));
+        } finally {
+            this.activeConversions.delete(comparisonId);
+        }
+    }
+
+    /**
+     * Predicts the size, encode time and quality of a conversion by encoding
+     * a few short samples spread over the output with the same settings and
+     * scaling the results up to the full length. Bitrates are still budgeted
+     * for the full output, so size targets come out right. Results are cached
+     * per file and settings, and callers asking for the same estimate share
+     * one run. Cancelling `estimateId` stops this caller's wait; the run is
+     * only killed once every caller waiting on it has cancelled.
+     */
+    static async estimateOutput(
+        inputPath: string,
+        settings: VideoSettingsConfig,
+        estimateId: string = `estimate-${Date.now()}`
+    ): Promise<OutputEstimate> {
+        if (settings.exportMode === 'animation') {
+            throw new Error('Animations re-render until they fit their size target, so they have no estimate');
+        }
+
+        // Modification time and size stand in for the file's contents
+        const { mtimeMs, size } = await fs.promises.stat(inputPath);
+        const key = JSON.stringify([path.resolve(inputPath), mtimeMs, size, settings]);
+        const shared = this.estimates.get(key) ?? this.startEstimate(key, inputPath, settings, `${estimateId}-run`);
+        shared.callers.add(estimateId);
+        try {
+            return await new Promise<OutputEstimate>((resolve, reject) => {
+                this.estimateCallers.set(estimateId, () => {
+                    shared.callers.delete(estimateId);
+                    if (shared.callers.size === 0 && !shared.settled) {
+                        // Nobody wants this result any more, so a later request starts afresh
+                        if (this.estimates.get(key) === shared) {
+                            this.estimates.delete(key);
+                        }
+                        this.cancelConversion(shared.runId);
+                    }
+                    reject(new ConversionCancelledError(estimateId));
+                });
+                shared.result.then(resolve, reject);
+            });
+        } finally {
+            shared.callers.delete(estimateId);
+            this.estimateCallers.delete(estimateId);
+        }
+    }
+
+    // Runs an estimate and caches it under `key`, dropping it again if it fails
+    private static startEstimate(key: string, inputPath: string, settings: VideoSettingsConfig, runId: string): CachedEstimate {
+        const estimate: CachedEstimate = {
+            result: this.runEstimate(inputPath, settings, runId),
+            runId,
+            callers: new Set(),
+            settled: false
+        };
+        estimate.result
+            .catch(() => {
+                if (this.estimates.get(key) === estimate) {
+                    this.estimates.delete(key);
                 }
-                
-                const outputOptions = [
-                    '-c:v libx264',
-                    `-preset ${settings.preset}`,
-                    `-b:v ${optimalBitrate}k`,
-                    '-c:a aac',
-                    '-b:a 128k',
-                    '-movflags +faststart',
-                    `-vf ${videoFilter}`
-                ];
-
-                let command = ffmpeg(inputPath);
-                
-                // Add HEVC/H.265 input codec detection
-                if (inputPath.toLowerCase().includes('.hevc') || inputPath.toLowerCase().includes('.h265')) {
-                    command = command.inputOptions(['-c:v hevc']);
+            })
+            .finally(() => {
+                estimate.settled = true;
+            });
+
+        this.estimates.set(key, estimate);
+        if (this.estimates.size > MAX_CACHED_ESTIMATES) {
+            this.estimates.delete(this.estimates.keys().next().value!);
+        }
+        return estimate;
+    }
+
+    private static async runEstimate(
+        inputPath: string,
+        settings: VideoSettingsConfig,
+        runId: string
+    ): Promise<OutputEstimate> {
+        const conversion = this.registerConversion(runId, null);
+        const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'subclip-estimate-'));
+        try {
+            const metadata = await this.getVideoMetadata(inputPath);
+            const job: EncodeJob = {
+                inputPath,
+                outputPath: '',
+                settings,
+                metadata,
+                // The single-file export estimated here always runs convertToMp4()
+                ...this.getConversionLimits(settings, false)
+            };
+            const outputDuration = this.getOutputDuration(job);
+            if (!outputDuration || outputDuration <= 0 || isNaN(outputDuration)) {
+                throw new Error('Estimating needs a known input duration');
+            }
+
+            const extension = settings.exportMode === 'audio'
+                ? getAudioExtension(settings.audio.format, settings.audio.sourceCodec)
+                : getContainerExtension(settings.container);
+            let sampledSeconds = 0;
+            let sampleBytes = 0;
+            let encodeMs = 0;
+            const scores: QualityMetrics[] = [];
+            // A reframed output no longer lines up with the source, so there's nothing to score against
+            const measuresQuality = settings.exportMode === 'video' && settings.reframe.aspectRatio === 'original';
+
+            for (const [index, range] of this.getSampleRanges(job).entries()) {
+                const samplePath = path.join(workDir, `sample_${index}.${extension}`);
+                // Sample cuts rarely land on keyframes, so copying would fall back to re-encoding anyway
+                const sampleJob: EncodeJob = {
+                    ...job,
+                    outputPath: samplePath,
+                    settings: { ...settings, segments: [range], preferStreamCopy: false },
+                    maxDuration: 0,
+                    bitrateDuration: outputDuration,
+                    isSample: true
+                };
+
+                const startTime = Date.now();
+                await this.encode(sampleJob, runId, conversion, () => {});
+                encodeMs += Date.now() - startTime;
+                sampledSeconds += range.end - range.start;
+                sampleBytes += (await fs.promises.stat(samplePath)).size;
+
+                if (measuresQuality) {
+                    scores.push(await this.measureQuality(inputPath, samplePath, [range], runId, conversion, () => {}));
                 }
-                
-                if (settings.enableHardwareAcceleration) {
-                    command = command.inputOptions(['-hwaccel auto']);
+            }
+
+            const average = (metric: keyof QualityMetrics) => {
+                const values = scores.map((score) => score[metric]).filter((value): value is number => value !== null);
+                return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+            };
+            const scale = outputDuration / sampledSeconds;
+            return {
+                sizeBytes: Math.round(sampleBytes * scale),
+                encodeSeconds: (encodeMs / 1000) * scale,
+                quality: scores.length > 0 ? { psnr: average('psnr'), ssim: average('ssim'), vmaf: average('vmaf') } : null,
+                sampledSeconds
+            };
+        } finally {
+            this.activeConversions.delete(runId);
+            await fs.promises.rm(workDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Source ranges of the samples estimateOutput() encodes, spread evenly
+     * over the output timeline. A sample that would run past a cut is
+     * shortened to the segment it starts in.
+     */
+    private static getSampleRanges(job: EncodeJob): TimeRange[] {
+        const outputDuration = this.getOutputDuration(job);
+        const kept = this.getKeptSegments(job);
+        const segments = kept.length > 0 ? kept : [{ start: 0, end: job.metadata.duration }];
+        const length = Math.min(ESTIMATE_SAMPLE_SECONDS, outputDuration);
+        const count = Math.max(1, Math.min(ESTIMATE_SAMPLE_COUNT, Math.floor(outputDuration / length)));
+
+        const ranges: TimeRange[] = [];
+        for (let index = 0; index < count; index++) {
+            let outputTime = Math.max(0, ((index + 0.5) * outputDuration) / count - length / 2);
+            for (const segment of segments) {
+                if (outputTime < segment.end - segment.start) {
+                    const start = segment.start + outputTime;
+                    ranges.push({ start, end: Math.min(segment.end, start + length) });
+                    break;
                 }
+                outputTime -= segment.end - segment.start;
+            }
+        }
+        return ranges;
+    }
 
-                command = command
-                    .outputOptions(outputOptions)
-                    .output(outputPath);
-
-                command
-                    .on('progress', (progress: any) => {
-                        onProgress({
-                            progress: progress.percent || 0,
-                            timemark: progress.timemark || '00:00:00',
-                            targetSize: progress.targetSize || 0,
-                            currentFps: progress.currentFps || 0
-                        });
-                    })
-                    .on('end', () => {
-                        resolve(outputPath);
-                    })
-                    .on('error', (err: any) => {
-                        console.error('FFmpeg conversion error:', err);
-                        console.error('FFmpeg command that failed:', command._getArguments().join(' '));
-                        reject(new Error(`FFmpeg conversion failed: ${err.message}`));
-                    })
-                    .on('stderr', (stderrLine: string) => {
-                        console.log('FFmpeg stderr:', stderrLine);
-                    })
-                    .run();
-            } catch (error) {
-                reject(error);
+    // compareQuality() without its own conversion, so estimates can run it under theirs
+    private static async measureQuality(
+        originalPath: string,
+        convertedPath: string,
+        segments: TimeRange[],
+        conversionId: string,
+        conversion: ActiveConversion,
+        onProgress: (progress: VideoConversionProgress) => void
+    ): Promise<QualityMetrics> {
+        const [original, converted, filters] = await Promise.all([
+            this.getVideoMetadata(originalPath),
+            this.getVideoMetadata(convertedPath),
+            this.getAvailableFilters()
+        ]);
+
+        // Input 0 is the converted file, so progress follows its duration
+        const command = ffmpeg(convertedPath);
+        const graph = new FilterGraph();
+        let reference = '1:v:0';
+        const kept = this.clampSegments(segments, original.duration);
+        if (kept.length === 0) {
+            command.input(originalPath);
+        } else {
+            // Each kept segment is its own seeked input, so ffmpeg doesn't decode everything before it
+            const parts = kept.map((segment, index) => {
+                command.input(originalPath).seekInput(segment.start).inputOptions([`-t ${segment.end - segment.start}`]);
+                return `${index + 1}:v:0`;
+            });
+            reference = parts.length === 1 ? parts[0] : graph.label('r');
+            if (parts.length > 1) {
+                graph.chain(parts, `concat=n=${parts.length}:v=1:a=0`, [reference]);
             }
+        }
+
+        // Both inputs are autorotated, so compare at the original's displayed size
+        const [width, height] = original.rotation % 180 === 0
+            ? [original.width, original.height]
+            : [original.height, original.width];
+        reference = graph.pipe(reference, `fps=${converted.fps},format=yuv420p,settb=AVTB,setpts=PTS-STARTPTS`, 'r');
+        let distorted = graph.pipe('0:v:0', `scale=${width}:${height}:flags=bicubic,format=yuv420p,settb=AVTB,setpts=PTS-STARTPTS`, 'd');
+
+        // Each metric passes its first input through, so they run as one chain over the output
+        const metrics = ['psnr', 'ssim', ...(filters.has('libvmaf') ? ['libvmaf'] : [])];
+        const references = metrics.map(() => graph.label('r'));
+        graph.chain([reference], `split=${metrics.length}`, references);
+        metrics.forEach((metric, index) => {
+            const output = graph.label('d');
+            graph.chain([distorted, references[index]], metric, [output]);
+            distorted = output;
         });
+
+        const stderrLines: string[] = [];
+        command
+            .complexFilter(graph.toString())
+            .outputOptions('-map', `[${distorted}]`)
+            .outputOptions(['-an', '-sn'])
+            .format('null')
+            .output(process.platform === 'win32' ? 'NUL' : '/dev/null')
+            .on('stderr', (line: string) => stderrLines.push(line));
+        await this.runCommand(command, conversionId, conversion, onProgress, converted.duration);
+
+        const log = stderrLines.join('\n');
+        const parseScore = (pattern: RegExp) => {
+            const value = log.match(pattern)?.[1];
+            if (value === undefined) return null;
+            return value === 'inf' ? Infinity : parseFloat(value);
+        };
+        return {
+            psnr: parseScore(/PSNR .*average:(inf|[\d.]+)/),
+            ssim: parseScore(/SSIM .*All:([\d.]+)/),
+            vmaf: parseScore(/VMAF score:\s*([\d.]+)/)
+        };
     }
 
-    static async optimizeForSocialMedia(
-        inputPath: string,
-        outputPath: string,
-        settings: VideoSettingsConfig,
+    /**
+     * Kills the ffmpeg process of a running conversion. The conversion promise
+     * rejects with a ConversionCancelledError once the partial output is removed.
+     */
+    static cancelConversion(conversionId: string): boolean {
+        const cancelEstimateWait = this.estimateCallers.get(conversionId);
+        if (cancelEstimateWait) {
+            cancelEstimateWait();
+            return true;
+        }
+
+        const conversion = this.activeConversions.get(conversionId);
+        if (!conversion) {
+            return false;
+        }
+
+        conversion.cancelled = true;
+        conversion.command?.kill('SIGKILL');
+        return true;
+    }
+
+    private static async encode(
+        job: EncodeJob,
+        conversionId: string,
+        conversion: ActiveConversion,
         onProgress: (progress: VideoConversionProgress) => void
-    ): Promise<string> {
-        return new Promise(async (resolve, reject) => {
+    ): Promise<ConversionResult> {
+        const { settings } = job;
+        if (settings.exportMode === 'video' && !isSupportedFormat(settings.videoCodec, settings.container)) {
+            throw new Error(`${VIDEO_CODECS[settings.videoCodec]?.label ?? settings.videoCodec} cannot be written to a ${settings.container} container`);
+        }
+        if (settings.exportMode === 'audio' && settings.audio.format === 'copy' && this.getAudioFilters(settings).length > 0) {
+            throw new Error('Copying the original audio cannot apply audio processing, pick a format to re-encode');
+        }
+        if (this.shouldPreserveHdr(job) && settings.videoCodec !== 'hevc') {
+            throw new Error('Keeping HDR needs HEVC output, pick HEVC or tone map to SDR');
+        }
+
+        let loudness: LoudnessMeasurement | null = null;
+        let encodeProgress = onProgress;
+        if (this.shouldNormalize(job)) {
+            loudness = await this.measureLoudness(job, conversionId, conversion, onProgress);
+            encodeProgress = (progress) => onProgress({
+                ...progress,
+                progress: LOUDNESS_PASS_SHARE + (progress.progress * (100 - LOUDNESS_PASS_SHARE)) / 100
+            });
+        }
+        const sdrConversion = await this.getSdrConversion(job);
+        const warnings = sdrConversion?.warning ? [sdrConversion.warning] : [];
+        const fontFiles = await this.resolveFonts(job);
+        const measuredJob: EncodeJob = {
+            ...job,
+            ...(loudness ? { loudness } : {}),
+            ...(sdrConversion ? { sdrFilter: sdrConversion.filter } : {}),
+            fontFiles
+        };
+
+        if (!settings.subtitles) {
+            const outputPath = await this.encodeVideo(measuredJob, conversionId, conversion, encodeProgress);
+            return { outputPath, loudness, warnings };
+        }
+
+        const subtitleDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'subclip-subs-'));
+        try {
+            const subtitlePath = await this.writeRetimedSubtitles(job, subtitleDir);
+            const subtitledJob = subtitlePath ? { ...measuredJob, subtitlePath } : measuredJob;
+            const outputPath = await this.encodeVideo(subtitledJob, conversionId, conversion, encodeProgress);
+            return { outputPath, loudness, warnings };
+        } finally {
+            await fs.promises.rm(subtitleDir, { recursive: true, force: true });
+        }
+    }
+
+    private static getFontKey(family: string, weight: number): string {
+        return `${family}:${normalizeFontWeight(weight)}`;
+    }
+
+    /**
+     * Finds the font files the job's text is drawn with. A font that can't be
+     * had, e.g. offline and never cached, is left out and ffmpeg falls back
+     * to matching the family name through fontconfig.
+     */
+    private static async resolveFonts(job: EncodeJob): Promise<Record<string, string>> {
+        const { settings } = job;
+        if (settings.exportMode === 'audio') {
+            return {};
+        }
+
+        const fonts: Array<[string, number]> = (settings.overlays ?? [])
+            .filter((overlay): overlay is TextOverlay => overlay.kind === 'text')
+            .map((overlay) => [overlay.textSet.fontFamily, overlay.textSet.fontWeight]);
+        if (settings.subtitles?.mode === 'burn') {
+            fonts.push([settings.subtitles.fontFamily, 400]);
+        }
+
+        const fontFiles: Record<string, string> = {};
+        for (const [family, weight] of fonts) {
+            const key = this.getFontKey(family, weight);
+            if (key in fontFiles) {
+                continue;
+            }
             try {
-                const metadata = await this.getVideoMetadata(inputPath);
-                const optimalBitrate = this.calculateOptimalBitrate(settings, metadata.duration);
-                
-                const platformSettings = {
-                    instagram: {
-                        maxWidth: 1080,
-                        maxHeight: 1920, // Support both square and vertical
-                        maxDuration: 60
-                    },
-                    twitter: {
-                        maxWidth: 1080,
-                        maxHeight: 1920, // Support vertical videos
-                        maxDuration: 140
-                    },
-                    youtube: {
-                        maxWidth: 1920,
-                        maxHeight: 1080,
-                        maxDuration: 0
-                    },
-                    facebook: {
-                        maxWidth: 1280,
-                        maxHeight: 720,
-                        maxDuration: 240
-                    },
-                    general: {
-                        maxWidth: 1920,
-                        maxHeight: 1080,
-                        maxDuration: 0
+                fontFiles[key] = await FontManager.getFontFile(family, weight);
+            } catch (error) {
+                console.warn(`Font ${family} ${weight} is unavailable, ffmpeg will match it by name:`, error);
+            }
+        }
+        return fontFiles;
+    }
+
+    private static shouldPreserveHdr(job: EncodeJob): boolean {
+        return job.settings.exportMode === 'video' && job.settings.hdrMode === 'preserve' && Boolean(job.metadata.hdr);
+    }
+
+    /**
+     * Conversion to BT.709 8-bit SDR for the job, or null when none is needed.
+     * Auto converts sources detected as HDR; Tone Map converts every source,
+     * treating wide-gamut ones as HDR even when their transfer isn't tagged.
+     * Tone mapping needs zscale and tonemap. Without them the colours are only
+     * converted, which keeps them right but clips highlights, and the job
+     * carries a warning saying so.
+     */
+    private static async getSdrConversion(job: EncodeJob): Promise<{ filter: string; warning: string | null } | null> {
+        const { settings, metadata } = job;
+        // GIF and WebP are always 8-bit SDR, so preserving only applies to video
+        if (settings.exportMode === 'audio' || this.shouldPreserveHdr(job)) {
+            return null;
+        }
+
+        const isHdr = Boolean(metadata.hdr) || (settings.hdrMode === 'tonemap' && this.isWideGamut(metadata));
+        if (!isHdr) {
+            // Forced SDR output for a source that already is, e.g. 10-bit or BT.601
+            return settings.hdrMode === 'tonemap'
+                ? { filter: 'scale=out_color_matrix=bt709:out_range=tv,format=yuv420p', warning: null }
+                : null;
+        }
+
+        const filters = await this.getAvailableFilters();
+        if (filters.has('zscale') && filters.has('tonemap')) {
+            const filter = [
+                `zscale=tin=${this.getHdrTransfer(metadata)}:pin=bt2020:min=bt2020nc:t=linear:npl=100`,
+                'format=gbrpf32le',
+                'zscale=p=bt709',
+                'tonemap=tonemap=hable:desat=0',
+                'zscale=t=bt709:m=bt709:r=tv',
+                'format=yuv420p'
+            ].join(',');
+            return { filter, warning: null };
+        }
+
+        const warning = 'This ffmpeg build has no zscale filter, so HDR was converted to SDR without tone mapping and bright highlights may look clipped';
+        console.warn(warning);
+        const filter = filters.has('colorspace')
+            ? 'colorspace=all=bt709:iall=bt2020:format=yuv420p'
+            : 'scale=in_color_matrix=bt2020:out_color_matrix=bt709:out_range=tv,format=yuv420p';
+        return { filter, warning };
+    }
+
+    // BT.2020 primaries or matrix, which SDR footage practically never uses
+    private static isWideGamut(metadata: VideoMetadata): boolean {
+        const videoStream = metadata.videoStreams?.find((stream) => !stream.isCoverArt);
+        return videoStream?.colorPrimaries === 'bt2020' || Boolean(videoStream?.colorSpace?.startsWith('bt2020'));
+    }
+
+    /**
+     * HLG or PQ, from the first video stream. Untagged streams are read as
+     * PQ when detected as HDR10 or Dolby Vision, and otherwise as HLG, which
+     * is what phones record.
+     */
+    private static getHdrTransfer(metadata: VideoMetadata): 'arib-std-b67' | 'smpte2084' {
+        const videoStream = metadata.videoStreams?.find((stream) => !stream.isCoverArt);
+        if (videoStream?.colorTransfer === 'arib-std-b67' || videoStream?.colorTransfer === 'smpte2084') {
+            return videoStream.colorTransfer;
+        }
+        return metadata.hdr ? 'smpte2084' : 'arib-std-b67';
+    }
+
+    private static getAvailableFilters(): Promise<Set<string>> {
+        if (!this.availableFilters) {
+            this.availableFilters = new Promise((resolve) => {
+                ffmpeg.getAvailableFilters((err, filters) => {
+                    if (err) {
+                        console.warn('Could not list ffmpeg filters:', err);
+                        resolve(new Set());
+                        return;
                     }
-                };
+                    resolve(new Set(Object.keys(filters)));
+                });
+            });
+        }
+        return this.availableFilters;
+    }
+
+    /**
+     * Colour tags for the video stream. Output converted to SDR is tagged BT.709;
+     * preserved HDR is written as 10-bit Main10 with the source's transfer.
+     */
+    private static getColorOptions(job: EncodeJob): string[] {
+        if (job.sdrFilter) {
+            return ['-color_primaries bt709', '-color_trc bt709', '-colorspace bt709', '-color_range tv'];
+        }
+        if (this.shouldPreserveHdr(job)) {
+            return [
+                '-pix_fmt yuv420p10le',
+                '-profile:v main10',
+                '-color_primaries bt2020',
+                `-color_trc ${this.getHdrTransfer(job.metadata)}`,
+                '-colorspace bt2020nc',
+                '-color_range tv'
+            ];
+        }
+        return [];
+    }
+
+    /**
+     * x265 settings that carry the source's HDR10 mastering display and
+     * content light levels over, so players show the output as HDR10 rather
+     * than guessing the brightness range.
+     */
+    private static getHdr10Params(job: EncodeJob): string[] {
+        if (!this.shouldPreserveHdr(job) || job.metadata.hdr !== 'hdr10') {
+            return [];
+        }
+
+        const videoStream = job.metadata.videoStreams.find((stream) => !stream.isCoverArt);
+        const params = ['hdr10=1', 'repeat-headers=1'];
+        const display = videoStream?.masteringDisplay;
+        if (display) {
+            // x265 wants chromaticities in 0.00002 steps and luminance in 0.0001 cd/m² steps
+            const xy = ([x, y]: [number, number]) => `(${Math.round(x * 50000)},${Math.round(y * 50000)})`;
+            const luminance = `(${Math.round(display.maxLuminance * 10000)},${Math.round(display.minLuminance * 10000)})`;
+            params.push(`master-display=G${xy(display.green)}B${xy(display.blue)}R${xy(display.red)}WP${xy(display.whitePoint)}L${luminance}`);
+        }
+        const lightLevel = videoStream?.contentLightLevel;
+        if (lightLevel) {
+            params.push(`max-cll=${lightLevel.maxContent},${lightLevel.maxAverage}`);
+        }
+        return params;
+    }
+
+    // libx265 reads a single -x265-params list, so two-pass settings are folded in here
+    private static getX265Options(job: EncodeJob, extraParams: string[] = []): string[] {
+        const params = [...this.getHdr10Params(job), ...extraParams];
+        return job.settings.videoCodec === 'hevc' && params.length > 0 ? ['-x265-params', params.join(':')] : [];
+    }
+
+    private static shouldNormalize(job: EncodeJob): boolean {
+        const processing = job.settings.audioProcessing;
+        return Boolean(processing?.normalize && !processing.mute)
+            && job.settings.exportMode !== 'animation'
+            && job.metadata.hasAudio;
+    }
+
+    /**
+     * First loudnorm pass: runs the output audio (same trims and filters as
+     * the encode) through loudnorm and reads the measurement it prints as
+     * JSON. Returns null for silent audio, which loudnorm can't normalize.
+     */
+    private static async measureLoudness(
+        job: EncodeJob,
+        conversionId: string,
+        conversion: ActiveConversion,
+        onProgress: (progress: VideoConversionProgress) => void
+    ): Promise<LoudnessMeasurement | null> {
+        const target = this.getLoudnessTarget(job.settings);
+        const graph = new FilterGraph();
+        const trimmed = this.trimAudio(graph, this.getAudioSource(job), this.getKeptSegments(job));
+        const measured = graph.pipe(
+            trimmed,
+            [...this.getAudioFilters(job.settings), `loudnorm=I=${target.integrated}:TP=${target.truePeak}:LRA=${target.range}:print_format=json`].join(','),
+            'a'
+        );
+
+        const stderrLines: string[] = [];
+        const command = this.createCommand(job)
+            .complexFilter(graph.toString())
+            .outputOptions('-map', `[${measured}]`)
+            .outputOptions(['-vn', '-sn'])
+            .format('null')
+            .output(process.platform === 'win32' ? 'NUL' : '/dev/null')
+            .on('stderr', (line: string) => stderrLines.push(line));
+        await this.runCommand(command, conversionId, conversion, onProgress, this.getOutputDuration(job), [0, LOUDNESS_PASS_SHARE]);
+
+        // loudnorm prints its summary as the last JSON object on stderr
+        const json = stderrLines.join('\n').match(/\{[^{}]*"input_i"[^{}]*\}/g)?.pop();
+        if (!json) {
+            throw new Error('Loudness analysis produced no measurement');
+        }
+
+        const values = JSON.parse(json);
+        const measurement: LoudnessMeasurement = {
+            integrated: parseFloat(values.input_i),
+            truePeak: parseFloat(values.input_tp),
+            range: parseFloat(values.input_lra),
+            threshold: parseFloat(values.input_thresh),
+            targetIntegrated: target.integrated,
+            targetTruePeak: target.truePeak
+        };
+        if (!isFinite(measurement.integrated) || !isFinite(measurement.threshold)) {
+            console.warn('Audio is silent, skipping loudness normalization');
+            return null;
+        }
+        return measurement;
+    }
+
+    private static getLoudnessTarget(settings: VideoSettingsConfig): LoudnessTarget {
+        const platformTarget = LOUDNESS_TARGETS[settings.platform] ?? LOUDNESS_TARGETS.general;
+        const targetLufs = settings.audioProcessing?.targetLufs;
+        return targetLufs ? { ...platformTarget, integrated: targetLufs } : platformTarget;
+    }
+
+    /**
+     * Clean-up filters from the audio settings, in the order they run.
+     * Normalization is added separately since it needs the measurement.
+     */
+    private static getAudioFilters(settings: VideoSettingsConfig): string[] {
+        const processing = settings.audioProcessing;
+        if (!processing) {
+            return [];
+        }
+
+        const filters: string[] = [];
+        if (processing.highpassHz > 0) {
+            filters.push(`highpass=f=${processing.highpassHz}`);
+        }
+        if (processing.denoise) {
+            filters.push('afftdn');
+        }
+        if (processing.gainDb !== 0) {
+            filters.push(`volume=${processing.gainDb}dB`);
+        }
+        return filters;
+    }
+
+    /**
+     * Runs `audio` through the clean-up filters and, when the job has a
+     * measurement, the second loudnorm pass.
+     */
+    private static applyAudioFilters(graph: FilterGraph, audio: string, job: EncodeJob): string {
+        const filters = this.getAudioFilters(job.settings);
+        if (job.loudness) {
+            const { loudness } = job;
+            const target = this.getLoudnessTarget(job.settings);
+            filters.push(
+                `loudnorm=I=${target.integrated}:TP=${target.truePeak}:LRA=${target.range}` +
+                `:measured_I=${loudness.integrated}:measured_TP=${loudness.truePeak}` +
+                `:measured_LRA=${loudness.range}:measured_thresh=${loudness.threshold}:linear=true`
+            );
+            // loudnorm resamples to 192 kHz internally, so bring it back to the source rate
+            filters.push(`aresample=${this.getSourceSampleRate(job)}`);
+        }
+        return filters.length > 0 ? graph.pipe(audio, filters.join(','), 'a') : audio;
+    }
 
-                const platformSetting = platformSettings[settings.platform];
-                
-                // Maintain aspect ratio while respecting platform limits
-                const videoFilter = `scale='min(${platformSetting.maxWidth},iw)':'min(${platformSetting.maxHeight},ih)':force_original_aspect_ratio=decrease`;
-                
-                const outputOptions = [
-                    '-c:v libx264',
-                    `-preset ${settings.preset}`,
-                    `-b:v ${optimalBitrate}k`,
-                    '-c:a aac',
-                    '-b:a 128k',
-                    '-movflags +faststart',
-                    `-vf ${videoFilter}`
-                ];
-
-                let command = ffmpeg(inputPath);
-                
-                // Add HEVC/H.265 input codec detection
-                if (inputPath.toLowerCase().includes('.hevc') || inputPath.toLowerCase().includes('.h265')) {
-                    command = command.inputOptions(['-c:v hevc']);
+    private static getAudioSource(job: EncodeJob): string {
+        return job.settings.exportMode === 'audio' ? `0:a:${job.settings.audio.streamIndex}` : '0:a:0';
+    }
+
+    private static getSourceSampleRate(job: EncodeJob): number {
+        const streamIndex = job.settings.exportMode === 'audio' ? job.settings.audio.streamIndex : 0;
+        return job.metadata.audioStreams[streamIndex]?.sampleRate || 48000;
+    }
+
+    /**
+     * Joins several kept segments of an audio stream. A single segment is
+     * already cut by createCommand, so the stream is returned unchanged.
+     */
+    private static trimAudio(graph: FilterGraph, source: string, segments: TimeRange[]): string {
+        if (segments.length <= 1) {
+            return source;
+        }
+        const parts = segments.map((segment) =>
+            graph.pipe(source, `atrim=start=${segment.start}:end=${segment.end},asetpts=PTS-STARTPTS`, 'a')
+        );
+        const joined = graph.label('a');
+        graph.chain(parts, `concat=n=${segments.length}:v=0:a=1`, [joined]);
+        return joined;
+    }
+
+    private static async encodeVideo(
+        job: EncodeJob,
+        conversionId: string,
+        conversion: ActiveConversion,
+        onProgress: (progress: VideoConversionProgress) => void
+    ): Promise<string> {
+        const { settings } = job;
+        if (settings.exportMode === 'animation') {
+            return this.encodeAnimation(job, conversionId, conversion, onProgress);
+        }
+        if (settings.exportMode === 'audio') {
+            return this.encodeAudio(job, conversionId, conversion, onProgress);
+        }
+
+        const outputDuration = this.getOutputDuration(job);
+
+        // Reframing, subtitles and overlays need the filter graph or extra inputs, so they always re-encode
+        const isReframed = settings.reframe && settings.reframe.aspectRatio !== 'original';
+        const hasOverlays = (settings.overlays ?? []).length > 0;
+        const hasAudioProcessing = Boolean(job.loudness || settings.audioProcessing?.mute) || this.getAudioFilters(settings).length > 0;
+        // A copy keeps the source's size and bitrate, so it can't honour a downscale or a size target
+        const isConstrained = job.videoFilter !== EVEN_DIMENSIONS_FILTER || settings.maxFileSizeMB < 500 || settings.encodingMode === 'two-pass';
+        if (settings.preferStreamCopy && !isReframed && !isConstrained && !job.subtitlePath && !hasOverlays && !hasAudioProcessing && !job.sdrFilter && this.getKeptSegments(job).length > 0) {
+            const copiedPath = await this.trimWithStreamCopy(job, conversionId, conversion, onProgress);
+            if (copiedPath) {
+                return copiedPath;
+            }
+        }
+
+        // ProRes has no rate control, so it always runs as a single pass
+        if (settings.encodingMode === 'two-pass' && settings.videoCodec !== 'prores') {
+            return this.encodeTwoPass(job, outputDuration, conversionId, conversion, onProgress);
+        }
+
+        const videoBitrate = settings.encodingMode === 'crf'
+            ? null
+            : this.calculateOptimalBitrate(settings, job.bitrateDuration ?? outputDuration);
+
+        const command = this.addSoftSubtitles(this.applyFilterGraph(this.createCommand(job), job, true), job)
+            .outputOptions([
+                ...this.getVideoEncoderOptions(settings, videoBitrate),
+                ...this.getColorOptions(job),
+                ...this.getX265Options(job),
+                ...this.getAudioEncoderOptions(settings),
+                ...this.getContainerOptions(settings)
+            ])
+            .output(job.outputPath);
+
+        return this.runCommand(command, conversionId, conversion, onProgress, outputDuration);
+    }
+
+    /**
+     * Two-pass encode that aims the output at maxFileSizeMB. The pass log files
+     * live in a per-job temp directory so parallel jobs don't overwrite each other.
+     */
+    private static async encodeTwoPass(
+        job: EncodeJob,
+        outputDuration: number,
+        conversionId: string,
+        conversion: ActiveConversion,
+        onProgress: (progress: VideoConversionProgress) => void
+    ): Promise<string> {
+        const { settings } = job;
+        if (!outputDuration || outputDuration <= 0 || isNaN(outputDuration)) {
+            throw new Error('Two-pass encoding requires a known input duration');
+        }
+
+        const videoBitrate = this.calculateTwoPassBitrate(settings.maxFileSizeMB, job.bitrateDuration ?? outputDuration, this.getEncodedAudioBitrate(job));
+        const passLogDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'subclip-2pass-'));
+        const passLogFile = path.join(passLogDir, 'ffmpeg2pass');
+        const videoOptions = [
+            ...this.getVideoEncoderOptions(settings, videoBitrate),
+            ...this.getColorOptions(job),
+            `-maxrate ${Math.floor(videoBitrate * 1.5)}k`,
+            `-bufsize ${videoBitrate * 2}k`
+        ];
+
+        try {
+            const analysisPass = this.applyFilterGraph(this.createCommand(job), job, false)
+                .outputOptions([...videoOptions, '-an'])
+                .outputOptions(...this.getPassOptions(job, 1, passLogFile))
+                .format('null')
+                .output(process.platform === 'win32' ? 'NUL' : '/dev/null');
+            await this.runCommand(analysisPass, conversionId, conversion, onProgress, outputDuration, [0, 50]);
+
+            const encodePass = this.addSoftSubtitles(this.applyFilterGraph(this.createCommand(job), job, true), job)
+                .outputOptions([
+                    ...videoOptions,
+                    ...this.getAudioEncoderOptions(settings),
+                    ...this.getContainerOptions(settings)
+                ])
+                .outputOptions(...this.getPassOptions(job, 2, passLogFile))
+                .output(job.outputPath);
+            return await this.runCommand(encodePass, conversionId, conversion, onProgress, outputDuration, [50, 100]);
+        } finally {
+            await fs.promises.rm(passLogDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Audio-only export of one of the source's audio streams, either copied
+     * as-is or transcoded. The muxer follows the output file's extension.
+     */
+    private static async encodeAudio(
+        job: EncodeJob,
+        conversionId: string,
+        conversion: ActiveConversion,
+        onProgress: (progress: VideoConversionProgress) => void
+    ): Promise<string> {
+        const { audio } = job.settings;
+        const stream = job.metadata.audioStreams[audio.streamIndex];
+        if (!stream) {
+            throw new Error(job.metadata.hasAudio ? `Audio stream ${audio.streamIndex + 1} does not exist` : 'This video has no audio track');
+        }
+
+        const source = this.getAudioSource(job);
+        const segments = this.getKeptSegments(job);
+        let command = this.createCommand(job).outputOptions(['-vn', '-sn']);
+
+        if (segments.length > 1 && audio.format === 'copy') {
+            throw new Error('Copying the original audio only works with a single trim segment, pick a format to join several');
+        }
+
+        const graph = new FilterGraph();
+        const output = this.applyAudioFilters(graph, this.trimAudio(graph, source, segments), job);
+        command = graph.isEmpty()
+            ? command.outputOptions('-map', source)
+            : command.complexFilter(graph.toString()).outputOptions('-map', `[${output}]`);
+
+        command = command.outputOptions(this.getAudioExportOptions(audio)).output(job.outputPath);
+        return this.runCommand(command, conversionId, conversion, onProgress, this.getOutputDuration(job));
+    }
+
+    private static getAudioExportOptions(audio: AudioExportOptions): string[] {
+        const format = AUDIO_FORMATS[audio.format];
+        if (audio.format === 'copy') {
+            return ['-c:a copy'];
+        }
+
+        const options = [`-c:a ${format.encoder}`];
+        if (format.lossy) {
+            options.push(`-b:a ${audio.bitrate}k`);
+        }
+        // libopus always runs at 48 kHz, which is also its default
+        if (audio.sampleRate && audio.format !== 'opus') {
+            options.push(`-ar ${audio.sampleRate}`);
+        }
+        if (audio.channels) {
+            options.push(`-ac ${audio.channels}`);
+        }
+        return options;
+    }
+
+    /**
+     * GIF or animated WebP export. When a size target is set the animation is
+     * rendered again at a lower frame rate, then a smaller width, until it fits.
+     */
+    private static async encodeAnimation(
+        job: EncodeJob,
+        conversionId: string,
+        conversion: ActiveConversion,
+        onProgress: (progress: VideoConversionProgress) => void
+    ): Promise<string> {
+        const { animation } = job.settings;
+        const animationJob: EncodeJob = animation.range
+            ? { ...job, settings: { ...job.settings, segments: [animation.range] } }
+            : job;
+
+        const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'subclip-anim-'));
+        try {
+            let next: { fps: number; width: number } | null = { fps: animation.fps, width: animation.width };
+            for (let attempt = 1; next && attempt <= MAX_ANIMATION_ATTEMPTS; attempt++) {
+                await this.renderAnimation(animationJob, next.fps, next.width, workDir, conversionId, conversion, onProgress);
+                if (animation.maxFileSizeMB <= 0) {
+                    return job.outputPath;
                 }
-                
-                if (settings.enableHardwareAcceleration) {
-                    command = command.inputOptions(['-hwaccel auto']);
+
+                const sizeMB = (await fs.promises.stat(job.outputPath)).size / (1024 * 1024);
+                if (sizeMB <= animation.maxFileSizeMB) {
+                    return job.outputPath;
                 }
+                next = this.calculateAnimationSettings(next.fps, next.width, sizeMB, animation.maxFileSizeMB);
+            }
 
-                command = command.outputOptions(outputOptions);
+            await fs.promises.rm(job.outputPath, { force: true });
+            throw new Error(`Could not fit the animation under ${animation.maxFileSizeMB} MB, try a shorter range`);
+        } finally {
+            await fs.promises.rm(workDir, { recursive: true, force: true });
+        }
+    }
 
-                if (platformSetting.maxDuration > 0) {
-                    command = command.duration(platformSetting.maxDuration);
+    /**
+     * Renders one animation. GIFs go through palettegen first so the 256
+     * colours are picked from this clip rather than a generic palette.
+     */
+    private static async renderAnimation(
+        job: EncodeJob,
+        fps: number,
+        width: number,
+        workDir: string,
+        conversionId: string,
+        conversion: ActiveConversion,
+        onProgress: (progress: VideoConversionProgress) => void
+    ): Promise<string> {
+        const { animation } = job.settings;
+        const frameJob: EncodeJob = {
+            ...job,
+            videoFilter: `fps=${fps},scale='min(${width},iw)':-1:flags=lanczos`
+        };
+        const outputDuration = this.getOutputDuration(frameJob);
+
+        if (animation.format === 'webp') {
+            const command = this.applyFilterGraph(this.createCommand(frameJob), frameJob, false)
+                .outputOptions(['-an', '-c:v libwebp', '-lossless 0', '-q:v 75', '-compression_level 4'])
+                .outputOptions('-loop', String(animation.loop))
+                .output(job.outputPath);
+            return this.runCommand(command, conversionId, conversion, onProgress, outputDuration);
+        }
+
+        const palettePath = path.join(workDir, 'palette.png');
+        const paletteCommand = this.applyFilterGraph(
+            this.createCommand(frameJob),
+            frameJob,
+            false,
+            (graph, video) => graph.pipe(video, 'palettegen=stats_mode=diff', 'p')
+        )
+            .outputOptions(['-an', '-frames:v 1', '-update 1'])
+            .output(palettePath);
+        await this.runCommand(paletteCommand, conversionId, conversion, onProgress, outputDuration, [0, 30]);
+
+        // The palette is added after any overlay images, so it is the last input
+        const paletteInput = `${1 + this.getImageOverlays(frameJob).length}:v`;
+        const dither = animation.dither === 'bayer' ? 'bayer:bayer_scale=3' : animation.dither;
+        const gifCommand = this.applyFilterGraph(
+            this.createCommand(frameJob),
+            frameJob,
+            false,
+            (graph, video) => {
+                const output = graph.label('g');
+                graph.chain([video, paletteInput], `paletteuse=dither=${dither}:diff_mode=rectangle`, [output]);
+                return output;
+            }
+        )
+            .input(palettePath)
+            .outputOptions(['-an', '-f gif'])
+            .outputOptions('-loop', String(this.getGifLoopValue(animation.loop)))
+            .output(job.outputPath);
+        return this.runCommand(gifCommand, conversionId, conversion, onProgress, outputDuration, [30, 100]);
+    }
+
+    /**
+     * GIF's loop field counts repeats after the first play and uses -1 for
+     * "play once", while our setting counts plays with 0 meaning forever.
+     */
+    private static getGifLoopValue(loop: number): number {
+        if (loop <= 0) {
+            return 0;
+        }
+        return loop === 1 ? -1 : loop - 1;
+    }
+
+    /**
+     * Next frame rate and width to try when an animation came out too big.
+     * Animation size grows with fps and with width squared, so frame rate is
+     * traded away first and width only once fps hits its floor. Returns null
+     * when both are already at their minimum.
+     */
+    private static calculateAnimationSettings(
+        fps: number,
+        width: number,
+        sizeMB: number,
+        targetMB: number
+    ): { fps: number; width: number } | null {
+        // Aim a little under the target, palette and compression aren't linear
+        const ratio = (targetMB / sizeMB) * 0.9;
+
+        if (fps > MIN_ANIMATION_FPS) {
+            const nextFps = Math.max(MIN_ANIMATION_FPS, Math.floor(fps * ratio));
+            const remainingRatio = ratio * (fps / nextFps);
+            if (remainingRatio >= 1) {
+                return { fps: nextFps, width };
+            }
+            return { fps: nextFps, width: Math.max(MIN_ANIMATION_WIDTH, Math.floor(width * Math.sqrt(remainingRatio))) };
+        }
+
+        const nextWidth = Math.max(MIN_ANIMATION_WIDTH, Math.floor(width * Math.sqrt(ratio)));
+        return nextWidth < width ? { fps, width: nextWidth } : null;
+    }
+
+    /**
+     * Cuts the kept segments without re-encoding and joins them with the concat
+     * demuxer. Returns null when the source can't be copied into the requested
+     * output, in which case the caller falls back to a frame-accurate re-encode.
+     */
+    private static async trimWithStreamCopy(
+        job: EncodeJob,
+        conversionId: string,
+        conversion: ActiveConversion,
+        onProgress: (progress: VideoConversionProgress) => void
+    ): Promise<string | null> {
+        const { settings, metadata } = job;
+        if (metadata.videoCodec !== SOURCE_CODEC_NAMES[settings.videoCodec]) {
+            return null;
+        }
+
+        const segments = this.getKeptSegments(job);
+        // Copied cuts can only start on a keyframe; ends may fall anywhere
+        const tolerance = 0.5 / (metadata.fps || 30);
+        for (const segment of segments) {
+            if (segment.start <= tolerance) {
+                continue;
+            }
+            const keyframes = await this.getKeyframeTimes(job.inputPath, segment.start);
+            if (!keyframes.some((time) => Math.abs(time - segment.start) <= tolerance)) {
+                return null;
+            }
+        }
+
+        const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'subclip-trim-'));
+        try {
+            const extension = path.extname(job.outputPath) || '.mp4';
+            const partPaths: string[] = [];
+            let keptDuration = 0;
+            let remaining = job.maxDuration > 0 ? job.maxDuration : Infinity;
+
+            for (const [index, segment] of segments.entries()) {
+                if (remaining <= 0) {
+                    break;
                 }
+                const length = Math.min(segment.end - segment.start, remaining);
+                remaining -= length;
+                keptDuration += length;
 
-                command
-                    .output(outputPath)
-                    .on('progress', (progress: any) => {
-                        onProgress({
-                            progress: progress.percent || 0,
-                            timemark: progress.timemark || '00:00:00',
-                            targetSize: progress.targetSize || 0,
-                            currentFps: progress.currentFps || 0
-                        });
-                    })
-                    .on('end', () => {
-                        resolve(outputPath);
-                    })
-                    .on('error', (err: any) => {
-                        reject(err);
-                    })
-                    .run();
-            } catch (error) {
-                reject(error);
+                const partPath = segments.length === 1 ? job.outputPath : path.join(workDir, `part_${index}${extension}`);
+                const command = ffmpeg(job.inputPath)
+                    .seekInput(segment.start)
+                    .duration(length)
+                    .outputOptions(['-map 0:v:0', '-map 0:a?', '-c copy', '-avoid_negative_ts make_zero'])
+                    .outputOptions(this.getContainerOptions(settings))
+                    .output(partPath);
+                const rangeStart = (index / segments.length) * 90;
+                await this.runCommand(command, conversionId, conversion, onProgress, length, [rangeStart, rangeStart + 90 / segments.length]);
+                partPaths.push(partPath);
+            }
+
+            if (segments.length > 1) {
+                const listPath = path.join(workDir, 'segments.txt');
+                const list = partPaths.map((partPath) => `file '${partPath.replace(/'/g, "'\\''")}'`).join('\n');
+                await fs.promises.writeFile(listPath, list);
+
+                const concat = ffmpeg(listPath)
+                    .inputOptions(['-f concat', '-safe 0'])
+                    .outputOptions(['-c copy', ...this.getContainerOptions(settings)])
+                    .output(job.outputPath);
+                await this.runCommand(concat, conversionId, conversion, onProgress, keptDuration, [90, 100]);
+            }
+
+            return job.outputPath;
+        } catch (error) {
+            if (error instanceof ConversionCancelledError) {
+                throw error;
             }
+            // Usually an audio codec the target container can't hold
+            console.warn('Stream copy trim failed, re-encoding instead:', error);
+            return null;
+        } finally {
+            await fs.promises.rm(workDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Presentation times of the keyframes within two seconds of `around`.
+     */
+    private static async getKeyframeTimes(inputPath: string, around: number): Promise<number[]> {
+        const output = await this.runFfprobe([
+            '-v', 'error',
+            '-select_streams', 'v:0',
+            '-skip_frame', 'nokey',
+            '-show_entries', 'frame=pts_time',
+            '-of', 'csv=p=0',
+            '-read_intervals', `${Math.max(0, around - 2)}%+4`,
+            inputPath
+        ]);
+        return output
+            .split(/\r?\n/)
+            .map((line) => parseFloat(line))
+            .filter((time) => !isNaN(time));
+    }
+
+    private static runFfprobe(args: string[]): Promise<string> {
+        return new Promise((resolve, reject) => {
+            execFile(FFPROBE_PATH, args, { maxBuffer: 64 * 1024 * 1024 }, (err, stdout) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                resolve(stdout);
+            });
+        });
+    }
+
+    /**
+     * Segments to keep clamped to the source duration, in playback order.
+     */
+    private static getKeptSegments(job: EncodeJob): TimeRange[] {
+        return this.clampSegments(job.settings.segments ?? [], job.metadata.duration);
+    }
+
+    private static clampSegments(segments: TimeRange[], sourceDuration: number): TimeRange[] {
+        const duration = sourceDuration || Infinity;
+        return segments
+            .map((segment) => ({ start: Math.max(0, segment.start), end: Math.min(duration, segment.end) }))
+            .filter((segment) => segment.end - segment.start > 0.01)
+            .sort((a, b) => a.start - b.start);
+    }
+
+    private static getOutputDuration(job: EncodeJob): number {
+        const segments = this.getKeptSegments(job);
+        const keptDuration = segments.length > 0
+            ? segments.reduce((total, segment) => total + segment.end - segment.start, 0)
+            : job.metadata.duration;
+        return job.maxDuration > 0 ? Math.min(job.maxDuration, keptDuration) : keptDuration;
+    }
+
+    /**
+     * Builds the -filter_complex graph and stream mapping. A single segment is
+     * cut by input seeking in createCommand; several segments are trimmed and
+     * concatenated here so the cuts stay frame accurate.
+     */
+    private static applyFilterGraph(
+        command: ffmpeg.FfmpegCommand,
+        job: EncodeJob,
+        includeAudio: boolean,
+        finish?: (graph: FilterGraph, video: string) => string
+    ): ffmpeg.FfmpegCommand {
+        const graph = new FilterGraph();
+        let video = '0:v:0';
+
+        // Logos are inputs 1..n, in overlay order
+        this.getImageOverlays(job).forEach((overlay) => {
+            command = command.input(overlay.path);
+        });
+
+        const isMuted = Boolean(job.settings.audioProcessing?.mute);
+        let audio: string | null = includeAudio && job.metadata.hasAudio && !isMuted ? '0:a:0' : null;
+
+        const segments = this.getKeptSegments(job);
+        if (segments.length > 1) {
+            const parts: string[] = [];
+            segments.forEach((segment) => {
+                parts.push(graph.pipe(video, `trim=start=${segment.start}:end=${segment.end},setpts=PTS-STARTPTS`, 'v'));
+                if (audio) {
+                    parts.push(graph.pipe(audio, `atrim=start=${segment.start}:end=${segment.end},asetpts=PTS-STARTPTS`, 'a'));
+                }
+            });
+
+            const concatVideo = graph.label('v');
+            const concatAudio = audio ? graph.label('a') : null;
+            graph.chain(
+                parts,
+                `concat=n=${segments.length}:v=1:a=${concatAudio ? 1 : 0}`,
+                concatAudio ? [concatVideo, concatAudio] : [concatVideo]
+            );
+            video = concatVideo;
+            audio = concatAudio;
+        }
+
+        if (job.sdrFilter) {
+            video = graph.pipe(video, job.sdrFilter, 'v');
+        }
+
+        if (audio) {
+            audio = this.applyAudioFilters(graph, audio, job);
+        }
+
+        video = this.applyReframe(graph, video, job.settings.reframe);
+        video = graph.pipe(video, job.videoFilter, 'v');
+        video = this.applyOverlays(graph, video, job);
+
+        // Burned in last so the captions land inside the final frame at its final size
+        if (job.subtitlePath && job.settings.subtitles?.mode === 'burn') {
+            const fontFile = job.fontFiles?.[this.getFontKey(job.settings.subtitles.fontFamily, 400)];
+            video = graph.pipe(video, this.getSubtitleFilter(job.subtitlePath, job.settings.subtitles, fontFile), 'v');
+        }
+
+        if (finish) {
+            video = finish(graph, video);
+        }
+
+        command = command
+            .complexFilter(graph.toString())
+            .outputOptions('-map', `[${video}]`);
+
+        if (audio && audio !== '0:a:0') {
+            return command.outputOptions('-map', `[${audio}]`);
+        }
+        return audio ? command.outputOptions('-map', '0:a:0') : command;
+    }
+
+    /**
+     * Writes the job's subtitles as SRT on the output timeline, so trims and
+     * platform length limits apply to the captions as well as the video.
+     * Null for an estimate sample with no caption in its range.
+     */
+    private static async writeRetimedSubtitles(job: EncodeJob, outputDir: string): Promise<string | null> {
+        const subtitles = job.settings.subtitles!;
+        const content = await fs.promises.readFile(subtitles.path, 'utf8');
+        const cues = retimeCues(parseSubtitles(content), this.getKeptSegments(job), job.maxDuration);
+        if (cues.length === 0) {
+            if (job.isSample) {
+                return null;
+            }
+            throw new Error(`No subtitles found in ${path.basename(subtitles.path)} for the exported range`);
+        }
+
+        const subtitlePath = path.join(outputDir, 'subtitles.srt');
+        await fs.promises.writeFile(subtitlePath, formatSrt(cues), 'utf8');
+        return subtitlePath;
+    }
+
+    /**
+     * libass `subtitles` filter styled from the app's font and colour choices.
+     * SRT scripts are laid out on a 288 line canvas, so sizes are scaled to it.
+     * libass finds the font by family name, in `fontFile`'s folder if given.
+     */
+    private static getSubtitleFilter(subtitlePath: string, subtitles: SubtitleOptions, fontFile?: string): string {
+        const scriptHeight = 288;
+        // ASS colours are &HAABBGGRR
+        const [, red, green, blue] = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(subtitles.color) ?? [, 'FF', 'FF', 'FF'];
+        const primaryColour = `&H00${blue}${green}${red}`.toUpperCase();
+        const style = [
+            // The style list is split on commas and can't escape them
+            `FontName=${subtitles.fontFamily.replace(/,/g, '')}`,
+            `FontSize=${Math.max(1, Math.round((subtitles.fontSize / 100) * scriptHeight))}`,
+            `PrimaryColour=${primaryColour}`,
+            'OutlineColour=&H00000000',
+            'BorderStyle=1',
+            'Outline=1',
+            'Shadow=0',
+            `Alignment=${subtitles.position === 'top' ? 8 : 2}`,
+            `MarginV=${Math.round(scriptHeight * 0.05)}`
+        ].join(',');
+        const fontsDir = fontFile ? `:fontsdir=${quoteFilterPath(path.dirname(fontFile))}` : '';
+        return `subtitles=filename=${quoteFilterPath(subtitlePath)}${fontsDir}:force_style=${quoteFilterValue(style)}`;
+    }
+
+    /**
+     * Adds the subtitles as a second input and maps them as a text track.
+     */
+    private static addSoftSubtitles(command: ffmpeg.FfmpegCommand, job: EncodeJob): ffmpeg.FfmpegCommand {
+        if (!job.subtitlePath || job.settings.subtitles?.mode !== 'soft') {
+            return command;
+        }
+        // Inputs before it are the source and any overlay images
+        const inputIndex = 1 + this.getImageOverlays(job).length;
+        return command
+            .input(job.subtitlePath)
+            .outputOptions('-map', `${inputIndex}:s:0`, '-c:s', getSubtitleEncoder(job.settings.container));
+    }
+
+    private static getImageOverlays(job: EncodeJob): ImageOverlay[] {
+        return (job.settings.overlays ?? []).filter((overlay): overlay is ImageOverlay => overlay.kind === 'image');
+    }
+
+    /**
+     * Draws text and image overlays on top of the scaled frame, bottom layer
+     * first. Timings are on the output timeline, which starts at zero after
+     * trimming.
+     */
+    private static applyOverlays(graph: FilterGraph, video: string, job: EncodeJob): string {
+        let imageInput = 1;
+
+        for (const overlay of job.settings.overlays ?? []) {
+            if (overlay.kind === 'text') {
+                const fontFile = job.fontFiles?.[this.getFontKey(overlay.textSet.fontFamily, overlay.textSet.fontWeight)];
+                video = graph.pipe(video, this.getDrawtextFilter(overlay, fontFile), 'v');
+                continue;
+            }
+
+            const opacity = Math.min(1, Math.max(0, overlay.opacity));
+            const image = graph.pipe(`${imageInput}:v`, `format=rgba,colorchannelmixer=aa=${opacity}`, 'i');
+            imageInput++;
+
+            // Size the image against the video frame, keeping its own aspect ratio
+            const scaledImage = graph.label('i');
+            const base = graph.label('v');
+            graph.chain([image, video], `scale2ref=w=main_w*${overlay.width}/100:h=ow/a`, [scaledImage, base]);
+
+            const [x, y] = this.getOverlayPosition(overlay, ['W', 'H'], ['w', 'h']);
+            const output = graph.label('v');
+            graph.chain([base, scaledImage], `overlay=x=${x}:y=${y}${this.getOverlayEnable(overlay)}`, [output]);
+            video = output;
+        }
+
+        return video;
+    }
+
+    /**
+     * drawtext filter for a TextSet. drawtext can't rotate, tilt or space
+     * letters, so those TextSet fields only affect the editor canvas. The
+     * weight comes from `fontFile`, without it drawtext uses the family's
+     * regular face.
+     */
+    private static getDrawtextFilter(overlay: TextOverlay, fontFile?: string): string {
+        const { textSet } = overlay;
+        const opacity = Math.min(1, Math.max(0, textSet.opacity));
+        const [x, y] = this.getOverlayPosition(overlay, ['w', 'h'], ['tw', 'th']);
+        const options = [
+            `text=${quoteFilterValue(textSet.text)}`,
+            'expansion=none',
+            fontFile ? `fontfile=${quoteFilterPath(fontFile)}` : `font=${quoteFilterValue(textSet.fontFamily)}`,
+            // TextSet sizes are editor pixels, read as pixels on a 1080 line frame
+            `fontsize=h*${textSet.fontSize}/1080`,
+            `fontcolor=${quoteFilterValue(`${textSet.color}@${opacity}`)}`,
+            `x=${x}`,
+            `y=${y}`
+        ];
+        if (textSet.shadowSize > 0) {
+            options.push(
+                `shadowcolor=${quoteFilterValue(`${textSet.shadowColor}@${opacity}`)}`,
+                `shadowx=${textSet.shadowSize}`,
+                `shadowy=${textSet.shadowSize}`
+            );
+        }
+        return `drawtext=${options.join(':')}${this.getOverlayEnable(overlay)}`;
+    }
+
+    /**
+     * x/y expressions for an anchored layer. `frame` and `item` name the
+     * filter's variables for the video size and the layer size.
+     */
+    private static getOverlayPosition(
+        overlay: OverlayPlacement,
+        [frameWidth, frameHeight]: [string, string],
+        [itemWidth, itemHeight]: [string, string]
+    ): [string, string] {
+        const insetX = `${frameWidth}*${overlay.offsetX}/100`;
+        const insetY = `${frameHeight}*${overlay.offsetY}/100`;
+        const left = insetX;
+        const right = `${frameWidth}-${itemWidth}-${insetX}`;
+        const top = insetY;
+        const bottom = `${frameHeight}-${itemHeight}-${insetY}`;
+
+        switch (overlay.anchor) {
+            case 'top-left':
+                return [left, top];
+            case 'top-right':
+                return [right, top];
+            case 'bottom-left':
+                return [left, bottom];
+            case 'bottom-right':
+                return [right, bottom];
+            case 'center':
+                return [`(${frameWidth}-${itemWidth})/2+${insetX}`, `(${frameHeight}-${itemHeight})/2+${insetY}`];
+        }
+    }
+
+    /** Timeline option limiting a layer to its start/end, empty when always shown. */
+    private static getOverlayEnable(overlay: OverlayPlacement): string {
+        const { start, end } = overlay;
+        if (start !== null && end !== null) {
+            return `:enable=${quoteFilterValue(`between(t,${start},${end})`)}`;
+        }
+        if (start !== null) {
+            return `:enable=${quoteFilterValue(`gte(t,${start})`)}`;
+        }
+        if (end !== null) {
+            return `:enable=${quoteFilterValue(`lte(t,${end})`)}`;
+        }
+        return '';
+    }
+
+    /**
+     * Reshapes the frame to the target aspect ratio. The expressions use the
+     * frame size ffmpeg sees after autorotation, and every dimension is kept
+     * even so the output stays encodable as 4:2:0.
+     */
+    private static applyReframe(graph: FilterGraph, video: string, reframe: ReframeOptions | undefined): string {
+        if (!reframe || reframe.aspectRatio === 'original') {
+            return video;
+        }
+
+        const ratio = ASPECT_RATIOS[reframe.aspectRatio].ratio;
+        const cropWidth = `'trunc(min(iw,ih*${ratio})/2)*2'`;
+        const cropHeight = `'trunc(min(ih,iw/${ratio})/2)*2'`;
+        const padWidth = `'trunc(max(iw,ih*${ratio})/2)*2'`;
+        const padHeight = `'trunc(max(ih,iw/${ratio})/2)*2'`;
+
+        switch (reframe.mode) {
+            case 'crop': {
+                const cropX = Math.min(1, Math.max(0, reframe.cropX));
+                const cropY = Math.min(1, Math.max(0, reframe.cropY));
+                return graph.pipe(video, `crop=${cropWidth}:${cropHeight}:(iw-ow)*${cropX}:(ih-oh)*${cropY},setsar=1`, 'v');
+            }
+            case 'pad': {
+                const color = /^#[0-9a-fA-F]{6}$/.test(reframe.padColor) ? `0x${reframe.padColor.slice(1)}` : 'black';
+                return graph.pipe(video, `pad=${padWidth}:${padHeight}:(ow-iw)/2:(oh-ih)/2:color=${color},setsar=1`, 'v');
+            }
+            case 'blur': {
+                const foreground = graph.label('v');
+                const background = graph.label('v');
+                graph.chain([video], 'split', [foreground, background]);
+
+                // Scale a copy to cover the padded canvas, then crop the overflow and blur it
+                const blurred = graph.pipe(
+                    background,
+                    `scale=${padWidth}:${padHeight}:force_original_aspect_ratio=increase,crop=${cropWidth}:${cropHeight},boxblur=luma_radius='min(h,w)/20':luma_power=2`,
+                    'v'
+                );
+                const output = graph.label('v');
+                graph.chain([blurred, foreground], 'overlay=(W-w)/2:(H-h)/2,setsar=1', [output]);
+                return output;
+            }
+        }
+    }
+
+    /**
+     * Encoder arguments for the selected codec. A null bitrate selects constant
+     * quality mode using settings.crf.
+     */
+    private static getVideoEncoderOptions(settings: VideoSettingsConfig, videoBitrate: number | null): string[] {
+        const encoder = VIDEO_CODECS[settings.videoCodec].encoder;
+
+        switch (settings.videoCodec) {
+            case 'prores':
+                return [`-c:v ${encoder}`, `-profile:v ${PRORES_PROFILES[settings.quality]}`, '-pix_fmt yuv422p10le', '-vendor apl0'];
+            case 'vp9':
+            case 'av1': {
+                // libvpx and libaom use a 0-63 CRF scale, so stretch the x264-style value
+                const rateControl = videoBitrate === null
+                    ? [`-crf ${Math.min(63, Math.round(settings.crf * 1.4))}`, '-b:v 0']
+                    : [`-b:v ${videoBitrate}k`];
+                const speed = settings.videoCodec === 'vp9'
+                    ? ['-deadline good', `-cpu-used ${VP9_CPU_USED[settings.preset]}`]
+                    : [`-cpu-used ${AOM_CPU_USED[settings.preset]}`];
+                return [`-c:v ${encoder}`, ...speed, '-row-mt 1', ...rateControl];
+            }
+            case 'hevc': {
+                const rateControl = videoBitrate === null ? [`-crf ${settings.crf}`] : [`-b:v ${videoBitrate}k`];
+                // hvc1 tagging is what QuickTime and iOS need to play HEVC from MP4/MOV
+                const tag = settings.container === 'mkv' ? [] : ['-tag:v hvc1'];
+                return [`-c:v ${encoder}`, `-preset ${settings.preset}`, ...rateControl, ...tag];
+            }
+            default: {
+                const rateControl = videoBitrate === null ? [`-crf ${settings.crf}`] : [`-b:v ${videoBitrate}k`];
+                return [`-c:v ${encoder}`, `-preset ${settings.preset}`, ...rateControl];
+            }
+        }
+    }
+
+    private static getAudioEncoderOptions(settings: VideoSettingsConfig): string[] {
+        if (settings.audioProcessing?.mute) {
+            return ['-an'];
+        }
+        const audioEncoder = getAudioEncoder(settings.videoCodec, settings.container);
+        if (audioEncoder === 'pcm_s16le') {
+            return [`-c:a ${audioEncoder}`];
+        }
+        return [`-c:a ${audioEncoder}`, `-b:a ${AUDIO_BITRATE_KBPS}k`];
+    }
+
+    // kbps of the audio track getAudioEncoderOptions() writes, 0 when the output has none
+    private static getEncodedAudioBitrate(job: EncodeJob): number {
+        if (job.settings.audioProcessing?.mute || !job.metadata.hasAudio) {
+            return 0;
+        }
+        if (getAudioEncoder(job.settings.videoCodec, job.settings.container) === 'pcm_s16le') {
+            const channels = job.metadata.audioStreams[0]?.channels || 2;
+            return (this.getSourceSampleRate(job) * channels * 16) / 1000;
+        }
+        return AUDIO_BITRATE_KBPS;
+    }
+
+    private static getContainerOptions(settings: VideoSettingsConfig): string[] {
+        if (settings.container === 'mp4' || settings.container === 'mov') {
+            return ['-movflags +faststart'];
+        }
+        return [];
+    }
+
+    private static getPassOptions(job: EncodeJob, pass: 1 | 2, passLogFile: string): string[] {
+        if (job.settings.videoCodec === 'hevc') {
+            // libx265 ignores -pass, its stats file goes through x265-params where ':' separates keys
+            const statsFile = passLogFile.replace(/\\/g, '\\\\').replace(/:/g, '\\:');
+            return this.getX265Options(job, [`pass=${pass}`, `stats=${statsFile}`]);
+        }
+        // Passed as separate arguments so paths with spaces survive
+        return ['-pass', String(pass), '-passlogfile', passLogFile];
+    }
+
+    /**
+     * Video bitrate that fills the target size once audio and container overhead
+     * are accounted for. Unlike calculateOptimalBitrate this is not capped by the
+     * user's bitrate, since two-pass is expected to land on the target.
+     */
+    private static calculateTwoPassBitrate(maxFileSizeMB: number, duration: number, audioBitrate: number): number {
+        const targetBits = maxFileSizeMB * 1024 * 1024 * 8 * (1 - TWO_PASS_CONTAINER_OVERHEAD);
+        const videoBitrate = Math.floor(targetBits / (duration * 1000) - audioBitrate);
+        return Math.max(100, videoBitrate);
+    }
+
+    private static createCommand(job: EncodeJob): ffmpeg.FfmpegCommand {
+        let command = ffmpeg(job.inputPath);
+
+        // Add HEVC/H.265 input codec detection
+        if (job.inputPath.toLowerCase().includes('.hevc') || job.inputPath.toLowerCase().includes('.h265')) {
+            command = command.inputOptions(['-c:v hevc']);
+        }
+
+        if (job.settings.enableHardwareAcceleration) {
+            command = command.inputOptions(['-hwaccel auto']);
+        }
+
+        const segments = this.getKeptSegments(job);
+        if (segments.length === 1) {
+            command = command.seekInput(segments[0].start);
+        }
+
+        // Output timestamps always start at zero, so cap them at the kept length
+        const outputDuration = this.getOutputDuration(job);
+        if (segments.length > 0 || job.maxDuration > 0) {
+            command = command.duration(outputDuration);
+        }
+
+        return command;
+    }
+
+    private static registerConversion(conversionId: string, outputPath: string | null): ActiveConversion {
+        const conversion: ActiveConversion = { command: null, outputPath, cancelled: false };
+        this.activeConversions.set(conversionId, conversion);
+        return conversion;
+    }
+
+    private static runCommand(
+        command: ffmpeg.FfmpegCommand,
+        conversionId: string,
+        conversion: ActiveConversion,
+        onProgress: (progress: VideoConversionProgress) => void,
+        outputDuration: number,
+        progressRange: [number, number] = [0, 100]
+    ): Promise<string> {
+        const [rangeStart, rangeEnd] = progressRange;
+        // fluent-ffmpeg's percent is measured against the whole input, so it is
+        // wrong for trimmed or capped output and missing when the length is unknown
+        const parser = new ProgressParser((report) => {
+            const share = outputDuration > 0 ? Math.min(1, report.outTime / outputDuration) : 0;
+            onProgress({
+                progress: rangeStart + share * (rangeEnd - rangeStart),
+                timemark: formatTimemark(report.outTime),
+                targetSize: report.totalSize / 1024,
+                currentFps: report.fps,
+                speed: report.speed,
+                bitrate: report.bitrate,
+                eta: null
+            });
+        });
+        return new Promise((resolve, reject) => {
+            // Cancelled while we were still probing the input
+            if (conversion.cancelled) {
+                reject(new ConversionCancelledError(conversionId));
+                return;
+            }
+
+            conversion.command = command;
+
+            command
+                .outputOptions(['-progress', 'pipe:2'])
+                .on('end', () => {
+                    resolve(conversion.outputPath ?? '');
+                })
+                .on('error', (err: Error) => {
+                    if (conversion.cancelled) {
+                        Promise.resolve(conversion.outputPath && fs.promises.rm(conversion.outputPath, { force: true }))
+                            .catch((rmError) => console.error('Failed to remove partial output:', rmError))
+                            .finally(() => reject(new ConversionCancelledError(conversionId)));
+                        return;
+                    }
+
+                    console.error('FFmpeg conversion error:', err);
+                    console.error('FFmpeg command that failed:', command._getArguments().join(' '));
+                    reject(new Error(`FFmpeg conversion failed: ${err.message}`));
+                })
+                .on('stderr', (stderrLine: string) => {
+                    if (!parser.push(stderrLine)) {
+                        console.log('FFmpeg stderr:', stderrLine);
+                    }
+                })
+                .run();
         });
     }
 }
\ No newline at end of file
@@ -1,88 +1,187 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, IpcRendererEvent, webUtils } from 'electron';
+import type { SubtitleCue } from '../lib/subtitles';
+import type { GeoLocation, HdrFormat } from '../lib/media-probe';
+import type {
+  BrandState,
+  ConversionJob,
+  FramePreview,
+  IpcEventChannel,
+  IpcEvents,
+  LoudnessMeasurement,
+  NewConversionJob,
+  OutputEstimate,
+  QualityMetrics,
+  TimeRange,
+  TokenResponse,
+  VideoConversionProgress,
+  VideoMetadata,
+  VideoSettingsConfig
+} from '../lib/ipc-schema';
+import type { BrandKit, ImportedFont, ThumbnailProject } from '../types';
 
-export interface VideoConversionProgress {
-  progress: number;
-  timemark: string;
-  targetSize: number;
-  currentFps: number;
-}
-
-export interface VideoMetadata {
-  duration: number;
-  width: number;
-  height: number;
-  fps: number;
-  format: string;
-}
-
-export interface VideoSettingsConfig {
-  quality: 'low' | 'medium' | 'high' | 'ultra';
-  resolution: '720p' | '1080p' | '1440p' | '4k';
-  bitrate: number;
-  preset: 'ultrafast' | 'fast' | 'medium' | 'slow' | 'veryslow';
-  socialMediaOptimization: boolean;
-  platform: 'instagram' | 'twitter' | 'youtube' | 'facebook' | 'general';
-  enableHardwareAcceleration: boolean;
-  maxFileSizeMB: number;
-}
+export type { SubtitleCue, GeoLocation, HdrFormat, ThumbnailProject, BrandKit, ImportedFont };
+export type {
+  AnimationOptions,
+  AudioExportOptions,
+  AudioProcessingOptions,
+  AudioStreamInfo,
+  BrandState,
+  ConversionJob,
+  ConversionJobStatus,
+  ConversionResult,
+  FramePreview,
+  IpcEventChannel,
+  IpcEvents,
+  LoudnessMeasurement,
+  NewConversionJob,
+  OutputEstimate,
+  QualityMetrics,
+  ReframeOptions,
+  SubtitleOptions,
+  SubtitleStreamInfo,
+  TimeRange,
+  TokenResponse,
+  VideoConversionProgress,
+  VideoMetadata,
+  VideoSettingsConfig,
+  VideoStreamInfo
+} from '../lib/ipc-schema';
 
-export interface TokenResponse {
-  access_token: string;
-  refresh_token: string;
-  id_token: string;
-  expires_in: number;
-}
+// Stops a subscription; calling it more than once is harmless
+export type Unsubscribe = () => void;
 
 export interface ElectronAPI {
-  showOpenDialog: (options?: { filters?: Array<{ name: string; extensions: string[] }> }) => Promise<{ success: boolean; filePath?: string; fileName?: string }>;
-  showSaveDialog: (defaultName: string) => Promise<{ canceled: boolean; filePath?: string }>;
+  showOpenDialog: (options?: { filters?: Array<{ name: string; extensions: string[] }>; multiple?: boolean }) => Promise<{ success: boolean; filePath?: string; fileName?: string; filePaths?: string[] }>;
+  showDirectoryDialog: () => Promise<{ success: boolean; directoryPath?: string }>;
+  getPathForFile: (file: File) => string;
+  showSaveDialog: (defaultName: string, filters?: Array<{ name: string; extensions: string[] }>) => Promise<{ canceled: boolean; filePath?: string }>;
   saveImage: (imagePath: string, imageData: string) => Promise<{ success: boolean; error?: string; filePath?: string }>;
+  saveProject: (filePath: string, project: Omit<ThumbnailProject, 'version'>) => Promise<{ success: boolean; error?: string; filePath?: string }>;
+  openProject: (filePath: string) => Promise<{ success: boolean; project?: ThumbnailProject; error?: string }>;
   showInFinder: (filePath: string) => Promise<{ success: boolean; error?: string }>;
   getFileUrl: (filePath: string) => Promise<{ success: boolean; url?: string; error?: string }>;
   getTempDir: () => Promise<string>;
   writeFile: (filePath: string, data: Uint8Array) => Promise<void>;
+  removeTempFile: (filePath: string) => Promise<{ success: boolean; error?: string }>;
   copyFile: (sourcePath: string, destPath: string) => Promise<void>;
   getFileStats: (filePath: string) => Promise<{ size: number; isFile: boolean }>;
   extractFirstFrame: (filePath: string, outputDir: string) => Promise<{ success: boolean; thumbnailPath?: string; error?: string }>;
+  extractFrame: (filePath: string, outputDir: string, time: number, width: number | null) => Promise<{ success: boolean; framePath?: string; error?: string }>;
+  extractFilmstrip: (filePath: string, outputDir: string, count: number, width: number) => Promise<{ success: boolean; frames?: FramePreview[]; error?: string }>;
+  suggestFrames: (filePath: string, outputDir: string, count: number, width: number) => Promise<{ success: boolean; frames?: FramePreview[]; error?: string }>;
   getVideoMetadata: (filePath: string) => Promise<{ success: boolean; metadata?: VideoMetadata; error?: string }>;
-  convertVideo: (inputPath: string, outputPath: string, settings: VideoSettingsConfig, conversionId: string) => Promise<{ success: boolean; convertedPath?: string; error?: string }>;
-  optimizeForSocialMedia: (inputPath: string, outputPath: string, settings: VideoSettingsConfig, conversionId: string) => Promise<{ success: boolean; convertedPath?: string; error?: string }>;
-  onConversionProgress: (callback: (conversionId: string, progress: VideoConversionProgress) => void) => void;
-  removeConversionProgressListener: (callback: (conversionId: string, progress: VideoConversionProgress) => void) => void;
+  loadSubtitles: (filePath: string) => Promise<{ success: boolean; cues?: SubtitleCue[]; error?: string }>;
+  getFontFile: (family: string, weight: number) => Promise<{ success: boolean; fontPath?: string; error?: string }>;
+  convertVideo: (inputPath: string, outputPath: string, settings: VideoSettingsConfig, conversionId: string) => Promise<{ success: boolean; convertedPath?: string; loudness?: LoudnessMeasurement | null; warnings?: string[]; error?: string; cancelled?: boolean }>;
+  optimizeForSocialMedia: (inputPath: string, outputPath: string, settings: VideoSettingsConfig, conversionId: string) => Promise<{ success: boolean; convertedPath?: string; loudness?: LoudnessMeasurement | null; warnings?: string[]; error?: string; cancelled?: boolean }>;
+  compareQuality: (originalPath: string, convertedPath: string, segments: TimeRange[], comparisonId: string) => Promise<{ success: boolean; metrics?: QualityMetrics; error?: string; cancelled?: boolean }>;
+  cancelConversion: (conversionId: string) => Promise<{ success: boolean; error?: string }>;
+  estimateOutput: (inputPath: string, settings: VideoSettingsConfig, estimateId: string) => Promise<{ success: boolean; estimate?: OutputEstimate; error?: string; cancelled?: boolean }>;
+  onConversionProgress: (callback: (conversionId: string, progress: VideoConversionProgress) => void) => Unsubscribe;
+  // Batch conversion queue
+  getQueueJobs: () => Promise<{ jobs: ConversionJob[]; concurrency: number }>;
+  addQueueJobs: (jobs: NewConversionJob[], settings: VideoSettingsConfig) => Promise<{ success: boolean; jobs?: ConversionJob[]; error?: string }>;
+  cancelQueueJob: (jobId: string) => Promise<{ success: boolean; error?: string }>;
+  removeQueueJob: (jobId: string) => Promise<{ success: boolean; error?: string }>;
+  clearFinishedQueueJobs: () => Promise<{ success: boolean }>;
+  setQueueConcurrency: (concurrency: number) => Promise<{ success: boolean; concurrency: number }>;
+  onQueueUpdated: (callback: (jobs: ConversionJob[]) => void) => Unsubscribe;
+  onQueueJobUpdated: (callback: (job: ConversionJob) => void) => Unsubscribe;
+  // Brand kits and imported fonts
+  getBrandState: () => Promise<BrandState>;
+  importFonts: (filePaths: string[]) => Promise<{ success: boolean; fonts?: ImportedFont[]; error?: string }>;
+  removeImportedFont: (family: string, weight: number) => Promise<{ success: boolean; error?: string }>;
+  saveBrandKit: (kit: BrandKit) => Promise<{ success: boolean; kit?: BrandKit; error?: string }>;
+  deleteBrandKit: (kitId: string) => Promise<{ success: boolean; error?: string }>;
+  importBrandLogo: (kitId: string, filePath: string) => Promise<{ success: boolean; kit?: BrandKit; error?: string }>;
+  onBrandUpdated: (callback: (state: BrandState) => void) => Unsubscribe;
   // OIDC Authentication methods
   startOidcAuth: () => Promise<{ success: boolean; error?: string }>;
-  onAuthSuccess: (callback: (data: TokenResponse) => void) => void;
-  onAuthError: (callback: (error: string) => void) => void;
+  onAuthSuccess: (callback: (data: TokenResponse) => void) => Unsubscribe;
+  onAuthError: (callback: (error: string) => void) => Unsubscribe;
+  // Any event main sends, with the arguments listed in IpcEvents
+  subscribe: <C extends IpcEventChannel>(channel: C, handler: (...args: IpcEvents[C]) => void) => Unsubscribe;
 }
 
+// Every channel main sends events on; subscribe() refuses anything else
+const EVENT_CHANNELS: Record<IpcEventChannel, true> = {
+  'conversion-progress': true,
+  'queue-updated': true,
+  'queue-job-updated': true,
+  'brand-updated': true,
+  'auth-success': true,
+  'auth-error': true
+};
+
+// Registers its own listener per call, so each subscription removes exactly what it added
+const subscribe = <C extends IpcEventChannel>(channel: C, handler: (...args: IpcEvents[C]) => void): Unsubscribe => {
+  if (!Object.keys(EVENT_CHANNELS).includes(channel)) {
+    throw new Error(`Unknown event channel: ${channel}`);
+  }
+  const listener = (_: IpcRendererEvent, ...args: unknown[]) => handler(...(args as IpcEvents[C]));
+  ipcRenderer.on(channel, listener);
+  return () => {
+    ipcRenderer.removeListener(channel, listener);
+  };
+};
+
 const electronAPI: ElectronAPI = {
-  showOpenDialog: (options?: { filters?: Array<{ name: string; extensions: string[] }> }) => ipcRenderer.invoke('show-open-dialog', options),
-  showSaveDialog: (defaultName: string) => ipcRenderer.invoke('show-save-dialog', defaultName),
+  showOpenDialog: (options?: { filters?: Array<{ name: string; extensions: string[] }>; multiple?: boolean }) => ipcRenderer.invoke('show-open-dialog', options),
+  showDirectoryDialog: () => ipcRenderer.invoke('show-directory-dialog'),
+  getPathForFile: (file: File) => {
+    // Dropping a file grants main access to it, like picking it in a dialog
+    const filePath = webUtils.getPathForFile(file);
+    if (filePath) {
+      ipcRenderer.send('grant-dropped-path', filePath);
+    }
+    return filePath;
+  },
+  showSaveDialog: (defaultName: string, filters?: Array<{ name: string; extensions: string[] }>) => ipcRenderer.invoke('show-save-dialog', defaultName, filters),
   saveImage: (imagePath: string, imageData: string) => ipcRenderer.invoke('save-image', imagePath, imageData),
+  saveProject: (filePath: string, project: Omit<ThumbnailProject, 'version'>) => ipcRenderer.invoke('save-project', filePath, project),
+  openProject: (filePath: string) => ipcRenderer.invoke('open-project', filePath),
   showInFinder: (filePath: string) => ipcRenderer.invoke('show-in-finder', filePath),
   getFileUrl: (filePath: string) => ipcRenderer.invoke('get-file-url', filePath),
   getTempDir: () => ipcRenderer.invoke('get-temp-dir'),
   writeFile: (filePath: string, data: Uint8Array) => ipcRenderer.invoke('write-file', filePath, data),
+  removeTempFile: (filePath: string) => ipcRenderer.invoke('remove-temp-file', filePath),
   copyFile: (sourcePath: string, destPath: string) => ipcRenderer.invoke('copy-file', sourcePath, destPath),
   getFileStats: (filePath: string) => ipcRenderer.invoke('get-file-stats', filePath),
   extractFirstFrame: (filePath: string, outputDir: string) => ipcRenderer.invoke('extract-first-frame', filePath, outputDir),
+  extractFrame: (filePath: string, outputDir: string, time: number, width: number | null) => ipcRenderer.invoke('extract-frame', filePath, outputDir, time, width),
+  extractFilmstrip: (filePath: string, outputDir: string, count: number, width: number) => ipcRenderer.invoke('extract-filmstrip', filePath, outputDir, count, width),
+  suggestFrames: (filePath: string, outputDir: string, count: number, width: number) => ipcRenderer.invoke('suggest-frames', filePath, outputDir, count, width),
   getVideoMetadata: (filePath: string) => ipcRenderer.invoke('get-video-metadata', filePath),
+  loadSubtitles: (filePath: string) => ipcRenderer.invoke('load-subtitles', filePath),
+  getFontFile: (family: string, weight: number) => ipcRenderer.invoke('get-font-file', family, weight),
   convertVideo: (inputPath: string, outputPath: string, settings: VideoSettingsConfig, conversionId: string) => ipcRenderer.invoke('convert-video', inputPath, outputPath, settings, conversionId),
   optimizeForSocialMedia: (inputPath: string, outputPath: string, settings: VideoSettingsConfig, conversionId: string) => ipcRenderer.invoke('optimize-for-social-media', inputPath, outputPath, settings, conversionId),
-  onConversionProgress: (callback: (conversionId: string, progress: VideoConversionProgress) => void) => {
-    ipcRenderer.on('conversion-progress', (_, conversionId, progress) => callback(conversionId, progress));
-  },
-  removeConversionProgressListener: (callback: (conversionId: string, progress: VideoConversionProgress) => void) => {
-    ipcRenderer.removeListener('conversion-progress', callback as any);
-  },
+  compareQuality: (originalPath: string, convertedPath: string, segments: TimeRange[], comparisonId: string) => ipcRenderer.invoke('compare-quality', originalPath, convertedPath, segments, comparisonId),
+  cancelConversion: (conversionId: string) => ipcRenderer.invoke('cancel-conversion', conversionId),
+  estimateOutput: (inputPath: string, settings: VideoSettingsConfig, estimateId: string) => ipcRenderer.invoke('estimate-output', inputPath, settings, estimateId),
+  onConversionProgress: (callback: (conversionId: string, progress: VideoConversionProgress) => void) => subscribe('conversion-progress', callback),
+  // Batch conversion queue implementations
+  getQueueJobs: () => ipcRenderer.invoke('queue-get-jobs'),
+  addQueueJobs: (jobs: NewConversionJob[], settings: VideoSettingsConfig) => ipcRenderer.invoke('queue-add-jobs', jobs, settings),
+  cancelQueueJob: (jobId: string) => ipcRenderer.invoke('queue-cancel-job', jobId),
+  removeQueueJob: (jobId: string) => ipcRenderer.invoke('queue-remove-job', jobId),
+  clearFinishedQueueJobs: () => ipcRenderer.invoke('queue-clear-finished'),
+  setQueueConcurrency: (concurrency: number) => ipcRenderer.invoke('queue-set-concurrency', concurrency),
+  onQueueUpdated: (callback: (jobs: ConversionJob[]) => void) => subscribe('queue-updated', callback),
+  onQueueJobUpdated: (callback: (job: ConversionJob) => void) => subscribe('queue-job-updated', callback),
+  // Brand kit implementations
+  getBrandState: () => ipcRenderer.invoke('brand-get-state'),
+  importFonts: (filePaths: string[]) => ipcRenderer.invoke('brand-import-fonts', filePaths),
+  removeImportedFont: (family: string, weight: number) => ipcRenderer.invoke('brand-remove-font', family, weight),
+  saveBrandKit: (kit: BrandKit) => ipcRenderer.invoke('brand-save-kit', kit),
+  deleteBrandKit: (kitId: string) => ipcRenderer.invoke('brand-delete-kit', kitId),
+  importBrandLogo: (kitId: string, filePath: string) => ipcRenderer.invoke('brand-import-logo', kitId, filePath),
+  onBrandUpdated: (callback: (state: BrandState) => void) => subscribe('brand-updated', callback),
   // OIDC Authentication implementations
   startOidcAuth: () => ipcRenderer.invoke('start-oidc-auth'),
-  onAuthSuccess: (callback: (data: TokenResponse) => void) => {
-    ipcRenderer.on('auth-success', (_, data) => callback(data));
-  },
-  onAuthError: (callback: (error: string) => void) => {
-    ipcRenderer.on('auth-error', (_, error) => callback(error));
-  },
+  onAuthSuccess: (callback: (data: TokenResponse) => void) => subscribe('auth-success', callback),
+  onAuthError: (callback: (error: string) => void) => subscribe('auth-error', callback),
+  subscribe,
 };
 
 contextBridge.exposeInMainWorld('electronAPI', electronAPI);
\ No newline at end of file
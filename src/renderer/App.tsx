@@ -7,15 +7,26 @@ import SuccessModal from '@/components/ui/success-modal';
 import VideoUpload from '@/components/video/VideoUpload';
 import VideoProcessor from '@/components/video/VideoProcessor';
 import VideoPreview from '@/components/video/VideoPreview';
-import { VideoService } from '@/services/videoService';
-import { VideoConversionProgress, VideoSettingsConfig, TokenResponse } from '@/preload/preload';
-import { UploadIcon } from '@radix-ui/react-icons';
+import ConversionQueue from '@/components/video/ConversionQueue';
+import ThumbnailDesigner from '@/components/video/ThumbnailDesigner';
+import ComparisonViewer from '@/components/video/ComparisonViewer';
+import BrandKitManager from '@/components/brand/BrandKitManager';
+import { DEFAULT_VIDEO_SETTINGS } from '@/components/video/VideoSettings';
+import { VideoService, ConversionCancelledError } from '@/services/videoService';
+import { VideoConversionProgress, VideoSettingsConfig, TokenResponse, TimeRange, ReframeOptions, SubtitleOptions, VideoMetadata, LoudnessMeasurement } from '@/preload/preload';
+import { PROJECT_FILE_EXTENSION } from '@/lib/thumbnail-project';
+import { SelectedVideo, ThumbnailProject } from '@/types';
+import { generateOutputFileName, getFileExtension, getFileName, getSaveDialogFilters } from '@/lib/video-utils';
+import { VIDEO_FILE_EXTENSIONS } from '@/constants/formats';
+import { UploadIcon, StackIcon, ImageIcon, FileIcon } from '@radix-ui/react-icons';
 import ogThumbnail from './og-thumbnail.webp';
 
 const App = () => {
-    const [selectedVideo, setSelectedVideo] = useState<File | null>(null);
+    const [selectedVideo, setSelectedVideo] = useState<SelectedVideo | null>(null);
     const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
     const [convertedVideoPath, setConvertedVideoPath] = useState<string | null>(null);
+    // Settings the converted file was made with, the comparison view needs its trims and framing
+    const [convertedSettings, setConvertedSettings] = useState<VideoSettingsConfig | null>(null);
     const [isProcessing, setIsProcessing] = useState<boolean>(false);
     const [conversionProgress, setConversionProgress] = useState<VideoConversionProgress | null>(null);
     const [conversionStatus, setConversionStatus] = useState<'idle' | 'processing' | 'completed' | 'error'>('idle');
@@ -24,8 +35,22 @@ const App = () => {
     const [savedFilePath, setSavedFilePath] = useState<string>('');
     const [savedFileName, setSavedFileName] = useState<string>('');
     const [convertedFileSize, setConvertedFileSize] = useState<number>(0);
+    const [convertedLoudness, setConvertedLoudness] = useState<LoudnessMeasurement | null>(null);
+    const [convertedWarnings, setConvertedWarnings] = useState<string[]>([]);
     const [currentVideoPath, setCurrentVideoPath] = useState<string>('');
     const currentVideoPathRef = useRef<string>('');
+    const activeConversionIdRef = useRef<string | null>(null);
+    const [batchInputPaths, setBatchInputPaths] = useState<string[]>([]);
+    const [sourceVideoUrl, setSourceVideoUrl] = useState<string | null>(null);
+    const [sourceMetadata, setSourceMetadata] = useState<VideoMetadata | null>(null);
+    const [segments, setSegments] = useState<TimeRange[]>([]);
+    const [reframe, setReframe] = useState<ReframeOptions>(DEFAULT_VIDEO_SETTINGS.reframe);
+    const [subtitles, setSubtitles] = useState<SubtitleOptions | null>(null);
+    const [isDesigningThumbnail, setIsDesigningThumbnail] = useState<boolean>(false);
+    const [isComparing, setIsComparing] = useState<boolean>(false);
+    const [thumbnailProject, setThumbnailProject] = useState<ThumbnailProject | null>(null);
+    // Remounts the designer when a project is opened over an open one
+    const [projectOpenCount, setProjectOpenCount] = useState<number>(0);
     
     // OIDC Authentication state
     const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
@@ -75,13 +100,12 @@ const App = () => {
         }
 
         // Set up event listeners
-        window.electronAPI.onAuthSuccess(handleAuthSuccess);
-        window.electronAPI.onAuthError(handleAuthError);
+        const unsubscribeSuccess = window.electronAPI.onAuthSuccess(handleAuthSuccess);
+        const unsubscribeError = window.electronAPI.onAuthError(handleAuthError);
 
-        // Cleanup function
         return () => {
-            // Note: In a real implementation, you'd want to remove these listeners
-            // but the current API doesn't provide a way to do that
+            unsubscribeSuccess();
+            unsubscribeError();
         };
     }, []);
 
@@ -117,28 +141,37 @@ const App = () => {
         setAuthError('');
     };
 
-    const handleVideoSelect = useCallback(async (file: File) => {
-        setSelectedVideo(file);
+    const handleVideoSelect = useCallback(async (filePath: string, fileName: string = getFileName(filePath)) => {
+        setSelectedVideo({ path: filePath, name: fileName, size: 0 });
         setConversionStatus('idle');
         setThumbnailUrl(null);
         setConvertedVideoPath(null);
         setCurrentVideoPath(''); // Clear old path immediately
         currentVideoPathRef.current = ''; // Clear ref immediately too
+        setSourceVideoUrl(null);
+        setSourceMetadata(null);
+        setIsDesigningThumbnail(false);
+        setIsComparing(false);
+        setThumbnailProject(null);
+        setSegments([]);
+        setReframe((current) => ({ ...current, cropX: 0.5, cropY: 0.5 }));
         setIsProcessing(true);
         
         try {
+            // The video is read in place, only the frames extracted from it go to the temp dir
             const tempDir = await window.electronAPI.getTempDir();
-            // Use timestamp to ensure unique filename
-            const timestamp = Date.now();
-            const fileExtension = file.name.split('.').pop() || 'mp4';
-            const uniqueFileName = `video_${timestamp}.${fileExtension}`;
-            const filePath = `${tempDir}/${uniqueFileName}`;
-            
-            const buffer = await file.arrayBuffer();
-            await window.electronAPI.writeFile(filePath, new Uint8Array(buffer));
+            const stats = await window.electronAPI.getFileStats(filePath);
+            setSelectedVideo({ path: filePath, name: fileName, size: stats.size });
             
             setCurrentVideoPath(filePath);
             currentVideoPathRef.current = filePath;
+
+            const metadata = await VideoService.getVideoMetadata(filePath);
+            setSourceMetadata(metadata);
+            const sourceUrl = await window.electronAPI.getFileUrl(filePath);
+            if (sourceUrl.success && sourceUrl.url) {
+                setSourceVideoUrl(sourceUrl.url);
+            }
             
             const thumbnailPath = await VideoService.extractFirstFrame(filePath, tempDir);
             const thumbnailUrl = await window.electronAPI.getFileUrl(thumbnailPath);
@@ -158,30 +191,71 @@ const App = () => {
         try {
             const result = await window.electronAPI.showOpenDialog({
                 filters: [
-                    { name: 'Video Files', extensions: ['mp4', 'avi', 'mov', 'mkv', 'webm', 'flv', 'wmv', 'm4v', 'hevc', 'h265'] }
+                    { name: 'Video Files', extensions: VIDEO_FILE_EXTENSIONS }
                 ]
             });
             if (result.success && result.filePath) {
-                const file = new File([await fetch(`file://${result.filePath}`).then(r => r.blob())], 
-                    result.filePath.split('/').pop() || 'video', 
-                    { type: 'video/mp4' }
-                );
-                await handleVideoSelect(file);
+                await handleVideoSelect(result.filePath);
+            }
+        } catch (error) {
+            // Error handling
+        }
+    };
+
+    const handleOpenProject = async () => {
+        try {
+            const result = await window.electronAPI.showOpenDialog({
+                filters: [
+                    { name: 'SubClip Projects', extensions: [PROJECT_FILE_EXTENSION] }
+                ]
+            });
+            if (!result.success || !result.filePath) return;
+
+            const project = await VideoService.openProject(result.filePath);
+            if (project.sourceVideoPath !== currentVideoPath) {
+                await handleVideoSelect(project.sourceVideoPath);
+            }
+            setThumbnailProject(project);
+            setProjectOpenCount((count) => count + 1);
+            setIsDesigningThumbnail(true);
+        } catch (error) {
+            console.error('Error opening project:', error);
+        }
+    };
+
+    const handleBatchUpload = async () => {
+        try {
+            const result = await window.electronAPI.showOpenDialog({
+                filters: [
+                    { name: 'Video Files', extensions: VIDEO_FILE_EXTENSIONS }
+                ],
+                multiple: true
+            });
+            if (result.success && result.filePaths) {
+                setBatchInputPaths(result.filePaths);
             }
         } catch (error) {
             // Error handling
         }
     };
 
-    const handleStartConversion = useCallback(async (settings: VideoSettingsConfig) => {
+    // Segments and the crop position are set on the preview rather than in the dialog
+    const applyPreviewEdits = useCallback((selectedSettings: VideoSettingsConfig): VideoSettingsConfig => ({
+        ...selectedSettings,
+        segments,
+        reframe: { ...selectedSettings.reframe, cropX: reframe.cropX, cropY: reframe.cropY }
+    }), [segments, reframe]);
+
+    const handleStartConversion = useCallback(async (selectedSettings: VideoSettingsConfig) => {
         if (!selectedVideo || !currentVideoPathRef.current) {
             return;
         }
+        const settings = applyPreviewEdits(selectedSettings);
         
         // Ask for save location first
         try {
             const outputFileName = generateOutputFileName(settings, selectedVideo.name);
-            const result = await window.electronAPI.showSaveDialog(outputFileName);
+            const result = await window.electronAPI.showSaveDialog(outputFileName, getSaveDialogFilters(settings));
             
             if (result.canceled || !result.filePath) {
                 return; // User canceled save dialog
@@ -195,37 +269,57 @@ const App = () => {
             setIsProcessing(true);
             setConversionProgress(null);
             
-            const tempDir = await window.electronAPI.getTempDir();
             const inputPath = currentVideoPathRef.current;
-            const timestamp = Date.now();
-            const tempOutputPath = `${tempDir}/converted_${timestamp}.mp4`;
+            const conversionId = VideoService.createConversionId();
+            activeConversionIdRef.current = conversionId;
             
-            const convertedPath = await VideoService.convertToMp4(
+            // The save dialog granted write access to this path; main only replaces the file once the encode succeeds
+            const { loudness, warnings } = await VideoService.convertToMp4(
                 inputPath,
-                tempOutputPath,
+                finalOutputPath,
                 settings,
                 (progress) => {
                     setConversionProgress(progress);
-                }
+                },
+                conversionId
             );
             
-            // Copy to final location
-            await window.electronAPI.copyFile(convertedPath, finalOutputPath);
-            
             const stats = await window.electronAPI.getFileStats(finalOutputPath);
             setConvertedFileSize(stats.size);
+            setConvertedLoudness(loudness);
+            setConvertedWarnings(warnings);
             setConvertedVideoPath(finalOutputPath);
+            setConvertedSettings(settings);
             setConversionStatus('completed');
             setShowSuccessModal(true);
         } catch (error) {
+            if (error instanceof ConversionCancelledError) {
+                setConversionStatus('idle');
+                setConversionProgress(null);
+                return;
+            }
             setErrorMessage(error instanceof Error ? error.message : 'Conversion failed');
             setConversionStatus('error');
         } finally {
+            activeConversionIdRef.current = null;
             setIsProcessing(false);
         }
-    }, [selectedVideo, currentVideoPath]);
+    }, [selectedVideo, currentVideoPath, applyPreviewEdits]);
+
+    const handleSettingsChange = useCallback((settings: VideoSettingsConfig) => {
+        setReframe((current) => ({ ...settings.reframe, cropX: current.cropX, cropY: current.cropY }));
+        setSubtitles(settings.subtitles);
+    }, []);
 
-    const handleCancelConversion = useCallback(() => {
+    const handleCancelConversion = useCallback(async () => {
+        const conversionId = activeConversionIdRef.current;
+        if (conversionId) {
+            try {
+                await VideoService.cancelConversion(conversionId);
+            } catch (error) {
+                // The conversion already finished or was never started
+            }
+        }
         setConversionStatus('idle');
         setIsProcessing(false);
         setConversionProgress(null);
@@ -235,8 +329,10 @@ const App = () => {
         if (!convertedVideoPath) return;
         
         try {
+            const extension = getFileExtension(convertedVideoPath) || 'mp4';
             const result = await window.electronAPI.showSaveDialog(
-                selectedVideo?.name.replace(/\.[^/.]+$/, '') + '_converted.mp4'
+                selectedVideo?.name.replace(/\.[^/.]+$/, '') + `_converted.${extension}`,
+                [{ name: `${extension.toUpperCase()} Files`, extensions: [extension] }]
             );
             
             if (!result.canceled && result.filePath) {
@@ -272,6 +368,7 @@ const App = () => {
     const handleConvertAgain = useCallback(() => {
         setConversionStatus('idle');
         setConvertedVideoPath(null);
+        setIsComparing(false);
         setConversionProgress(null);
         setShowSuccessModal(false);
         setSavedFilePath('');
@@ -279,28 +376,6 @@ const App = () => {
         setErrorMessage('');
         // Keep currentVideoPath so user can convert the same video again
     }, []);
-
-    const generateOutputFileName = useCallback((settings: VideoSettingsConfig, originalName: string) => {
-        const nameWithoutExt = originalName.replace(/\.[^/.]+$/, "");
-        const parts = [nameWithoutExt];
-        
-        // Add quality info
-        if (settings.maxFileSizeMB < 500) {
-            parts.push(`${settings.maxFileSizeMB}MB`);
-        } else if (settings.socialMediaOptimization) {
-            parts.push(settings.platform);
-        } else {
-            parts.push(settings.quality);
-            parts.push(settings.resolution);
-        }
-        
-        // Add preset if not using max file size
-        if (settings.maxFileSizeMB >= 500) {
-            parts.push(settings.preset);
-        }
-        
-        return `${parts.join('_')}.mp4`;
-    }, []);
     
     return (
         <div className="h-screen w-full overflow-hidden">
@@ -371,6 +446,25 @@ const App = () => {
                     
                     <Separator orientation="vertical" className="h-6" />
                     
+                    <BrandKitManager />
+                    
+                    <Button onClick={handleOpenProject} variant="outline">
+                        <FileIcon className="w-4 h-4 mr-2" />
+                        Open Project
+                    </Button>
+                    
+                    {currentVideoPath && sourceMetadata && !isDesigningThumbnail && !isComparing && (
+                        <Button onClick={() => setIsDesigningThumbnail(true)} variant="outline">
+                            <ImageIcon className="w-4 h-4 mr-2" />
+                            Design Thumbnail
+                        </Button>
+                    )}
+                    
+                    <Button onClick={handleBatchUpload} variant="outline">
+                        <StackIcon className="w-4 h-4 mr-2" />
+                        Batch Convert
+                    </Button>
+                    
                     <Button onClick={handleUploadVideo} variant="secondary">
                         <UploadIcon className="w-4 h-4 mr-2" />
                         Upload Video
@@ -378,15 +472,37 @@ const App = () => {
                 </div>
             </header>
             <Separator /> 
-            {selectedVideo || conversionStatus !== 'idle' ? (
-                <div className='flex flex-col h-[calc(100vh-100px)]'>
+            {isDesigningThumbnail && currentVideoPath && sourceMetadata ? (
+                <ThumbnailDesigner
+                    key={`${currentVideoPath}-${projectOpenCount}`}
+                    filePath={currentVideoPath}
+                    metadata={sourceMetadata}
+                    fileName={selectedVideo?.name || ''}
+                    project={thumbnailProject}
+                    onClose={() => setIsDesigningThumbnail(false)}
+                />
+            ) : isComparing && convertedVideoPath && convertedSettings && sourceVideoUrl ? (
+                <ComparisonViewer
+                    originalPath={currentVideoPath}
+                    originalUrl={sourceVideoUrl}
+                    convertedPath={convertedVideoPath}
+                    segments={convertedSettings.segments}
+                    isReframed={convertedSettings.reframe.aspectRatio !== 'original'}
+                    onClose={() => setIsComparing(false)}
+                />
+            ) : selectedVideo || conversionStatus !== 'idle' ? (
+                <div className='flex flex-col h-[calc(100vh-100px)] overflow-y-auto'>
                     <div className='flex flex-row items-start justify-center gap-6 w-full flex-1 px-4 py-8 overflow-x-auto'>
                         <div className="flex-shrink-0 w-[320px] h-[500px]">
                             <VideoUpload
                                 onVideoSelect={handleVideoSelect}
+                                onBatchSelect={setBatchInputPaths}
                                 isProcessing={isProcessing}
                                 selectedVideo={selectedVideo}
                                 thumbnailUrl={thumbnailUrl}
+                                metadata={sourceMetadata}
+                                filePath={currentVideoPath}
+                                onThumbnailChange={setThumbnailUrl}
                             />
                         </div>
                         
@@ -395,11 +511,14 @@ const App = () => {
                                 isProcessing={isProcessing}
                                 progress={conversionProgress}
                                 onStartConversion={handleStartConversion}
+                                onSettingsChange={handleSettingsChange}
+                                applyPreviewEdits={applyPreviewEdits}
                                 onCancelConversion={handleCancelConversion}
                                 onConvertAgain={handleConvertAgain}
                                 selectedVideo={selectedVideo}
                                 conversionStatus={conversionStatus}
                                 errorMessage={errorMessage}
+                                metadata={sourceMetadata}
                             />
                         </div>
                         
@@ -412,9 +531,24 @@ const App = () => {
                                 thumbnailUrl={thumbnailUrl}
                                 originalFileName={selectedVideo?.name || ''}
                                 fileSize={convertedFileSize}
+                                sourceVideoUrl={sourceVideoUrl}
+                                duration={sourceMetadata?.duration ?? 0}
+                                segments={segments}
+                                onSegmentsChange={setSegments}
+                                reframe={reframe}
+                                onReframeChange={setReframe}
+                                subtitles={subtitles}
+                                onCompare={convertedSettings?.exportMode === 'video' ? () => setIsComparing(true) : undefined}
                             />
                         </div>
                     </div>
+
+                    <div className="px-4 pb-8">
+                        <ConversionQueue
+                            pendingInputPaths={batchInputPaths}
+                            onPendingInputPathsChange={setBatchInputPaths}
+                        />
+                    </div>
                     
                     <div className="border-t border-gray-200 dark:border-gray-700 p-4 flex justify-center">
                         <img 
@@ -445,6 +579,13 @@ const App = () => {
                             Upload Video
                         </button>
                     </div>
+
+                    <div className="w-full px-8">
+                        <ConversionQueue
+                            pendingInputPaths={batchInputPaths}
+                            onPendingInputPathsChange={setBatchInputPaths}
+                        />
+                    </div>
                     
                     <div className="text-center pb-8">
                         <img 
@@ -465,6 +606,8 @@ const App = () => {
                 onClose={handleCloseModal}
                 onShowInFinder={handleShowInFinderFromModal}
                 fileName={savedFileName}
+                loudness={convertedLoudness}
+                warnings={convertedWarnings}
             />
         </div>
     );
@@ -0,0 +1,38 @@
+import { ConversionJob, NewConversionJob, VideoSettingsConfig } from '../preload/preload';
+
+export class QueueService {
+    static async getJobs(): Promise<{ jobs: ConversionJob[]; concurrency: number }> {
+        return window.electronAPI.getQueueJobs();
+    }
+
+    static async addJobs(jobs: NewConversionJob[], settings: VideoSettingsConfig): Promise<ConversionJob[]> {
+        const result = await window.electronAPI.addQueueJobs(jobs, settings);
+        if (result.success && result.jobs) {
+            return result.jobs;
+        }
+        throw new Error(result.error || 'Failed to add jobs to the queue');
+    }
+
+    static async cancelJob(jobId: string): Promise<void> {
+        const result = await window.electronAPI.cancelQueueJob(jobId);
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to cancel job');
+        }
+    }
+
+    static async removeJob(jobId: string): Promise<void> {
+        const result = await window.electronAPI.removeQueueJob(jobId);
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to remove job');
+        }
+    }
+
+    static async clearFinished(): Promise<void> {
+        await window.electronAPI.clearFinishedQueueJobs();
+    }
+
+    static async setConcurrency(concurrency: number): Promise<number> {
+        const result = await window.electronAPI.setQueueConcurrency(concurrency);
+        return result.concurrency;
+    }
+}
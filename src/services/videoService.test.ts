@@ -0,0 +1,77 @@
+import type { EventEmitter } from 'events';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { ElectronAPI, VideoSettingsConfig } from '../preload/preload';
+import { ConversionCancelledError, VideoService } from './videoService';
+
+// A stand-in for ipcRenderer: invoke() answers like main would, emitting progress first
+const ipc = await vi.hoisted(async () => {
+    const { EventEmitter: Emitter } = await import('events');
+    return new Emitter() as EventEmitter & { invoke: (channel: string, ...args: unknown[]) => Promise<unknown> };
+});
+
+vi.mock('electron', () => ({
+    ipcRenderer: ipc,
+    webUtils: { getPathForFile: () => '' },
+    // Puts the API where the page finds it
+    contextBridge: {
+        exposeInMainWorld: (key: string, api: ElectronAPI) => {
+            Object.assign(globalThis, { window: { [key]: api } });
+        }
+    }
+}));
+
+// Only passed through to main, so its contents don't matter here
+const SETTINGS = {} as VideoSettingsConfig;
+
+describe('VideoService.convertToMp4', () => {
+    beforeAll(async () => {
+        ipc.invoke = async (channel, ...args) => {
+            if (channel !== 'convert-video') {
+                throw new Error(`Unexpected channel ${channel}`);
+            }
+            const [, outputPath, , conversionId] = args as [string, string, VideoSettingsConfig, string];
+            // Like real IPC, so conversions started together overlap
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            ipc.emit('conversion-progress', {}, conversionId, { progress: 50, timemark: '00:00:01.00', eta: null });
+            if (outputPath.endsWith('cancelled.mp4')) {
+                return { success: false, cancelled: true, error: 'Conversion was cancelled' };
+            }
+            if (outputPath.endsWith('failed.mp4')) {
+                return { success: false, error: 'FFmpeg conversion failed' };
+            }
+            return { success: true, convertedPath: outputPath, loudness: null };
+        };
+        await import('../preload/preload');
+    });
+
+    it('keeps the progress listener count constant over many conversions', async () => {
+        const listenersBefore = ipc.listenerCount('conversion-progress');
+
+        for (let index = 0; index < 50; index++) {
+            const onProgress = vi.fn();
+            const result = await VideoService.convertToMp4(`/videos/input-${index}.mov`, `/videos/output-${index}.mp4`, SETTINGS, onProgress);
+            expect(result.outputPath).toBe(`/videos/output-${index}.mp4`);
+            expect(onProgress).toHaveBeenCalledTimes(1);
+        }
+        await expect(VideoService.convertToMp4('/videos/input.mov', '/videos/failed.mp4', SETTINGS, () => {}))
+            .rejects.toThrow('FFmpeg conversion failed');
+        await expect(VideoService.convertToMp4('/videos/input.mov', '/videos/cancelled.mp4', SETTINGS, () => {}))
+            .rejects.toBeInstanceOf(ConversionCancelledError);
+
+        expect(ipc.listenerCount('conversion-progress')).toBe(listenersBefore);
+    });
+
+    it('only reports progress for its own conversion while others run', async () => {
+        const onFirst = vi.fn();
+        const onSecond = vi.fn();
+
+        await Promise.all([
+            VideoService.convertToMp4('/videos/first.mov', '/videos/first.mp4', SETTINGS, onFirst, 'first'),
+            VideoService.convertToMp4('/videos/second.mov', '/videos/second.mp4', SETTINGS, onSecond, 'second')
+        ]);
+
+        expect(onFirst).toHaveBeenCalledTimes(1);
+        expect(onSecond).toHaveBeenCalledTimes(1);
+        expect(ipc.listenerCount('conversion-progress')).toBe(0);
+    });
+});
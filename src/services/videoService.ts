@@ -1,6 +1,24 @@
-import { VideoConversionProgress, VideoMetadata, VideoSettingsConfig } from '../preload/preload';
+import { BrandKit, ConversionResult, FramePreview, ImportedFont, OutputEstimate, QualityMetrics, SubtitleCue, ThumbnailProject, TimeRange, VideoConversionProgress, VideoMetadata, VideoSettingsConfig } from '../preload/preload';
+
+export class ConversionCancelledError extends Error {
+    constructor() {
+        super('Conversion was cancelled');
+        this.name = 'ConversionCancelledError';
+    }
+}
 
 export class VideoService {
+    static createConversionId(prefix: string = 'conversion'): string {
+        return `${prefix}-${Date.now()}-${Math.random()}`;
+    }
+
+    static async cancelConversion(conversionId: string): Promise<void> {
+        const result = await window.electronAPI.cancelConversion(conversionId);
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to cancel conversion');
+        }
+    }
+
     static async getVideoMetadata(filePath: string): Promise<VideoMetadata> {
         const result = await window.electronAPI.getVideoMetadata(filePath);
         if (result.success && result.metadata) {
@@ -9,6 +27,60 @@ export class VideoService {
         throw new Error(result.error || 'Failed to get video metadata');
     }
 
+    static async loadSubtitles(filePath: string): Promise<SubtitleCue[]> {
+        const result = await window.electronAPI.loadSubtitles(filePath);
+        if (result.success && result.cues) {
+            return result.cues;
+        }
+        throw new Error(result.error || 'Failed to load subtitles');
+    }
+
+    static async getFontFile(family: string, weight: number): Promise<string> {
+        const result = await window.electronAPI.getFontFile(family, weight);
+        if (result.success && result.fontPath) {
+            return result.fontPath;
+        }
+        throw new Error(result.error || 'Failed to get font file');
+    }
+
+    static async importFonts(filePaths: string[]): Promise<ImportedFont[]> {
+        const result = await window.electronAPI.importFonts(filePaths);
+        if (result.success && result.fonts) {
+            return result.fonts;
+        }
+        throw new Error(result.error || 'Failed to import fonts');
+    }
+
+    static async removeImportedFont(family: string, weight: number): Promise<void> {
+        const result = await window.electronAPI.removeImportedFont(family, weight);
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to remove font');
+        }
+    }
+
+    static async saveBrandKit(kit: BrandKit): Promise<BrandKit> {
+        const result = await window.electronAPI.saveBrandKit(kit);
+        if (result.success && result.kit) {
+            return result.kit;
+        }
+        throw new Error(result.error || 'Failed to save brand kit');
+    }
+
+    static async deleteBrandKit(kitId: string): Promise<void> {
+        const result = await window.electronAPI.deleteBrandKit(kitId);
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to delete brand kit');
+        }
+    }
+
+    static async importBrandLogo(kitId: string, filePath: string): Promise<BrandKit> {
+        const result = await window.electronAPI.importBrandLogo(kitId, filePath);
+        if (result.success && result.kit) {
+            return result.kit;
+        }
+        throw new Error(result.error || 'Failed to import logo');
+    }
+
     static async extractFirstFrame(filePath: string, outputDir: string): Promise<string> {
         const result = await window.electronAPI.extractFirstFrame(filePath, outputDir);
         if (result.success && result.thumbnailPath) {
@@ -17,59 +89,140 @@ export class VideoService {
         throw new Error(result.error || 'Failed to extract first frame');
     }
 
+    static async extractFrame(filePath: string, outputDir: string, time: number, width: number | null): Promise<string> {
+        const result = await window.electronAPI.extractFrame(filePath, outputDir, time, width);
+        if (result.success && result.framePath) {
+            return result.framePath;
+        }
+        throw new Error(result.error || 'Failed to extract frame');
+    }
+
+    static async extractFilmstrip(filePath: string, outputDir: string, count: number, width: number): Promise<FramePreview[]> {
+        const result = await window.electronAPI.extractFilmstrip(filePath, outputDir, count, width);
+        if (result.success && result.frames) {
+            return result.frames;
+        }
+        throw new Error(result.error || 'Failed to extract filmstrip');
+    }
+
+    static async suggestFrames(filePath: string, outputDir: string, count: number, width: number): Promise<FramePreview[]> {
+        const result = await window.electronAPI.suggestFrames(filePath, outputDir, count, width);
+        if (result.success && result.frames) {
+            return result.frames;
+        }
+        throw new Error(result.error || 'Failed to suggest frames');
+    }
+
+    static async saveProject(filePath: string, project: Omit<ThumbnailProject, 'version'>): Promise<void> {
+        const result = await window.electronAPI.saveProject(filePath, project);
+        if (!result.success) {
+            throw new Error(result.error || 'Failed to save project');
+        }
+    }
+
+    static async openProject(filePath: string): Promise<ThumbnailProject> {
+        const result = await window.electronAPI.openProject(filePath);
+        if (result.success && result.project) {
+            return result.project;
+        }
+        throw new Error(result.error || 'Failed to open project');
+    }
+
     static async convertToMp4(
         inputPath: string,
         outputPath: string,
         settings: VideoSettingsConfig,
-        onProgress: (progress: VideoConversionProgress) => void
-    ): Promise<string> {
-        const conversionId = `conversion-${Date.now()}-${Math.random()}`;
-        
+        onProgress: (progress: VideoConversionProgress) => void,
+        conversionId: string = this.createConversionId()
+    ): Promise<ConversionResult> {
         // Set up progress listener
-        const progressCallback = (id: string, progress: VideoConversionProgress) => {
+        const unsubscribe = window.electronAPI.onConversionProgress((id, progress) => {
             if (id === conversionId) {
                 onProgress(progress);
             }
-        };
-        
-        window.electronAPI.onConversionProgress(progressCallback);
+        });
         
         try {
             const result = await window.electronAPI.convertVideo(inputPath, outputPath, settings, conversionId);
             if (result.success && result.convertedPath) {
-                return result.convertedPath;
+                return { outputPath: result.convertedPath, loudness: result.loudness ?? null, warnings: result.warnings ?? [] };
+            }
+            if (result.cancelled) {
+                throw new ConversionCancelledError();
             }
             throw new Error(result.error || 'Failed to convert video');
         } finally {
-            window.electronAPI.removeConversionProgressListener(progressCallback);
+            unsubscribe();
+        }
+    }
+
+    static async compareQuality(
+        originalPath: string,
+        convertedPath: string,
+        segments: TimeRange[],
+        onProgress: (progress: VideoConversionProgress) => void,
+        comparisonId: string = this.createConversionId('comparison')
+    ): Promise<QualityMetrics> {
+        const unsubscribe = window.electronAPI.onConversionProgress((id, progress) => {
+            if (id === comparisonId) {
+                onProgress(progress);
+            }
+        });
+
+        try {
+            const result = await window.electronAPI.compareQuality(originalPath, convertedPath, segments, comparisonId);
+            if (result.success && result.metrics) {
+                return result.metrics;
+            }
+            if (result.cancelled) {
+                throw new ConversionCancelledError();
+            }
+            throw new Error(result.error || 'Failed to compare quality');
+        } finally {
+            unsubscribe();
+        }
+    }
+
+    static async estimateOutput(
+        inputPath: string,
+        settings: VideoSettingsConfig,
+        estimateId: string = this.createConversionId('estimate')
+    ): Promise<OutputEstimate> {
+        const result = await window.electronAPI.estimateOutput(inputPath, settings, estimateId);
+        if (result.success && result.estimate) {
+            return result.estimate;
         }
+        if (result.cancelled) {
+            throw new ConversionCancelledError();
+        }
+        throw new Error(result.error || 'Failed to estimate output');
     }
 
     static async optimizeForSocialMedia(
         inputPath: string,
         outputPath: string,
         settings: VideoSettingsConfig,
-        onProgress: (progress: VideoConversionProgress) => void
-    ): Promise<string> {
-        const conversionId = `social-conversion-${Date.now()}-${Math.random()}`;
-        
+        onProgress: (progress: VideoConversionProgress) => void,
+        conversionId: string = this.createConversionId('social-conversion')
+    ): Promise<ConversionResult> {
         // Set up progress listener
-        const progressCallback = (id: string, progress: VideoConversionProgress) => {
+        const unsubscribe = window.electronAPI.onConversionProgress((id, progress) => {
             if (id === conversionId) {
                 onProgress(progress);
             }
-        };
-        
-        window.electronAPI.onConversionProgress(progressCallback);
+        });
         
         try {
             const result = await window.electronAPI.optimizeForSocialMedia(inputPath, outputPath, settings, conversionId);
             if (result.success && result.convertedPath) {
-                return result.convertedPath;
+                return { outputPath: result.convertedPath, loudness: result.loudness ?? null, warnings: result.warnings ?? [] };
+            }
+            if (result.cancelled) {
+                throw new ConversionCancelledError();
             }
             throw new Error(result.error || 'Failed to optimize video for social media');
         } finally {
-            window.electronAPI.removeConversionProgressListener(progressCallback);
+            unsubscribe();
         }
     }
 }
\ No newline at end of file
@@ -14,4 +14,145 @@ export interface TextSet {
   tiltX: number;
   tiltY: number;
   letterSpacing: number;
-}
\ No newline at end of file
+}
+
+export type OverlayAnchor = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+export interface OverlayPlacement {
+  id: number;
+  anchor: OverlayAnchor;
+  // Inset from the anchored corner, as a percentage of the frame width/height
+  offsetX: number;
+  offsetY: number;
+  // Seconds on the exported timeline, null shows the layer for the whole clip
+  start: number | null;
+  end: number | null;
+}
+
+// A TextSet burned into the video with drawtext
+export interface TextOverlay extends OverlayPlacement {
+  kind: 'text';
+  textSet: TextSet;
+}
+
+// A PNG logo or other still image
+export interface ImageOverlay extends OverlayPlacement {
+  kind: 'image';
+  path: string;
+  // Width as a percentage of the frame width, height follows the image
+  width: number;
+  opacity: number;
+}
+
+export type VideoOverlay = TextOverlay | ImageOverlay;
+
+// Canvas blend modes a thumbnail layer can use, 'normal' draws over what's below
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion';
+
+// Placement every thumbnail layer shares, with TextSet's meaning: left/top
+// move the centre in percent of the frame from its middle (top points up),
+// rotation is in degrees and opacity 0-1
+export interface LayerTransform {
+  left: number;
+  top: number;
+  rotation: number;
+  opacity: number;
+}
+
+interface LayerBase extends LayerTransform {
+  id: number;
+  blendMode: BlendMode;
+  // Locked layers can't be edited, moved in the stack or removed
+  locked: boolean;
+  hidden: boolean;
+}
+
+// Text layers are TextSets, so the TextSet editor works on them directly
+export interface TextLayer extends LayerBase, TextSet {
+  kind: 'text';
+}
+
+// A logo, sticker or cut-out; transparency in the file is kept
+export interface ImageLayer extends LayerBase {
+  kind: 'image';
+  path: string;
+  // Percentage of the frame width, height follows the image
+  width: number;
+}
+
+export type ShapeKind = 'rectangle' | 'ellipse';
+
+export interface ShapeLayer extends LayerBase {
+  kind: 'shape';
+  shape: ShapeKind;
+  // Percentages of the frame width and height
+  width: number;
+  height: number;
+  // null leaves the shape unfilled, e.g. for an outlined box
+  fill: string | null;
+  stroke: string | null;
+  // Pixels on a 1080 line frame, like TextSet sizes
+  strokeWidth: number;
+  cornerRadius: number;
+}
+
+export type ThumbnailLayer = TextLayer | ImageLayer | ShapeLayer;
+
+// Contents of a .subclip thumbnail project file, see src/lib/thumbnail-project.ts
+export interface ThumbnailProject {
+  version: number;
+  // The original video, not the temp copy the app works on
+  sourceVideoPath: string;
+  // The background is re-extracted from the source on open rather than stored
+  background: {
+    time: number;
+  };
+  width: number;
+  height: number;
+  // Bottom to top
+  layers: ThumbnailLayer[];
+}
+
+// A font file the user added, stored under userData and served like catalogue fonts
+export interface ImportedFont {
+  family: string;
+  weight: number;
+  // File name inside the imported fonts folder
+  fileName: string;
+}
+
+export interface BrandTextStyle {
+  name: string;
+  style: Pick<TextSet, 'fontFamily' | 'fontWeight' | 'fontSize' | 'color' | 'shadowColor' | 'shadowSize' | 'letterSpacing'>;
+}
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  // Family names, from the catalogue or imported
+  fonts: string[];
+  colors: string[];
+  // Absolute paths of the kit's copies of its logo images
+  logos: string[];
+  textStyles: BrandTextStyle[];
+}
+
+// The video being worked on, read in place from wherever the user keeps it
+export interface SelectedVideo {
+  path: string;
+  name: string;
+  // Bytes
+  size: number;
+}
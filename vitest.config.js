@@ -0,0 +1,16 @@
+const path = require('path');
+const { defineConfig } = require('vitest/config');
+
+module.exports = defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'src'),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    // The encoding tests run real ffmpeg jobs
+    testTimeout: 120000,
+  },
+});